@@ -1,43 +1,126 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { gameStore, handleServerMessage, resetStore } from '../store/gameStore';
-import type { ClientMessage, ServerMessage } from '../../../src/types';
+import { gameStore, handleServerMessage, resetStore, secondsUntil } from '../store/gameStore';
+import { WS_CLOSE_OUTDATED, WS_CLOSE_REMOVED, WS_CLOSE_UNAUTHORIZED } from '../../../src/types';
+import type { ClientMessage, ConnectionRole } from '../../../src/types';
+import { parseServerFrame, PROTOCOL_VERSION } from '../../../src/protocol';
 
 const MAX_RECONNECT_ATTEMPTS = 10;
 const INITIAL_RECONNECT_DELAY = 1000;
 const MAX_RECONNECT_DELAY = 30000;
+const CLOCK_SYNC_SAMPLES = 5; // clock_sync round trips on each connect
+const COUNTDOWN_INTERVAL_MS = 250;
 
-export function useWebSocket(gameId: string | null, isHost: boolean = false) {
+export function useWebSocket(gameId: string | null, role: ConnectionRole = 'player', hostToken: string | null = null) {
+  const isHost = role === 'host';
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const manualDisconnectRef = useRef(false);
+  const lastSeqRef = useRef<number | null>(null); // Latest sequence number seen, to resume from on reconnect
+  const clockSamplesRef = useRef(0);
+  const bestRttRef = useRef(Infinity); // Fastest clock_sync round trip this connection, whose offset we keep
 
   const connect = useCallback(() => {
     if (!gameId || manualDisconnectRef.current) return;
 
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const host = window.location.host;
-    const url = `${protocol}//${host}/ws/game/${gameId}?host=${isHost}`;
+    let url = `${protocol}//${host}/ws/game/${gameId}?host=${isHost}&protocol=${PROTOCOL_VERSION}`;
+    if (isHost && hostToken) {
+      url += `&token=${encodeURIComponent(hostToken)}`;
+    }
+    if (role === 'spectator') {
+      url += '&spectator=true';
+    }
+    // Only the missed events are sent back, or a full snapshot if we've been gone too long
+    if (lastSeqRef.current !== null) {
+      url += `&since=${lastSeqRef.current}`;
+    }
 
     const ws = new WebSocket(url);
     wsRef.current = ws;
 
+    const syncClock = () => {
+      ws.send(JSON.stringify({ type: 'clock_sync', clientTime: Date.now() } satisfies ClientMessage));
+    };
+
     ws.onopen = () => {
       reconnectAttemptsRef.current = 0;
+      clockSamplesRef.current = 0;
+      bestRttRef.current = Infinity;
       gameStore.setState((state) => ({ ...state, connected: true, reconnecting: false, error: null, isHost }));
+      syncClock();
     };
 
     ws.onmessage = (event) => {
-      try {
-        const message: ServerMessage = JSON.parse(event.data);
-        handleServerMessage(message);
-      } catch (e) {
-        console.error('Failed to parse message:', e);
+      const parsed = parseServerFrame(event.data);
+      if (!parsed.success) {
+        console.error('Ignoring malformed server message:', parsed.error);
+        return;
+      }
+      const message = parsed.message;
+      if (message.seq !== undefined) {
+        lastSeqRef.current = message.seq;
       }
+      if (message.type === 'clock_sync') {
+        // Assume the reply took half the round trip; the fastest round trip gives the tightest estimate
+        const now = Date.now();
+        const rtt = now - message.clientTime;
+        if (rtt < bestRttRef.current) {
+          bestRttRef.current = rtt;
+          const clockOffset = message.serverTime + rtt / 2 - now;
+          gameStore.setState((state) => ({ ...state, clockOffset }));
+        }
+        clockSamplesRef.current++;
+        if (clockSamplesRef.current < CLOCK_SYNC_SAMPLES) {
+          syncClock();
+        }
+        return;
+      }
+      if (message.type === 'latency_probe') {
+        // The server times how long this takes, so answer before anything else
+        ws.send(JSON.stringify({ type: 'latency_probe', nonce: message.nonce } satisfies ClientMessage));
+        return;
+      }
+      handleServerMessage(message);
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       if (manualDisconnectRef.current) return;
+
+      // The server refused this connection - retrying won't help
+      if (event.code === WS_CLOSE_UNAUTHORIZED) {
+        gameStore.setState((state) => ({
+          ...state,
+          connected: false,
+          reconnecting: false,
+          error: event.reason || 'Not authorized to host this game',
+        }));
+        return;
+      }
+
+      // This page is an older build than the server - only a reload helps
+      if (event.code === WS_CLOSE_OUTDATED) {
+        gameStore.setState((state) => ({
+          ...state,
+          connected: false,
+          reconnecting: false,
+          error: event.reason || 'This game has been updated. Please reload the page.',
+        }));
+        return;
+      }
+
+      // The host removed this player - stay out
+      if (event.code === WS_CLOSE_REMOVED) {
+        gameStore.setState((state) => ({
+          ...state,
+          connected: false,
+          reconnecting: false,
+          removed: true,
+          error: event.reason || 'You have been removed from the game',
+        }));
+        return;
+      }
       
       gameStore.setState((state) => ({ ...state, connected: false, reconnecting: true }));
       
@@ -64,7 +147,7 @@ export function useWebSocket(gameId: string | null, isHost: boolean = false) {
     ws.onerror = () => {
       ws.close();
     };
-  }, [gameId, isHost]);
+  }, [gameId, role, isHost, hostToken]);
 
   const send = useCallback((message: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -81,9 +164,23 @@ export function useWebSocket(gameId: string | null, isHost: boolean = false) {
     }
     wsRef.current?.close();
     wsRef.current = null;
+    lastSeqRef.current = null;
     resetStore();
   }, []);
 
+  // Count down to the server's deadline between ticks, so the timer stays smooth when ticks are late or lost
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      const { questionEndsAt, clockOffset, secondsLeft } = gameStore.state;
+      if (questionEndsAt === null) return;
+      const next = secondsUntil(questionEndsAt, clockOffset);
+      if (next !== secondsLeft) {
+        gameStore.setState((state) => ({ ...state, secondsLeft: next }));
+      }
+    }, COUNTDOWN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
   useEffect(() => {
     manualDisconnectRef.current = false;
     connect();
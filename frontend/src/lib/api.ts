@@ -0,0 +1,17 @@
+import { authStore, clearAuth } from '../store/authStore';
+
+// fetch() for the Worker API that attaches the signed-in host's bearer token
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const { token } = authStore.state;
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && token) {
+    // Session expired or revoked - force a fresh sign-in
+    clearAuth();
+  }
+  return response;
+}
@@ -1,7 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from '@tanstack/react-router';
-import { Plus, Trash2, Play, ArrowLeft, Save, Check, FileText, Edit3, Image, X, Upload } from 'lucide-react';
-import type { Question, Quiz, SavedQuiz } from '../../../src/types';
+import { useStore } from '@tanstack/react-store';
+import { Plus, Trash2, Play, ArrowLeft, Save, Check, FileText, Edit3, Image, X, Upload, LogOut, Share2, Copy, Users, UserPlus, Download, ArrowUp, ArrowDown } from 'lucide-react';
+import type { CreateGameRequest, CreateGameResponse, GameMode, LateJoin, NicknameMode, TeamScoring, Question, QuestionType, Quiz, ScoringMode, QuizFieldError, QuizImportError, QuizImportResponse, QuizValidationErrorResponse, SavedQuiz, Team } from '../../../src/types';
+import { MAX_PLAYERS } from '../../../src/gameSettings';
+import { groupFieldErrors, validateQuiz } from '../../../src/validation';
+import { storeHostToken } from '../store/hostSession';
+import { authStore, clearAuth, loadCurrentUser } from '../store/authStore';
+import { apiFetch } from '../lib/api';
 
 // Fallback for local dev when accessing via IP address (e.g., mobile testing).
 // crypto.randomUUID() requires a secure context (HTTPS or localhost).
@@ -16,24 +22,108 @@ function generateUUID(): string {
   });
 }
 
-function createEmptyQuestion(): Question {
-  return {
-    id: generateUUID(),
-    text: '',
-    imageUrl: undefined,
-    answers: ['', '', '', ''],
-    correctIndices: [0],
-    timerSeconds: 20,
-    doublePoints: false,
+function createEmptyQuestion(type: QuestionType = 'multiple_choice', base?: Question): Question {
+  const common = {
+    id: base?.id ?? generateUUID(),
+    text: base?.text ?? '',
+    imageUrl: base?.imageUrl,
+    timerSeconds: base?.timerSeconds ?? 20,
+    doublePoints: base?.doublePoints ?? false,
   };
+
+  switch (type) {
+    case 'multiple_choice':
+      return { ...common, type, answers: ['', '', '', ''], correctIndices: [0] };
+    case 'true_false':
+      return { ...common, type, correctAnswer: true };
+    case 'type_answer':
+      return { ...common, type, acceptedAnswers: [''], fuzzy: true };
+    case 'slider':
+      return { ...common, type, min: 0, max: 100, step: 1, correctValue: 50, tolerance: 0 };
+    case 'ordering':
+      return { ...common, type, items: ['', '', ''] };
+    case 'poll':
+      return { ...common, type, answers: ['', ''] };
+  }
 }
 
+const questionTypes: { id: QuestionType; label: string }[] = [
+  { id: 'multiple_choice', label: 'Multiple choice' },
+  { id: 'true_false', label: 'True / False' },
+  { id: 'type_answer', label: 'Type answer' },
+  { id: 'slider', label: 'Slider' },
+  { id: 'ordering', label: 'Ordering' },
+  { id: 'poll', label: 'Poll' },
+];
+
+const teamCounts = [2, 3, 4, 5, 6, 7, 8];
+
+const teamScorings: { id: TeamScoring; label: string }[] = [
+  { id: 'sum', label: 'Team total' },
+  { id: 'average', label: 'Team average' },
+  { id: 'consensus', label: 'Team answers once (majority vote)' },
+];
+
+const nicknameModes: { id: NicknameMode; label: string }[] = [
+  { id: 'filter', label: 'Filter offensive nicknames' },
+  { id: 'generated', label: 'Generated nicknames only' },
+  { id: 'off', label: 'Any nickname' },
+];
+
+const lateJoins: { id: LateJoin; label: string }[] = [
+  { id: 'off', label: 'No late joining' },
+  { id: 'zero', label: 'Late joiners start at 0' },
+  { id: 'median', label: 'Late joiners start at the median score' },
+];
+
+const scoringModes: { id: ScoringMode; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classic', description: 'Faster correct answers earn more points' },
+  { id: 'accuracy', label: 'Accuracy only', description: 'Every correct answer is worth the same - good for exams' },
+  { id: 'streak', label: 'Streaks', description: 'Classic points, plus a bonus for correct answers in a row' },
+  { id: 'partial_credit', label: 'Partial credit', description: 'Multi-select answers score for each correct pick, minus wrong picks' },
+];
+
+const answerColors = ['bg-answer-red', 'bg-answer-blue', 'bg-answer-yellow', 'bg-answer-green'];
+
 type View = 'select' | 'edit';
+type LibraryTab = 'mine' | 'shared' | 'team';
+
+const libraryTabs: { id: LibraryTab; label: string }[] = [
+  { id: 'mine', label: 'Mine' },
+  { id: 'shared', label: 'Shared with me' },
+  { id: 'team', label: 'Team' },
+];
+
+const exportFormats = ['json', 'csv', 'xlsx'] as const;
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json() as { error?: string };
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-sm text-red-300 mt-1">{message}</p>;
+}
 
 export function HostCreate() {
   const navigate = useNavigate();
+  const { user, checking } = useStore(authStore);
   const [view, setView] = useState<View>('select');
   const [title, setTitle] = useState('My Quiz');
+  const [scoring, setScoring] = useState<ScoringMode>('classic');
+  const [gameMode, setGameMode] = useState<GameMode>('live');
+  const [deadline, setDeadline] = useState(''); // datetime-local value for assignments
+  const [teamCount, setTeamCount] = useState(0); // 0 = no teams
+  const [teamScoring, setTeamScoring] = useState<TeamScoring>('sum');
+  const [nicknameMode, setNicknameMode] = useState<NicknameMode>('filter');
+  const [blockedWords, setBlockedWords] = useState(''); // Comma-separated extra words for the filter
+  const [maxPlayers, setMaxPlayers] = useState(MAX_PLAYERS);
+  const [lateJoin, setLateJoin] = useState<LateJoin>('off');
   const [questions, setQuestions] = useState<Question[]>([createEmptyQuestion()]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -42,19 +132,94 @@ export function HostCreate() {
   const [savedQuizzes, setSavedQuizzes] = useState<SavedQuiz[]>([]);
   const [loadingQuizzes, setLoadingQuizzes] = useState(true);
   const [currentQuizId, setCurrentQuizId] = useState<string | null>(null);
+  const [currentTeamId, setCurrentTeamId] = useState<string | null>(null);
+  const [tab, setTab] = useState<LibraryTab>('mine');
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<QuizImportError[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-  // Load saved quizzes on mount
+  const selectedTeam = teams.find((t) => t.id === selectedTeamId) ?? null;
+
+  // Hosting requires an account - resolve the session first
   useEffect(() => {
-    fetchSavedQuizzes();
+    loadCurrentUser().then((currentUser) => {
+      if (currentUser) {
+        fetchTeams();
+      }
+    });
   }, []);
 
+  // Reload the library whenever the tab or team folder changes
+  useEffect(() => {
+    if (user) {
+      fetchSavedQuizzes();
+    }
+  }, [user, tab, selectedTeamId]);
+
+  // Send signed-out (or expired) hosts to the login page
+  useEffect(() => {
+    if (!checking && !user) {
+      navigate({ to: '/login', search: { redirect: '/host/create' } });
+    }
+  }, [checking, user, navigate]);
+
+  // Once errors are showing, re-check on every edit so each one clears as it is fixed
+  useEffect(() => {
+    if (Object.keys(fieldErrors).length === 0) return;
+    const validation = validateQuiz({ title, questions, scoring });
+    setFieldErrors(validation.success ? {} : groupFieldErrors(validation.errors));
+  }, [title, questions, scoring]);
+
+  // Check the quiz with the same rules the server uses; returns false and highlights fields if invalid
+  function checkQuiz(): boolean {
+    const validation = validateQuiz({ title, questions, scoring });
+    if (validation.success) {
+      setFieldErrors({});
+      return true;
+    }
+    showFieldErrors(validation.errors);
+    return false;
+  }
+
+  function showFieldErrors(errors: QuizFieldError[]) {
+    setFieldErrors(groupFieldErrors(errors));
+    setError('Please fix the highlighted fields');
+  }
+
+  async function readSaveError(response: Response, fallback: string): Promise<string | null> {
+    if (response.status === 400) {
+      const data = await response.json() as QuizValidationErrorResponse;
+      if (data.fieldErrors) {
+        showFieldErrors(data.fieldErrors);
+        return null;
+      }
+    }
+    return readError(response, fallback);
+  }
+
+  async function handleSignOut() {
+    await apiFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    clearAuth();
+  }
+
   async function fetchSavedQuizzes() {
     setLoadingQuizzes(true);
     try {
-      const response = await fetch('/api/quizzes');
+      const params = new URLSearchParams({ scope: tab });
+      if (tab === 'team' && selectedTeamId) {
+        params.set('teamId', selectedTeamId);
+      }
+      const response = await apiFetch(`/api/quizzes?${params}`);
       if (response.ok) {
         const quizzes = await response.json() as SavedQuiz[];
         setSavedQuizzes(quizzes);
+      } else {
+        setSavedQuizzes([]);
       }
     } catch {
       // Ignore errors - quizzes feature may not be available
@@ -64,10 +229,7 @@ export function HostCreate() {
   }
 
   async function handleSaveQuiz() {
-    if (!title.trim()) {
-      setError('Quiz title is required');
-      return;
-    }
+    if (!checkQuiz()) return;
 
     setSaving(true);
     setError(null);
@@ -78,17 +240,18 @@ export function HostCreate() {
       const quiz: Quiz = { 
         id: quizId, 
         title: title.trim(), 
-        questions 
+        questions,
+        scoring,
       };
 
       // Always use POST for new, PUT for existing
       const method = currentQuizId ? 'PUT' : 'POST';
       const url = currentQuizId ? `/api/quizzes/${currentQuizId}` : '/api/quizzes';
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(quiz),
+        body: JSON.stringify({ ...quiz, teamId: currentTeamId }),
       });
 
       if (response.ok) {
@@ -99,9 +262,8 @@ export function HostCreate() {
         // Clear success message after 2 seconds
         setTimeout(() => setSaveSuccess(false), 2000);
       } else {
-        const errorData = await response.text();
-        console.error('Save failed:', errorData);
-        setError('Failed to save quiz. Please try again.');
+        const message = await readSaveError(response, 'Failed to save quiz. Please try again.');
+        if (message) setError(message);
       }
     } catch (err) {
       console.error('Save error:', err);
@@ -111,17 +273,73 @@ export function HostCreate() {
     }
   }
 
+  async function fetchTeams() {
+    try {
+      const response = await apiFetch('/api/teams');
+      if (response.ok) {
+        const loaded = await response.json() as Team[];
+        setTeams(loaded);
+        setSelectedTeamId((current) => current ?? loaded[0]?.id ?? null);
+      }
+    } catch {
+      // Ignore - the team tab will just be empty
+    }
+  }
+
+  async function createTeam(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newTeamName.trim()) return;
+
+    const response = await apiFetch('/api/teams', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newTeamName.trim() }),
+    });
+    if (response.ok) {
+      const team = await response.json() as Team;
+      setNewTeamName('');
+      setTeams((prev) => [...prev, team]);
+      setSelectedTeamId(team.id);
+    } else {
+      setError(await readError(response, 'Failed to create team'));
+    }
+  }
+
+  async function addTeamMember(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedTeamId || !newMemberEmail.trim()) return;
+
+    const response = await apiFetch(`/api/teams/${selectedTeamId}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: newMemberEmail.trim() }),
+    });
+    if (response.ok) {
+      setNewMemberEmail('');
+      await fetchTeams();
+    } else {
+      setError(await readError(response, 'Failed to add member'));
+    }
+  }
+
   function selectQuiz(quiz: SavedQuiz) {
     setTitle(quiz.title);
+    setScoring(quiz.scoring);
     setQuestions(quiz.questions);
     setCurrentQuizId(quiz.id);
+    setCurrentTeamId(quiz.teamId);
+    setFieldErrors({});
     setView('edit');
   }
 
   function startNewQuiz() {
     setTitle('My Quiz');
+    setScoring('classic');
     setQuestions([createEmptyQuestion()]);
     setCurrentQuizId(null);
+    // New quizzes created from the Team tab go straight into that team's folder
+    setCurrentTeamId(tab === 'team' ? selectedTeamId : null);
+    setFieldErrors({});
     setView('edit');
   }
 
@@ -130,7 +348,11 @@ export function HostCreate() {
     if (!confirm('Delete this quiz?')) return;
 
     try {
-      await fetch(`/api/quizzes/${quizId}`, { method: 'DELETE' });
+      const response = await apiFetch(`/api/quizzes/${quizId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to delete quiz'));
+        return;
+      }
       await fetchSavedQuizzes();
       if (currentQuizId === quizId) {
         setCurrentQuizId(null);
@@ -140,11 +362,107 @@ export function HostCreate() {
     }
   }
 
+  async function cloneQuiz(quizId: string, e: React.MouseEvent) {
+    e.stopPropagation();
+    const response = await apiFetch(`/api/quizzes/${quizId}/clone`, { method: 'POST' });
+    if (response.ok) {
+      setNotice('Copied into your library');
+      setTab('mine');
+    } else {
+      setError(await readError(response, 'Failed to clone quiz'));
+    }
+  }
+
+  async function shareQuiz(quizId: string, e: React.MouseEvent) {
+    e.stopPropagation();
+    const response = await apiFetch(`/api/quizzes/${quizId}/share`, { method: 'POST' });
+    if (!response.ok) {
+      setError(await readError(response, 'Failed to share quiz'));
+      return;
+    }
+
+    const { shareToken } = await response.json() as { shareToken: string };
+    const link = `${window.location.origin}/host/shared/${shareToken}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice('Read-only link copied to clipboard');
+    } catch {
+      setNotice(`Read-only link: ${link}`);
+    }
+    await fetchSavedQuizzes();
+  }
+
+  async function stopSharing(quizId: string, e: React.MouseEvent) {
+    e.stopPropagation();
+    if (!confirm('Stop sharing? Everyone who opened the link loses access.')) return;
+
+    const response = await apiFetch(`/api/quizzes/${quizId}/share`, { method: 'DELETE' });
+    if (response.ok) {
+      setNotice('Sharing stopped');
+      await fetchSavedQuizzes();
+    } else {
+      setError(await readError(response, 'Failed to stop sharing'));
+    }
+  }
+
+  async function importQuizFile(file: File) {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const params = new URLSearchParams({ format: extension, title: file.name.replace(/\.[^.]+$/, '') });
+
+    setImporting(true);
+    setError(null);
+    setNotice(null);
+    setImportErrors([]);
+    try {
+      const response = await apiFetch(`/api/quizzes/import?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+
+      if (response.ok) {
+        const quiz = await response.json() as SavedQuiz;
+        setNotice(`Imported "${quiz.title}" with ${quiz.questions.length} question${quiz.questions.length !== 1 ? 's' : ''}`);
+        setTab('mine');
+        await fetchSavedQuizzes();
+      } else if (response.status === 422) {
+        const data = await response.json() as QuizImportResponse;
+        setError(`Could not import ${file.name}`);
+        setImportErrors(data.errors);
+      } else {
+        setError(await readError(response, 'Failed to import quiz'));
+      }
+    } catch {
+      setError('Failed to import quiz');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function exportQuiz(format: typeof exportFormats[number]) {
+    if (!currentQuizId) return;
+
+    const response = await apiFetch(`/api/quizzes/${currentQuizId}/export?format=${format}`);
+    if (!response.ok) {
+      setError(await readError(response, 'Failed to export quiz'));
+      return;
+    }
+
+    // Use the server's file name so downloads match the quiz title
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? `quiz.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
 
   function toggleCorrectAnswer(questionIndex: number, answerIndex: number) {
     setQuestions((prev) =>
       prev.map((q, i) => {
-        if (i !== questionIndex) return q;
+        if (i !== questionIndex || q.type !== 'multiple_choice') return q;
         const indices = new Set(q.correctIndices);
         if (indices.has(answerIndex)) {
           indices.delete(answerIndex);
@@ -153,7 +471,7 @@ export function HostCreate() {
         } else {
           indices.add(answerIndex);
         }
-        return { ...q, correctIndices: Array.from(indices).sort() };
+        return { ...q, correctIndices: Array.from(indices).sort((a, b) => a - b) };
       })
     );
   }
@@ -183,7 +501,14 @@ export function HostCreate() {
 
   function updateQuestion(index: number, updates: Partial<Question>) {
     setQuestions((prev) =>
-      prev.map((q, i) => (i === index ? { ...q, ...updates } : q))
+      prev.map((q, i) => (i === index ? { ...q, ...updates } as Question : q))
+    );
+  }
+
+  // Switching type keeps the text, image and timer but starts the answers over
+  function changeQuestionType(index: number, type: QuestionType) {
+    setQuestions((prev) =>
+      prev.map((q, i) => (i === index && q.type !== type ? createEmptyQuestion(type, q) : q))
     );
   }
 
@@ -191,9 +516,49 @@ export function HostCreate() {
     setQuestions((prev) =>
       prev.map((q, i) => {
         if (i !== questionIndex) return q;
-        const answers = [...q.answers] as [string, string, string, string];
-        answers[answerIndex] = value;
-        return { ...q, answers };
+        if (q.type === 'multiple_choice') {
+          const answers = [...q.answers] as [string, string, string, string];
+          answers[answerIndex] = value;
+          return { ...q, answers };
+        }
+        if (q.type === 'poll') {
+          const answers = [...q.answers];
+          answers[answerIndex] = value;
+          return { ...q, answers };
+        }
+        return q;
+      })
+    );
+  }
+
+  function updateAcceptedAnswer(questionIndex: number, answerIndex: number, value: string | null) {
+    setQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== questionIndex || q.type !== 'type_answer') return q;
+        const acceptedAnswers = value === null
+          ? q.acceptedAnswers.filter((_, j) => j !== answerIndex)
+          : q.acceptedAnswers.map((answer, j) => (j === answerIndex ? value : answer));
+        return { ...q, acceptedAnswers };
+      })
+    );
+  }
+
+  // Edit, remove (value null) or move (by an offset) one ordering item
+  function updateItem(questionIndex: number, itemIndex: number, value: string | null, move = 0) {
+    setQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== questionIndex || q.type !== 'ordering') return q;
+        const items = [...q.items];
+        if (value === null) {
+          items.splice(itemIndex, 1);
+        } else {
+          items[itemIndex] = value;
+        }
+        if (move !== 0) {
+          const [item] = items.splice(itemIndex, 1);
+          items.splice(itemIndex + move, 0, item);
+        }
+        return { ...q, items };
       })
     );
   }
@@ -208,21 +573,14 @@ export function HostCreate() {
   }
 
   async function handleCreate() {
-    // Validate
-    for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.text.trim() && !q.imageUrl) {
-        setError(`Question ${i + 1} needs text or an image`);
-        return;
-      }
-      if (q.answers.some((a) => !a.trim())) {
-        setError(`Question ${i + 1} has empty answers`);
-        return;
-      }
-      if (q.correctIndices.length === 0) {
-        setError(`Question ${i + 1} needs at least one correct answer`);
-        return;
-      }
+    if (!checkQuiz()) return;
+    if (gameMode === 'assignment' && !(new Date(deadline).getTime() > Date.now())) {
+      setError('Pick a deadline in the future for the assignment');
+      return;
+    }
+    if (gameMode === 'assignment' && teamCount > 0 && teamScoring === 'consensus') {
+      setError('Consensus teams need a live game');
+      return;
     }
 
     setLoading(true);
@@ -231,28 +589,54 @@ export function HostCreate() {
     try {
       // Auto-save quiz before starting game
       const quizId = currentQuizId || generateUUID();
-      const quiz: Quiz = { id: quizId, title: title.trim(), questions };
+      const quiz: Quiz = { id: quizId, title: title.trim(), questions, scoring };
       
       const saveMethod = currentQuizId ? 'PUT' : 'POST';
       const saveUrl = currentQuizId ? `/api/quizzes/${currentQuizId}` : '/api/quizzes';
       
-      const saveResponse = await fetch(saveUrl, {
+      const saveResponse = await apiFetch(saveUrl, {
         method: saveMethod,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(quiz),
+        body: JSON.stringify({ ...quiz, teamId: currentTeamId }),
       });
       
-      if (saveResponse.ok) {
-        const saved = await saveResponse.json() as SavedQuiz;
-        setCurrentQuizId(saved.id);
+      if (!saveResponse.ok) {
+        const message = await readSaveError(saveResponse, 'Failed to save quiz. Please try again.');
+        if (message) setError(message);
+        setLoading(false);
+        return;
       }
+      const saved = await saveResponse.json() as SavedQuiz;
+      setCurrentQuizId(saved.id);
 
-      // Create game
-      const response = await fetch('/api/games', { method: 'POST' });
-      const data = await response.json() as { gameId: string; gamePin: string };
+      // Create the game from the saved quiz; the server sets it up before we connect
+      const request: CreateGameRequest = gameMode === 'assignment'
+        ? { quizId: saved.id, mode: 'assignment', deadline: new Date(deadline).getTime() }
+        : { quizId: saved.id };
+      if (teamCount > 0) {
+        request.teams = { count: teamCount, scoring: teamScoring };
+      }
+      request.settings = { nicknameMode, maxPlayers };
+      if (gameMode === 'live') {
+        request.settings.lateJoin = lateJoin;
+      }
+      if (nicknameMode === 'filter') {
+        request.blockedWords = blockedWords.split(',').map((word) => word.trim()).filter(Boolean);
+      }
+      const response = await apiFetch('/api/games', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        setError(await readError(response, 'Failed to create game'));
+        setLoading(false);
+        return;
+      }
+      const data = await response.json() as CreateGameResponse;
 
-      // Store quiz in sessionStorage to send via WebSocket
-      sessionStorage.setItem('pending_quiz', JSON.stringify(quiz));
+      // Keep the host secret so the presenter can reconnect after a refresh
+      storeHostToken(data.gameId, data.hostToken);
 
       navigate({ to: '/host/presenter/$gameId', params: { gameId: data.gameId } });
     } catch (e) {
@@ -274,7 +658,22 @@ export function HostCreate() {
             Back
           </button>
 
-          <h1 className="text-4xl font-bold text-white mb-8">Host a Game</h1>
+          <div className="flex items-center justify-between mb-8">
+            <h1 className="text-4xl font-bold text-white">Host a Game</h1>
+            {user && (
+              <div className="flex items-center gap-3 text-sm text-gray-400">
+                <span>{user.email}</span>
+                <button
+                  onClick={handleSignOut}
+                  className="flex items-center gap-1 hover:text-white"
+                  title="Sign out"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Sign out
+                </button>
+              </div>
+            )}
+          </div>
 
           {/* Create New Quiz */}
           <button
@@ -290,13 +689,124 @@ export function HostCreate() {
             </div>
           </button>
 
+          {/* Import Quiz */}
+          <label className="w-full card mb-6 hover:bg-white/20 transition-colors text-left flex items-center gap-4 cursor-pointer">
+            <div className="w-14 h-14 rounded-xl bg-white/10 flex items-center justify-center">
+              <Upload className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{importing ? 'Importing...' : 'Import Quiz'}</h2>
+              <p className="text-gray-400">Upload a JSON, CSV or Excel (.xlsx) file</p>
+            </div>
+            <input
+              type="file"
+              accept=".json,.csv,.xlsx"
+              className="hidden"
+              disabled={importing}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importQuizFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
           {/* Saved Quizzes */}
           <div className="mb-4">
             <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
               <FileText className="w-5 h-5" />
-              Your Saved Quizzes
+              Quiz Library
             </h2>
 
+            <div className="flex gap-2 mb-4">
+              {libraryTabs.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => { setTab(id); setNotice(null); setError(null); setImportErrors([]); }}
+                  className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
+                    tab === id ? 'bg-brand-orange text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {notice && (
+              <div className="mb-4 p-3 bg-green-500/20 border border-green-500 rounded-lg text-green-300 break-all">
+                {notice}
+              </div>
+            )}
+            {error && (
+              <div className="mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg text-red-300">
+                {error}
+                {importErrors.length > 0 && (
+                  <ul className="mt-2 text-sm list-disc list-inside">
+                    {importErrors.map((importError, i) => (
+                      <li key={i}>
+                        {importError.row !== null && `Row ${importError.row}: `}
+                        {importError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Team folders */}
+            {tab === 'team' && (
+              <div className="card mb-4 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <Users className="w-5 h-5 text-gray-400" />
+                  {teams.length > 0 && (
+                    <select
+                      value={selectedTeamId ?? ''}
+                      onChange={(e) => setSelectedTeamId(e.target.value)}
+                      className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                    >
+                      {teams.map((team) => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <form onSubmit={createTeam} className="flex gap-2 flex-1">
+                    <input
+                      type="text"
+                      value={newTeamName}
+                      onChange={(e) => setNewTeamName(e.target.value)}
+                      placeholder="New team name"
+                      className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-gray-400"
+                    />
+                    <button type="submit" className="btn btn-secondary px-3 py-2" disabled={!newTeamName.trim()}>
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  </form>
+                </div>
+
+                {selectedTeam && (
+                  <div>
+                    <p className="text-sm text-gray-400 mb-2">
+                      Members: {selectedTeam.members.map((m) => m.email).join(', ')}
+                    </p>
+                    {selectedTeam.members.some((m) => m.userId === user?.id && m.role === 'owner') && (
+                      <form onSubmit={addTeamMember} className="flex gap-2">
+                        <input
+                          type="email"
+                          value={newMemberEmail}
+                          onChange={(e) => setNewMemberEmail(e.target.value)}
+                          placeholder="Add member by email"
+                          className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-gray-400"
+                        />
+                        <button type="submit" className="btn bg-white/10 hover:bg-white/20 px-3 py-2" disabled={!newMemberEmail.trim()}>
+                          <UserPlus className="w-5 h-5" />
+                        </button>
+                      </form>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {loadingQuizzes ? (
               <div className="card text-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-brand-orange mx-auto"></div>
@@ -304,49 +814,92 @@ export function HostCreate() {
               </div>
             ) : savedQuizzes.length === 0 ? (
               <div className="card text-center py-8">
-                <p className="text-gray-400">No saved quizzes yet</p>
-                <p className="text-gray-500 text-sm mt-1">Create a quiz and save it to reuse later</p>
+                {tab === 'mine' && (
+                  <>
+                    <p className="text-gray-400">No saved quizzes yet</p>
+                    <p className="text-gray-500 text-sm mt-1">Create a quiz and save it to reuse later</p>
+                  </>
+                )}
+                {tab === 'shared' && (
+                  <>
+                    <p className="text-gray-400">Nothing shared with you yet</p>
+                    <p className="text-gray-500 text-sm mt-1">Quizzes appear here after you open someone's share link</p>
+                  </>
+                )}
+                {tab === 'team' && (
+                  <>
+                    <p className="text-gray-400">{teams.length === 0 ? 'You are not in any team yet' : 'This team folder is empty'}</p>
+                    <p className="text-gray-500 text-sm mt-1">Every member of a team can edit the quizzes in its folder</p>
+                  </>
+                )}
               </div>
             ) : (
               <div className="space-y-3">
-                {savedQuizzes.map((quiz) => (
-                  <div
-                    key={quiz.id}
-                    className="card hover:bg-white/20 transition-colors flex items-center justify-between"
-                  >
-                    <button
-                      onClick={() => selectQuiz(quiz)}
-                      className="flex-1 text-left flex items-center gap-4"
+                {savedQuizzes.map((quiz) => {
+                  const canEdit = quiz.access !== 'viewer';
+                  return (
+                    <div
+                      key={quiz.id}
+                      className="card hover:bg-white/20 transition-colors flex items-center justify-between"
                     >
-                      <div className="w-12 h-12 rounded-lg bg-brand-gold/20 flex items-center justify-center">
-                        <FileText className="w-6 h-6 text-brand-gold" />
-                      </div>
-                      <div>
-                        <h3 className="font-semibold text-white">{quiz.title}</h3>
-                        <p className="text-sm text-gray-400">
-                          {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''} •{' '}
-                          {new Date(quiz.updatedAt).toLocaleDateString()}
-                        </p>
-                      </div>
-                    </button>
-                    <div className="flex items-center gap-2">
                       <button
-                        onClick={() => selectQuiz(quiz)}
-                        className="btn bg-white/10 hover:bg-white/20 p-2"
-                        title="Edit quiz"
+                        onClick={() => canEdit && selectQuiz(quiz)}
+                        className="flex-1 text-left flex items-center gap-4"
                       >
-                        <Edit3 className="w-5 h-5" />
-                      </button>
-                      <button
-                        onClick={(e) => deleteQuiz(quiz.id, e)}
-                        className="text-red-400 hover:text-red-300 p-2"
-                        title="Delete quiz"
-                      >
-                        <Trash2 className="w-5 h-5" />
+                        <div className="w-12 h-12 rounded-lg bg-brand-gold/20 flex items-center justify-center">
+                          <FileText className="w-6 h-6 text-brand-gold" />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-white">{quiz.title}</h3>
+                          <p className="text-sm text-gray-400">
+                            {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''} •{' '}
+                            {new Date(quiz.updatedAt).toLocaleDateString()}
+                            {quiz.access === 'viewer' && ' • read-only'}
+                            {quiz.shareToken && ' • shared by link'}
+                          </p>
+                        </div>
                       </button>
+                      <div className="flex items-center gap-2">
+                        {canEdit && (
+                          <button
+                            onClick={() => selectQuiz(quiz)}
+                            className="btn bg-white/10 hover:bg-white/20 p-2"
+                            title="Edit quiz"
+                          >
+                            <Edit3 className="w-5 h-5" />
+                          </button>
+                        )}
+                        {quiz.access !== 'owner' && (
+                          <button
+                            onClick={(e) => cloneQuiz(quiz.id, e)}
+                            className="btn bg-white/10 hover:bg-white/20 p-2"
+                            title="Clone into my library"
+                          >
+                            <Copy className="w-5 h-5" />
+                          </button>
+                        )}
+                        {quiz.access === 'owner' && (
+                          <button
+                            onClick={(e) => (quiz.shareToken ? stopSharing(quiz.id, e) : shareQuiz(quiz.id, e))}
+                            className={`btn p-2 ${quiz.shareToken ? 'bg-brand-orange/40 hover:bg-brand-orange/60' : 'bg-white/10 hover:bg-white/20'}`}
+                            title={quiz.shareToken ? 'Stop sharing' : 'Copy read-only share link'}
+                          >
+                            <Share2 className="w-5 h-5" />
+                          </button>
+                        )}
+                        {quiz.access === 'owner' && (
+                          <button
+                            onClick={(e) => deleteQuiz(quiz.id, e)}
+                            className="text-red-400 hover:text-red-300 p-2"
+                            title="Delete quiz"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -371,27 +924,40 @@ export function HostCreate() {
           <h1 className="text-4xl font-bold text-white">
             {currentQuizId ? 'Edit Quiz' : 'Create Quiz'}
           </h1>
-          <button
-            onClick={handleSaveQuiz}
-            disabled={saving}
-            className={`btn flex items-center gap-2 ${
-              saveSuccess 
-                ? 'bg-green-600 hover:bg-green-600' 
-                : 'btn-secondary'
-            }`}
-          >
-            {saveSuccess ? (
-              <>
-                <Check className="w-5 h-5" />
-                Saved!
-              </>
-            ) : (
-              <>
-                <Save className="w-5 h-5" />
-                {saving ? 'Saving...' : 'Save Quiz'}
-              </>
-            )}
-          </button>
+          <div className="flex items-center gap-2">
+            {currentQuizId && exportFormats.map((format) => (
+              <button
+                key={format}
+                onClick={() => exportQuiz(format)}
+                className="btn bg-white/10 hover:bg-white/20 flex items-center gap-1 px-3 text-sm uppercase"
+                title={`Export as ${format.toUpperCase()}`}
+              >
+                <Download className="w-4 h-4" />
+                {format}
+              </button>
+            ))}
+            <button
+              onClick={handleSaveQuiz}
+              disabled={saving}
+              className={`btn flex items-center gap-2 ${
+                saveSuccess 
+                  ? 'bg-green-600 hover:bg-green-600' 
+                  : 'btn-secondary'
+              }`}
+            >
+              {saveSuccess ? (
+                <>
+                  <Check className="w-5 h-5" />
+                  Saved!
+                </>
+              ) : (
+                <>
+                  <Save className="w-5 h-5" />
+                  {saving ? 'Saving...' : 'Save Quiz'}
+                </>
+              )}
+            </button>
+          </div>
         </div>
 
         <div className="card mb-6">
@@ -403,132 +969,355 @@ export function HostCreate() {
             className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange"
             placeholder="Enter quiz title"
           />
-        </div>
+          <FieldError message={fieldErrors.title ?? fieldErrors.questions} />
 
-        {questions.map((question, qIndex) => (
-          <div key={question.id} className="card mb-6 relative">
-            <div className="flex justify-between items-start mb-4">
-              <h3 className="text-xl font-semibold text-white">Question {qIndex + 1}</h3>
-              {questions.length > 1 && (
-                <button
-                  onClick={() => removeQuestion(qIndex)}
-                  className="text-red-400 hover:text-red-300 p-1"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
-              )}
-            </div>
+          <label className="block text-sm font-medium text-gray-300 mt-4 mb-2">Scoring</label>
+          <select
+            value={scoring}
+            onChange={(e) => setScoring(e.target.value as ScoringMode)}
+            className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+          >
+            {scoringModes.map((mode) => (
+              <option key={mode.id} value={mode.id}>{mode.label}</option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-400 mt-1">
+            {scoringModes.find((mode) => mode.id === scoring)?.description}
+          </p>
+          <FieldError message={fieldErrors.scoring} />
+        </div>
 
-            {/* Image Upload */}
-            <div className="mb-4">
-              {question.imageUrl ? (
-                <div className="relative inline-block">
-                  <img
-                    src={question.imageUrl}
-                    alt="Question"
-                    className="max-h-48 rounded-lg border border-white/20"
-                  />
+        {questions.map((question, qIndex) => {
+          const fieldError = (path: string) => fieldErrors[`questions.${qIndex}${path}`];
+          return (
+            <div key={question.id} className={`card mb-6 relative ${Object.keys(fieldErrors).some((path) => path.startsWith(`questions.${qIndex}.`)) ? 'ring-2 ring-red-500' : ''}`}>
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-xl font-semibold text-white">Question {qIndex + 1}</h3>
+                {questions.length > 1 && (
                   <button
-                    onClick={() => removeImage(qIndex)}
-                    className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 rounded-full flex items-center justify-center hover:bg-red-400"
+                    onClick={() => removeQuestion(qIndex)}
+                    className="text-red-400 hover:text-red-300 p-1"
                   >
-                    <X className="w-4 h-4 text-white" />
+                    <Trash2 className="w-5 h-5" />
                   </button>
-                </div>
-              ) : (
-                <label className="flex items-center gap-2 px-4 py-3 bg-white/10 border border-dashed border-white/30 rounded-lg cursor-pointer hover:bg-white/20 transition-colors">
-                  <Upload className="w-5 h-5 text-gray-400" />
-                  <span className="text-gray-400">Add image (optional)</span>
-                  <input
-                    type="file"
-                    accept="image/*"
-                    className="hidden"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleImageUpload(qIndex, file);
-                    }}
-                  />
-                </label>
-              )}
-            </div>
-
-            <input
-              type="text"
-              value={question.text}
-              onChange={(e) => updateQuestion(qIndex, { text: e.target.value })}
-              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
-              placeholder={question.imageUrl ? "Enter question text (optional with image)" : "Enter question text"}
-            />
+                )}
+              </div>
 
-            {/* Multiple Choice Hint */}
-            {question.correctIndices.length > 1 && (
-              <p className="text-sm text-brand-gold mb-2">
-                Multiple correct answers selected - players must select all to score
-              </p>
-            )}
+              {/* Image Upload */}
+              <div className="mb-4">
+                {question.imageUrl ? (
+                  <div className="relative inline-block">
+                    <img
+                      src={question.imageUrl}
+                      alt="Question"
+                      className="max-h-48 rounded-lg border border-white/20"
+                    />
+                    <button
+                      onClick={() => removeImage(qIndex)}
+                      className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 rounded-full flex items-center justify-center hover:bg-red-400"
+                    >
+                      <X className="w-4 h-4 text-white" />
+                    </button>
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-2 px-4 py-3 bg-white/10 border border-dashed border-white/30 rounded-lg cursor-pointer hover:bg-white/20 transition-colors">
+                    <Upload className="w-5 h-5 text-gray-400" />
+                    <span className="text-gray-400">Add image (optional)</span>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImageUpload(qIndex, file);
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
 
-            <div className="grid grid-cols-2 gap-3 mb-4">
-              {['Red', 'Blue', 'Yellow', 'Green'].map((color, aIndex) => (
-                <div key={aIndex} className="relative">
-                  <input
-                    type="text"
-                    value={question.answers[aIndex]}
-                    onChange={(e) => updateAnswer(qIndex, aIndex, e.target.value)}
-                    className={`w-full rounded-lg px-4 py-3 pr-10 text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-white ${
-                      aIndex === 0 ? 'bg-answer-red' :
-                      aIndex === 1 ? 'bg-answer-blue' :
-                      aIndex === 2 ? 'bg-answer-yellow' : 'bg-answer-green'
-                    }`}
-                    placeholder={`Answer ${aIndex + 1}`}
-                  />
+              <div className="flex flex-wrap gap-2 mb-4">
+                {questionTypes.map((type) => (
                   <button
-                    onClick={() => toggleCorrectAnswer(qIndex, aIndex)}
-                    className={`absolute right-2 top-1/2 -translate-y-1/2 w-6 h-6 rounded border-2 flex items-center justify-center transition-colors ${
-                      question.correctIndices.includes(aIndex)
-                        ? 'bg-white border-white'
-                        : 'border-white/50 hover:border-white'
+                    key={type.id}
+                    onClick={() => changeQuestionType(qIndex, type.id)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      question.type === type.id ? 'bg-brand-orange text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
                     }`}
-                    title="Click to mark as correct (can select multiple)"
                   >
-                    {question.correctIndices.includes(aIndex) && (
-                      <Check className="w-4 h-4 text-green-600" />
-                    )}
+                    {type.label}
                   </button>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                value={question.text}
+                onChange={(e) => updateQuestion(qIndex, { text: e.target.value })}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
+                placeholder={question.imageUrl ? "Enter question text (optional with image)" : "Enter question text"}
+              />
+              <FieldError message={fieldError('.text') ?? fieldError('.id')} />
+
+              {question.type === 'multiple_choice' && (
+                <>
+                  {/* Multiple Choice Hint */}
+                  {question.correctIndices.length > 1 && (
+                    <p className="text-sm text-brand-gold mb-2">
+                      Multiple correct answers selected - players must select all to score
+                    </p>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3 mb-4">
+                    {answerColors.map((color, aIndex) => (
+                      <div key={aIndex}>
+                        <div className="relative">
+                          <input
+                            type="text"
+                            value={question.answers[aIndex]}
+                            onChange={(e) => updateAnswer(qIndex, aIndex, e.target.value)}
+                            className={`w-full rounded-lg px-4 py-3 pr-10 text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-white ${color}`}
+                            placeholder={`Answer ${aIndex + 1}`}
+                          />
+                          <button
+                            onClick={() => toggleCorrectAnswer(qIndex, aIndex)}
+                            className={`absolute right-2 top-1/2 -translate-y-1/2 w-6 h-6 rounded border-2 flex items-center justify-center transition-colors ${
+                              question.correctIndices.includes(aIndex)
+                                ? 'bg-white border-white'
+                                : 'border-white/50 hover:border-white'
+                            }`}
+                            title="Click to mark as correct (can select multiple)"
+                          >
+                            {question.correctIndices.includes(aIndex) && (
+                              <Check className="w-4 h-4 text-green-600" />
+                            )}
+                          </button>
+                        </div>
+                        <FieldError message={fieldError(`.answers.${aIndex}`)} />
+                      </div>
+                    ))}
+                  </div>
+                  <FieldError message={fieldError('.correctIndices') ?? fieldError('.answers')} />
+                </>
+              )}
+
+              {question.type === 'true_false' && (
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  {[true, false].map((value, aIndex) => (
+                    <button
+                      key={aIndex}
+                      onClick={() => updateQuestion(qIndex, { correctAnswer: value })}
+                      className={`${answerColors[aIndex]} rounded-lg px-4 py-3 text-white font-bold flex items-center justify-between ${
+                        question.correctAnswer === value ? 'ring-2 ring-white' : 'opacity-60 hover:opacity-100'
+                      }`}
+                    >
+                      {value ? 'True' : 'False'}
+                      {question.correctAnswer === value && <Check className="w-5 h-5" />}
+                    </button>
+                  ))}
                 </div>
-              ))}
-            </div>
+              )}
 
-            <div className="flex gap-4 flex-wrap">
-              <div>
-                <label className="block text-sm text-gray-400 mb-1">Timer</label>
-                <select
-                  value={question.timerSeconds}
-                  onChange={(e) => updateQuestion(qIndex, { timerSeconds: Number(e.target.value) as 5|10|20|30|60 })}
-                  className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
-                >
-                  <option value={5}>5 seconds</option>
-                  <option value={10}>10 seconds</option>
-                  <option value={20}>20 seconds</option>
-                  <option value={30}>30 seconds</option>
-                  <option value={60}>60 seconds</option>
-                </select>
-              </div>
+              {question.type === 'type_answer' && (
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-1">Accepted answers</label>
+                  {question.acceptedAnswers.map((answer, aIndex) => (
+                    <div key={aIndex} className="mb-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={answer}
+                          onChange={(e) => updateAcceptedAnswer(qIndex, aIndex, e.target.value)}
+                          className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange"
+                          placeholder={aIndex === 0 ? 'Correct answer' : 'Also accept'}
+                        />
+                        {question.acceptedAnswers.length > 1 && (
+                          <button
+                            onClick={() => updateAcceptedAnswer(qIndex, aIndex, null)}
+                            className="text-red-400 hover:text-red-300 p-1"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                      <FieldError message={fieldError(`.acceptedAnswers.${aIndex}`)} />
+                    </div>
+                  ))}
+                  <FieldError message={fieldError('.acceptedAnswers')} />
+                  <div className="flex items-center justify-between mt-2">
+                    {question.acceptedAnswers.length < 10 && (
+                      <button
+                        onClick={() => updateQuestion(qIndex, { acceptedAnswers: [...question.acceptedAnswers, ''] })}
+                        className="text-sm text-brand-orange hover:text-white flex items-center gap-1"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add alternative
+                      </button>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={question.fuzzy}
+                        onChange={(e) => updateQuestion(qIndex, { fuzzy: e.target.checked })}
+                        className="w-4 h-4 rounded"
+                      />
+                      Allow small typos
+                    </label>
+                  </div>
+                </div>
+              )}
 
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id={`double-${question.id}`}
-                  checked={question.doublePoints}
-                  onChange={(e) => updateQuestion(qIndex, { doublePoints: e.target.checked })}
-                  className="w-5 h-5 rounded"
-                />
-                <label htmlFor={`double-${question.id}`} className="text-gray-300">
-                  Double Points
-                </label>
+              {question.type === 'slider' && (
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4">
+                  {([
+                    ['min', 'Minimum'],
+                    ['max', 'Maximum'],
+                    ['step', 'Step'],
+                    ['correctValue', 'Correct value'],
+                    ['tolerance', 'Tolerance (±)'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <label className="block text-sm text-gray-400 mb-1">{label}</label>
+                      <input
+                        type="number"
+                        value={Number.isNaN(question[field]) ? '' : question[field]}
+                        onChange={(e) => updateQuestion(qIndex, { [field]: e.target.valueAsNumber })}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-brand-orange"
+                      />
+                      <FieldError message={fieldError(`.${field}`)} />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {question.type === 'ordering' && (
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-1">Items in the correct order (players see them shuffled)</label>
+                  {question.items.map((item, aIndex) => (
+                    <div key={aIndex} className="mb-2">
+                      <div className="flex items-center gap-2">
+                        <span className="w-6 text-center text-gray-400 font-bold">{aIndex + 1}</span>
+                        <input
+                          type="text"
+                          value={item}
+                          onChange={(e) => updateItem(qIndex, aIndex, e.target.value)}
+                          className={`flex-1 rounded-lg px-4 py-2 text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-white ${answerColors[aIndex]}`}
+                          placeholder={`Step ${aIndex + 1}`}
+                        />
+                        <button
+                          onClick={() => updateItem(qIndex, aIndex, item, -1)}
+                          disabled={aIndex === 0}
+                          className="text-gray-300 hover:text-white p-1 disabled:opacity-30"
+                        >
+                          <ArrowUp className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => updateItem(qIndex, aIndex, item, 1)}
+                          disabled={aIndex === question.items.length - 1}
+                          className="text-gray-300 hover:text-white p-1 disabled:opacity-30"
+                        >
+                          <ArrowDown className="w-5 h-5" />
+                        </button>
+                        {question.items.length > 2 && (
+                          <button
+                            onClick={() => updateItem(qIndex, aIndex, null)}
+                            className="text-red-400 hover:text-red-300 p-1"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
+                      <FieldError message={fieldError(`.items.${aIndex}`)} />
+                    </div>
+                  ))}
+                  <FieldError message={fieldError('.items')} />
+                  {question.items.length < 4 && (
+                    <button
+                      onClick={() => updateQuestion(qIndex, { items: [...question.items, ''] })}
+                      className="text-sm text-brand-orange hover:text-white flex items-center gap-1 mt-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add item
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {question.type === 'poll' && (
+                <>
+                  <p className="text-sm text-gray-400 mb-2">
+                    Polls have no right answer and don't score.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 mb-4">
+                    {question.answers.map((answer, aIndex) => (
+                      <div key={aIndex}>
+                        <div className="relative">
+                          <input
+                            type="text"
+                            value={answer}
+                            onChange={(e) => updateAnswer(qIndex, aIndex, e.target.value)}
+                            className={`w-full rounded-lg px-4 py-3 pr-10 text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-white ${answerColors[aIndex]}`}
+                            placeholder={`Option ${aIndex + 1}`}
+                          />
+                          {question.answers.length > 2 && (
+                            <button
+                              onClick={() => updateQuestion(qIndex, { answers: question.answers.filter((_, j) => j !== aIndex) })}
+                              className="absolute right-2 top-1/2 -translate-y-1/2 text-white/70 hover:text-white"
+                            >
+                              <X className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                        <FieldError message={fieldError(`.answers.${aIndex}`)} />
+                      </div>
+                    ))}
+                    {question.answers.length < 4 && (
+                      <button
+                        onClick={() => updateQuestion(qIndex, { answers: [...question.answers, ''] })}
+                        className="rounded-lg px-4 py-3 border border-dashed border-white/30 text-gray-300 hover:text-white hover:border-white/50 flex items-center justify-center gap-2"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add option
+                      </button>
+                    )}
+                  </div>
+                  <FieldError message={fieldError('.answers')} />
+                </>
+              )}
+
+              <div className="flex gap-4 flex-wrap">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Timer</label>
+                  <select
+                    value={question.timerSeconds}
+                    onChange={(e) => updateQuestion(qIndex, { timerSeconds: Number(e.target.value) as 5|10|20|30|60 })}
+                    className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+                  >
+                    <option value={5}>5 seconds</option>
+                    <option value={10}>10 seconds</option>
+                    <option value={20}>20 seconds</option>
+                    <option value={30}>30 seconds</option>
+                    <option value={60}>60 seconds</option>
+                  </select>
+                  <FieldError message={fieldError('.timerSeconds')} />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id={`double-${question.id}`}
+                    checked={question.doublePoints}
+                    onChange={(e) => updateQuestion(qIndex, { doublePoints: e.target.checked })}
+                    className="w-5 h-5 rounded"
+                  />
+                  <label htmlFor={`double-${question.id}`} className="text-gray-300">
+                    Double Points
+                  </label>
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         <button
           onClick={addQuestion}
@@ -546,14 +1335,97 @@ export function HostCreate() {
       </div>
 
       <div className="fixed bottom-0 left-0 right-0 bg-brand-dark/90 backdrop-blur-lg border-t border-white/10 p-4">
-        <div className="max-w-3xl mx-auto flex justify-end">
+        <div className="max-w-3xl mx-auto flex flex-wrap items-center justify-end gap-3">
+          <select
+            value={teamCount}
+            onChange={(e) => setTeamCount(Number(e.target.value))}
+            className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+          >
+            <option value={0}>No teams</option>
+            {teamCounts.map((count) => (
+              <option key={count} value={count}>{count} teams</option>
+            ))}
+          </select>
+          {teamCount > 0 && (
+            <select
+              value={teamScoring}
+              onChange={(e) => setTeamScoring(e.target.value as TeamScoring)}
+              className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+              title="How team scores are worked out"
+            >
+              {teamScorings.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={nicknameMode}
+            onChange={(e) => setNicknameMode(e.target.value as NicknameMode)}
+            className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+          >
+            {nicknameModes.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {nicknameMode === 'filter' && (
+            <input
+              type="text"
+              value={blockedWords}
+              onChange={(e) => setBlockedWords(e.target.value)}
+              placeholder="Also block (comma separated)"
+              className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+            />
+          )}
+          <label className="flex items-center gap-2 text-gray-300">
+            Max players
+            <input
+              type="number"
+              min={1}
+              max={MAX_PLAYERS}
+              value={maxPlayers}
+              onChange={(e) => setMaxPlayers(Math.min(MAX_PLAYERS, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+              className="w-20 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+          {gameMode === 'live' && (
+            <select
+              value={lateJoin}
+              onChange={(e) => setLateJoin(e.target.value as LateJoin)}
+              className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+            >
+              {lateJoins.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          {/* Assignments are played at each player's own pace until the deadline */}
+          <label className="flex items-center gap-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={gameMode === 'assignment'}
+              onChange={(e) => setGameMode(e.target.checked ? 'assignment' : 'live')}
+              className="w-5 h-5 accent-brand-orange"
+            />
+            Self-paced assignment
+          </label>
+          {gameMode === 'assignment' && (
+            <label className="flex items-center gap-2 text-gray-300">
+              Due
+              <input
+                type="datetime-local"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+          )}
           <button
             onClick={handleCreate}
             disabled={loading}
             className="btn btn-primary flex items-center gap-2 text-lg"
           >
             <Play className="w-5 h-5" />
-            {loading ? 'Creating...' : 'Start Game'}
+            {loading ? 'Creating...' : gameMode === 'assignment' ? 'Publish Assignment' : 'Start Game'}
           </button>
         </div>
       </div>
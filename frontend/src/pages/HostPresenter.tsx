@@ -1,39 +1,170 @@
-import { useEffect } from 'react';
-import { useParams } from '@tanstack/react-router';
+import { useState } from 'react';
+import { useParams, Link } from '@tanstack/react-router';
 import { useStore } from '@tanstack/react-store';
 import { QRCodeSVG } from 'qrcode.react';
-import { Users, Play, ArrowRight, Trophy, Loader2 } from 'lucide-react';
+import { Users, Play, ArrowRight, Trophy, Loader2, ShieldAlert, Download, Clock, Pause, SkipForward, Plus, Square, Pencil, UserX, Ban, Lock, Unlock, Monitor } from 'lucide-react';
 import { useWebSocket } from '../hooks/useWebSocket';
 import { gameStore } from '../store/gameStore';
-import type { Quiz } from '../../../src/types';
+import { getHostToken } from '../store/hostSession';
+import { apiFetch } from '../lib/api';
+import type { ClientMessage, PublicPlayer, TeamLeaderboardEntry } from '../../../src/types';
+import { MAX_PLAYERS } from '../../../src/gameSettings';
+
+function TeamStandings({ teams }: { teams: TeamLeaderboardEntry[] }) {
+  return (
+    <div className="card max-w-xl w-full">
+      <h3 className="text-xl font-bold text-white mb-2">Teams</h3>
+      {teams.map((team) => (
+        <div key={team.teamId} className="flex items-center justify-between py-3 border-b border-white/10 last:border-0">
+          <div className="flex items-center gap-4">
+            <span className="text-2xl font-bold text-brand-orange w-8">{team.rank}</span>
+            <span className="text-xl text-white">{team.name}</span>
+            <span className="text-sm text-gray-400">{team.memberCount} player{team.memberCount !== 1 ? 's' : ''}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            {team.pointsGained > 0 && <span className="text-sm font-bold text-green-400">+{team.pointsGained}</span>}
+            <span className="text-xl font-bold text-brand-gold">{team.score}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// A lobby player; the host can click to rename, kick or ban them
+function PlayerChip({ player, send }: { player: PublicPlayer; send: ((message: ClientMessage) => boolean) | null }) {
+  const [open, setOpen] = useState(false);
+
+  if (!send) {
+    return (
+      <span className={`px-3 py-1 rounded-full text-sm ${player.connected ? 'bg-brand-orange/30 text-white' : 'bg-gray-600/30 text-gray-400 line-through'}`}>
+        {player.nickname}
+      </span>
+    );
+  }
+
+  const rename = () => {
+    const nickname = window.prompt(`Rename ${player.nickname} to:`, player.nickname)?.trim();
+    if (nickname && nickname !== player.nickname) {
+      send({ type: 'host_rename_player', playerId: player.id, nickname });
+    }
+    setOpen(false);
+  };
+  const kick = () => {
+    if (window.confirm(`Remove ${player.nickname} from the game? They can join again.`)) {
+      send({ type: 'host_kick_player', playerId: player.id });
+    }
+    setOpen(false);
+  };
+  const ban = () => {
+    if (window.confirm(`Ban ${player.nickname}? They won't be able to join again with this nickname or device.`)) {
+      send({ type: 'host_ban_player', playerId: player.id });
+    }
+    setOpen(false);
+  };
+
+  return (
+    <span className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-1 rounded-full text-sm ${
+          player.connected 
+            ? 'bg-brand-orange/30 text-white' 
+            : 'bg-gray-600/30 text-gray-400 line-through'
+        }`}
+      >
+        {player.nickname}
+      </button>
+      {open && (
+        <span className="absolute left-1/2 -translate-x-1/2 top-full mt-1 z-10 flex gap-1 bg-gray-900 border border-white/20 rounded-lg p-1">
+          <button onClick={rename} title="Rename" className="p-1 text-gray-300 hover:text-white">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={kick} title="Kick" className="p-1 text-gray-300 hover:text-white">
+            <UserX className="w-4 h-4" />
+          </button>
+          <button onClick={ban} title="Ban" className="p-1 text-red-400 hover:text-red-300">
+            <Ban className="w-4 h-4" />
+          </button>
+        </span>
+      )}
+    </span>
+  );
+}
 
 export function HostPresenter() {
   const { gameId } = useParams({ from: '/host/presenter/$gameId' });
-  const { send } = useWebSocket(gameId, true);
+  return <Presenter gameId={gameId} spectator={false} />;
+}
+
+// The presenter screen on a second device - a projector or a stream - without the host's controls
+export function Spectator() {
+  const { gameId } = useParams({ from: '/watch/$gameId' });
+  return <Presenter gameId={gameId} spectator />;
+}
+
+function Presenter({ gameId, spectator }: { gameId: string; spectator: boolean }) {
+  const [hostToken] = useState(() => (spectator ? null : getHostToken(gameId)));
+  const { send } = useWebSocket(gameId, spectator ? 'spectator' : 'host', hostToken);
+  const [showWatchLink, setShowWatchLink] = useState(false);
   
   const state = useStore(gameStore);
-  const { gameState, currentQuestion, questionIndex, totalQuestions, secondsLeft, leaderboard, podiumRevealed, reconnecting, isPaused, pauseReason, showingAnswerReveal, answerDistribution, lastQuestionText, lastQuestionAnswers, lastCorrectIndices } = state;
+  const { error, gameState, currentQuestion, questionIndex, totalQuestions, secondsLeft, leaderboard, teamLeaderboard, podiumRevealed, teamPodiumRevealed, reconnecting, isPaused, pauseReason, showingAnswerReveal, lastReveal, lastQuestionText, lastQuestionSkipped } = state;
   
   // Count only connected players
   const connectedPlayers = gameState ? Object.values(gameState.players).filter(p => p.connected) : [];
   const playerCount = connectedPlayers.length;
   const joinUrl = `${window.location.origin}/play?pin=${gameState?.gamePin}`;
-
-  // Send quiz on connect
-  useEffect(() => {
-    if (state.connected && state.isHost) {
-      const pendingQuiz = sessionStorage.getItem('pending_quiz');
-      if (pendingQuiz) {
-        const quiz: Quiz = JSON.parse(pendingQuiz);
-        send({ type: 'host_create_quiz', quiz });
-        sessionStorage.removeItem('pending_quiz');
-      }
-    }
-  }, [state.connected, state.isHost, send]);
+  const watchUrl = `${window.location.origin}/watch/${gameId}`;
 
   const handleStartGame = () => send({ type: 'host_start_game' });
   const handleNextQuestion = () => send({ type: 'host_next_question' });
   const handleShowPodium = () => send({ type: 'host_show_podium' });
+  const handleEndGame = () => {
+    if (window.confirm('End the game now and go to the podium?')) {
+      send({ type: 'host_end_game' });
+    }
+  };
+
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Results are saved when the podium starts, so they are ready by the finished screen
+  async function downloadResults(format: 'csv' | 'xlsx') {
+    setDownloadError(null);
+    const response = await apiFetch(`/api/games/${gameId}/export?format=${format}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as { error?: string };
+      setDownloadError(data.error || 'Failed to download results');
+      return;
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? `results.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Host token missing or rejected, or the game is gone
+  if (error && !gameState) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="card max-w-md text-center">
+          <ShieldAlert className="w-16 h-16 text-red-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-2">{spectator ? 'Cannot watch this game' : 'Cannot host this game'}</h2>
+          <p className="text-gray-300 mb-6">{error}</p>
+          {!spectator && (
+            <Link to="/host/create" className="btn btn-primary inline-block">
+              Create a new game
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
 
   // Reconnecting overlay
   if (reconnecting) {
@@ -67,40 +198,144 @@ export function HostPresenter() {
           <div className="flex items-center justify-center gap-2 text-xl text-gray-300 mb-6">
             <Users className="w-6 h-6" />
             <span>{playerCount} player{playerCount !== 1 ? 's' : ''} joined</span>
+            {gameState.settings.maxPlayers < MAX_PLAYERS && <span className="text-gray-500">/ {gameState.settings.maxPlayers}</span>}
+            {/* Locking stops new players joining; anyone already in can still reconnect */}
+            {!spectator && (
+              <button
+                onClick={() => send({ type: 'host_lock_lobby', locked: !gameState.settings.lobbyLocked })}
+                className={`ml-4 px-3 py-1 rounded-full text-sm flex items-center gap-1 ${
+                  gameState.settings.lobbyLocked ? 'bg-red-500/30 text-red-200' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                {gameState.settings.lobbyLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                {gameState.settings.lobbyLocked ? 'Locked' : 'Lock'}
+              </button>
+            )}
           </div>
 
+          {error && <p className="text-red-400 mb-4">{error}</p>}
+
           {Object.keys(gameState.players).length > 0 && (
-            <div className="mb-6">
-              <div className="flex flex-wrap justify-center gap-2">
-                {Object.values(gameState.players).map((player) => (
-                  <span 
-                    key={player.id} 
-                    className={`px-3 py-1 rounded-full text-sm ${
-                      player.connected 
-                        ? 'bg-brand-orange/30 text-white' 
-                        : 'bg-gray-600/30 text-gray-400 line-through'
-                    }`}
-                  >
-                    {player.nickname}
-                  </span>
-                ))}
-              </div>
+            <div className="mb-6 space-y-3">
+              {/* In team mode, one row of players per team */}
+              {(gameState.teamMode?.teams ?? [null]).map((team) => (
+                <div key={team?.id ?? 'players'}>
+                  {team && <p className="text-gray-400 text-sm mb-1">{team.name}</p>}
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {Object.values(gameState.players)
+                      .filter((player) => !team || player.teamId === team.id)
+                      .map((player) => (
+                        <PlayerChip key={player.id} player={player} send={spectator ? null : send} />
+                      ))}
+                  </div>
+                </div>
+              ))}
             </div>
           )}
 
-          <button
-            onClick={handleStartGame}
-            disabled={playerCount === 0}
-            className="btn btn-secondary text-xl flex items-center gap-2 mx-auto disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Play className="w-6 h-6" />
-            Start Game
-          </button>
+          {spectator ? (
+            <p className="text-gray-400 text-xl">Waiting for the host to start...</p>
+          ) : (
+            <>
+              <button
+                onClick={handleStartGame}
+                disabled={playerCount === 0}
+                className="btn btn-secondary text-xl flex items-center gap-2 mx-auto disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-6 h-6" />
+                Start Game
+              </button>
+
+              {/* Mirror this screen on a projector or stream without handing over the controls */}
+              <button
+                onClick={() => setShowWatchLink(!showWatchLink)}
+                className="mt-6 text-sm text-gray-400 hover:text-white flex items-center gap-1 mx-auto"
+              >
+                <Monitor className="w-4 h-4" />
+                Show on another screen
+              </button>
+              {showWatchLink && (
+                <div className="mt-3 flex flex-col items-center gap-2">
+                  <div className="bg-white rounded-lg p-3">
+                    <QRCodeSVG value={watchUrl} size={120} />
+                  </div>
+                  <a href={watchUrl} target="_blank" rel="noreferrer" className="text-sm text-brand-orange break-all">
+                    {watchUrl}
+                  </a>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </div>
     );
   }
 
+  // Assignment dashboard: players work through the quiz on their own devices until the deadline
+  if (gameState?.phase === 'assignment') {
+    const joinedCount = Object.keys(gameState.players).length;
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="card max-w-2xl w-full text-center mb-6">
+          <h1 className="text-4xl font-bold text-white mb-2">Assignment</h1>
+          <p className="text-gray-300 mb-6">Go to {window.location.origin}/play</p>
+
+          <div className="bg-white rounded-xl p-6 mb-6 inline-block">
+            <QRCodeSVG value={joinUrl} size={160} />
+          </div>
+
+          <div className="mb-6">
+            <p className="text-gray-400 mb-2">Game PIN</p>
+            <p className="text-5xl font-extrabold text-brand-orange tracking-widest">{gameState.gamePin}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-center gap-6 text-lg text-gray-300">
+            <span className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Due {gameState.deadline ? new Date(gameState.deadline).toLocaleString() : ''}
+            </span>
+            <span className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              {joinedCount} player{joinedCount !== 1 ? 's' : ''} joined
+            </span>
+          </div>
+        </div>
+
+        <div className="card max-w-2xl w-full">
+          <h2 className="text-2xl font-bold text-white mb-4">Leaderboard</h2>
+          {leaderboard.length === 0 ? (
+            <p className="text-gray-400">Nobody has started yet</p>
+          ) : (
+            <div className="max-h-[40vh] overflow-y-auto">
+              {leaderboard.map((entry) => (
+                <div key={entry.playerId} className="flex items-center justify-between py-3 border-b border-white/10 last:border-0">
+                  <div className="flex items-center gap-4">
+                    <span className="text-xl font-bold text-brand-orange w-8">{entry.rank}</span>
+                    <span className="text-lg text-white">{entry.nickname}</span>
+                  </div>
+                  <span className="text-lg font-bold text-brand-gold">{entry.score}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {teamLeaderboard.length > 0 && (
+          <div className="mt-6 w-full flex justify-center">
+            <TeamStandings teams={teamLeaderboard} />
+          </div>
+        )}
+
+        {!spectator && (
+          <button onClick={handleShowPodium} className="btn btn-primary mt-8 flex items-center gap-2 text-lg">
+            <Trophy className="w-5 h-5" />
+            End Now
+          </button>
+        )}
+      </div>
+    );
+  }
+
   // Question view
   if (gameState?.phase === 'question' && currentQuestion) {
     return (
@@ -121,17 +356,56 @@ export function HostPresenter() {
           </div>
         )}
 
+        {!spectator && (
+          <div className="flex flex-wrap gap-2 justify-center mb-4">
+            <button
+              onClick={() => send({ type: isPaused ? 'host_resume' : 'host_pause' })}
+              className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2"
+            >
+              {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+              {isPaused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={() => send({ type: 'host_add_time', seconds: 10 })}
+              className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              10s
+            </button>
+            <button
+              onClick={() => send({ type: 'host_skip_question' })}
+              className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2"
+              title="End this question without awarding points"
+            >
+              <SkipForward className="w-5 h-5" />
+              Skip
+            </button>
+            <button
+              onClick={handleEndGame}
+              className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2"
+            >
+              <Square className="w-5 h-5" />
+              End Game
+            </button>
+          </div>
+        )}
+
         <div className="flex gap-2 justify-center mb-4">
-          {currentQuestion.doublePoints && (
+          {currentQuestion.doublePoints && currentQuestion.type !== 'poll' && (
             <span className="bg-brand-gold text-black px-4 py-2 rounded-full font-bold text-xl animate-pulse">
               🔥 DOUBLE POINTS 🔥
             </span>
           )}
-          {currentQuestion.multipleChoice && (
+          {'multipleChoice' in currentQuestion && currentQuestion.multipleChoice && (
             <span className="bg-brand-orange text-white px-4 py-1 rounded-full font-bold">
               SELECT ALL CORRECT
             </span>
           )}
+          {currentQuestion.type === 'poll' && (
+            <span className="bg-white/20 text-white px-4 py-1 rounded-full font-bold">
+              POLL
+            </span>
+          )}
         </div>
 
         <div className="flex-1 flex flex-col items-center justify-center gap-6">
@@ -149,68 +423,178 @@ export function HostPresenter() {
           )}
         </div>
 
-        <div className="grid grid-cols-2 gap-4 mt-8">
-          {currentQuestion.answers.map((answer, index) => (
-            <div
-              key={index}
-              className={`p-6 rounded-xl text-white text-xl font-bold ${
-                index === 0 ? 'bg-answer-red' :
-                index === 1 ? 'bg-answer-blue' :
-                index === 2 ? 'bg-answer-yellow' : 'bg-answer-green'
-              }`}
-            >
-              {answer}
+        {'answers' in currentQuestion && (
+          <div className="grid grid-cols-2 gap-4 mt-8">
+            {currentQuestion.answers.map((answer, index) => (
+              <div
+                key={index}
+                className={`p-6 rounded-xl text-white text-xl font-bold ${
+                  index === 0 ? 'bg-answer-red' :
+                  index === 1 ? 'bg-answer-blue' :
+                  index === 2 ? 'bg-answer-yellow' : 'bg-answer-green'
+                }`}
+              >
+                {answer}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {currentQuestion.type === 'type_answer' && (
+          <p className="mt-8 text-center text-2xl text-gray-300">Type your answer on your device</p>
+        )}
+
+        {currentQuestion.type === 'ordering' && (
+          <div className="mt-8 max-w-3xl w-full mx-auto">
+            <p className="text-center text-xl text-gray-300 mb-4">Put these in the right order</p>
+            <div className="grid grid-cols-2 gap-4">
+              {currentQuestion.items.map((item, index) => (
+                <div
+                  key={index}
+                  className={`p-6 rounded-xl text-white text-xl font-bold ${
+                    index === 0 ? 'bg-answer-red' :
+                    index === 1 ? 'bg-answer-blue' :
+                    index === 2 ? 'bg-answer-yellow' : 'bg-answer-green'
+                  }`}
+                >
+                  {item}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
+          </div>
+        )}
+
+        {currentQuestion.type === 'slider' && (
+          <div className="mt-8 flex items-center gap-4 text-2xl text-gray-300 max-w-3xl w-full mx-auto">
+            <span>{currentQuestion.min}</span>
+            <div className="flex-1 h-3 rounded-full bg-white/20" />
+            <span>{currentQuestion.max}</span>
+          </div>
+        )}
       </div>
     );
   }
 
   // Answer reveal screen (shown after question ends)
-  if (showingAnswerReveal && lastQuestionAnswers) {
+  if (showingAnswerReveal && lastReveal) {
     const answerColors = ['bg-answer-red', 'bg-answer-blue', 'bg-answer-yellow', 'bg-answer-green'];
-    const maxCount = Math.max(...answerDistribution, 1);
     
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
-        <h2 className="text-3xl font-bold text-white mb-2">Answer Distribution</h2>
+        <h2 className="text-3xl font-bold text-white mb-2">
+          {lastReveal.type === 'poll' ? 'Poll Results' : 'Answer Distribution'}
+        </h2>
         <p className="text-gray-400 mb-8 text-center max-w-2xl">{lastQuestionText}</p>
+        {lastQuestionSkipped && (
+          <p className="text-yellow-300 font-bold mb-6">Question skipped - no points awarded</p>
+        )}
 
-        <div className="grid grid-cols-2 gap-4 w-full max-w-4xl mb-8">
-          {lastQuestionAnswers.map((answer, index) => {
-            const count = answerDistribution[index] || 0;
-            const percentage = maxCount > 0 ? (count / maxCount) * 100 : 0;
-            const isCorrect = lastCorrectIndices.includes(index);
-            
-            return (
-              <div key={index} className="relative">
-                <div className={`${answerColors[index]} rounded-xl p-6 text-white relative overflow-hidden ${isCorrect ? 'ring-4 ring-green-400' : ''}`}>
-                  {/* Background bar showing percentage */}
-                  <div 
-                    className="absolute inset-0 bg-white/20 transition-all duration-1000 ease-out"
-                    style={{ width: `${percentage}%` }}
-                  />
-                  
-                  {/* Content */}
-                  <div className="relative z-10">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-bold opacity-75">Answer {index + 1}</span>
-                      {isCorrect && <span className="text-2xl">✓</span>}
-                    </div>
-                    <p className="text-lg font-bold mb-2">{answer}</p>
-                    <div className="flex items-center gap-2">
-                      <span className="text-3xl font-extrabold">{count}</span>
-                      <span className="text-sm opacity-75">
-                        {count === 1 ? 'player' : 'players'}
-                      </span>
+        {'distribution' in lastReveal && (
+          <div className="grid grid-cols-2 gap-4 w-full max-w-4xl mb-8">
+            {lastReveal.answers.map((answer, index) => {
+              const count = lastReveal.distribution[index] || 0;
+              const maxCount = Math.max(...lastReveal.distribution, 1);
+              const percentage = maxCount > 0 ? (count / maxCount) * 100 : 0;
+              const isCorrect = lastReveal.correctIndices.includes(index);
+              
+              return (
+                <div key={index} className="relative">
+                  <div className={`${answerColors[index]} rounded-xl p-6 text-white relative overflow-hidden ${isCorrect ? 'ring-4 ring-green-400' : ''}`}>
+                    {/* Background bar showing percentage */}
+                    <div 
+                      className="absolute inset-0 bg-white/20 transition-all duration-1000 ease-out"
+                      style={{ width: `${percentage}%` }}
+                    />
+                    
+                    {/* Content */}
+                    <div className="relative z-10">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-bold opacity-75">Answer {index + 1}</span>
+                        {isCorrect && <span className="text-2xl">✓</span>}
+                      </div>
+                      <p className="text-lg font-bold mb-2">{answer}</p>
+                      <div className="flex items-center gap-2">
+                        <span className="text-3xl font-extrabold">{count}</span>
+                        <span className="text-sm opacity-75">
+                          {count === 1 ? 'player' : 'players'}
+                        </span>
+                      </div>
                     </div>
                   </div>
                 </div>
+              );
+            })}
+          </div>
+        )}
+
+        {lastReveal.type === 'type_answer' && (
+          <div className="card w-full max-w-2xl mb-8">
+            <p className="text-gray-400 mb-1">Accepted answers</p>
+            <p className="text-3xl font-bold text-green-400 mb-6">{lastReveal.acceptedAnswers.join(' / ')}</p>
+            {lastReveal.responses.length === 0 ? (
+              <p className="text-gray-400">Nobody answered</p>
+            ) : (
+              lastReveal.responses.map((response) => (
+                <div key={response.text} className="flex items-center justify-between py-2 border-b border-white/10 last:border-0">
+                  <span className={`text-xl ${response.correct ? 'text-green-400' : 'text-white'}`}>
+                    {response.text} {response.correct && '✓'}
+                  </span>
+                  <span className="text-xl font-bold text-white">{response.count}</span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {lastReveal.type === 'ordering' && (
+          <div className="card w-full max-w-3xl mb-8">
+            <p className="text-gray-400 mb-4">
+              Correct order • {lastReveal.exactCount} of {lastReveal.responseCount} got it exactly right
+            </p>
+            {lastReveal.items.map((item, index) => (
+              <div key={index} className="flex items-center gap-4 py-3 border-b border-white/10 last:border-0">
+                <span className="w-10 h-10 rounded-full bg-green-600 flex items-center justify-center text-xl font-bold text-white">
+                  {index + 1}
+                </span>
+                <span className="flex-1 text-2xl font-bold text-white">{item}</span>
+                <span className="text-gray-400">
+                  {lastReveal.correctPlacements[index]} placed here
+                </span>
               </div>
-            );
-          })}
-        </div>
+            ))}
+          </div>
+        )}
+
+        {lastReveal.type === 'slider' && (
+          <div className="card w-full max-w-3xl mb-8">
+            <p className="text-gray-400 mb-1">Correct answer</p>
+            <p className="text-5xl font-extrabold text-green-400 mb-6">
+              {lastReveal.correctValue}
+              {lastReveal.tolerance > 0 && <span className="text-2xl text-gray-400"> ± {lastReveal.tolerance}</span>}
+            </p>
+            {/* Each answer as a dot on the scale, green when inside the tolerance band */}
+            <div className="relative h-12 rounded-full bg-white/10">
+              {lastReveal.responses.map((response) => {
+                const position = ((response.value - lastReveal.min) / (lastReveal.max - lastReveal.min)) * 100;
+                const inBand = Math.abs(response.value - lastReveal.correctValue) <= lastReveal.tolerance;
+                return (
+                  <div
+                    key={response.value}
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 rounded-full text-xs font-bold text-white flex items-center justify-center w-8 h-8 ${inBand ? 'bg-green-500' : 'bg-brand-orange'}`}
+                    style={{ left: `${position}%` }}
+                    title={`${response.value}`}
+                  >
+                    {response.count}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-gray-400 mt-2">
+              <span>{lastReveal.min}</span>
+              <span>{lastReveal.max}</span>
+            </div>
+          </div>
+        )}
 
         <p className="text-gray-400 text-sm">Leaderboard will appear automatically...</p>
       </div>
@@ -223,50 +607,72 @@ export function HostPresenter() {
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
         <h2 className="text-4xl font-bold text-white mb-8">Leaderboard</h2>
 
-        <div className="card max-w-xl w-full">
-          {leaderboard.slice(0, 5).map((entry, index) => (
-            <div
-              key={entry.playerId}
-              className={`flex items-center justify-between p-4 ${
-                index !== leaderboard.length - 1 ? 'border-b border-white/10' : ''
-              }`}
-            >
-              <div className="flex items-center gap-4">
-                <span className="text-2xl font-bold text-brand-orange w-8">
-                  {entry.rank}
-                </span>
-                <span className="text-xl text-white">{entry.nickname}</span>
-                {entry.lastAnswerCorrect && (
-                  <span className="text-green-400 text-sm">✓</span>
-                )}
+        <div className="flex flex-wrap justify-center gap-6 w-full">
+          <div className="card max-w-xl w-full">
+            {leaderboard.slice(0, 5).map((entry, index) => (
+              <div
+                key={entry.playerId}
+                className={`flex items-center justify-between p-4 ${
+                  index !== leaderboard.length - 1 ? 'border-b border-white/10' : ''
+                }`}
+              >
+                <div className="flex items-center gap-4">
+                  <span className="text-2xl font-bold text-brand-orange w-8">
+                    {entry.rank}
+                  </span>
+                  <span className="text-xl text-white">{entry.nickname}</span>
+                  {entry.lastAnswerCorrect && (
+                    <span className="text-green-400 text-sm">✓</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {!!entry.pointsGained && (
+                    <span className="text-sm font-bold text-green-400">+{entry.pointsGained}</span>
+                  )}
+                  <span className="text-xl font-bold text-brand-gold">{entry.score}</span>
+                </div>
               </div>
-              <span className="text-xl font-bold text-brand-gold">{entry.score}</span>
-            </div>
-          ))}
+            ))}
+          </div>
+          {teamLeaderboard.length > 0 && <TeamStandings teams={teamLeaderboard} />}
         </div>
 
-        <button
-          onClick={questionIndex + 1 < totalQuestions ? handleNextQuestion : handleShowPodium}
-          className="btn btn-primary mt-8 flex items-center gap-2 text-lg"
-        >
-          {questionIndex + 1 < totalQuestions ? (
-            <>
-              <ArrowRight className="w-5 h-5" />
-              Next Question
-            </>
-          ) : (
-            <>
-              <Trophy className="w-5 h-5" />
-              Show Podium
-            </>
-          )}
-        </button>
+        {!spectator && (
+          <div className="flex gap-3 mt-8">
+            <button
+              onClick={questionIndex + 1 < totalQuestions ? handleNextQuestion : handleShowPodium}
+              className="btn btn-primary flex items-center gap-2 text-lg"
+            >
+              {questionIndex + 1 < totalQuestions ? (
+                <>
+                  <ArrowRight className="w-5 h-5" />
+                  Next Question
+                </>
+              ) : (
+                <>
+                  <Trophy className="w-5 h-5" />
+                  Show Podium
+                </>
+              )}
+            </button>
+            {questionIndex + 1 < totalQuestions && (
+              <button onClick={handleEndGame} className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2 text-lg">
+                <Square className="w-5 h-5" />
+                End Game
+              </button>
+            )}
+          </div>
+        )}
       </div>
     );
   }
 
   // Podium view
   if (gameState?.phase === 'podium' || gameState?.phase === 'finished') {
+    // Team games crown teams; players are listed below once the podium is done
+    const podium = gameState.teamMode
+      ? teamPodiumRevealed.map((team) => team && { name: team.name, score: team.score })
+      : podiumRevealed.map((player) => player && { name: player.nickname, score: player.score });
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
         <h2 className="text-4xl font-bold text-white mb-12">🏆 Final Results 🏆</h2>
@@ -274,10 +680,10 @@ export function HostPresenter() {
         <div className="flex items-end justify-center gap-4 mb-8">
           {/* 2nd Place */}
           <div className="flex flex-col items-center">
-            {podiumRevealed[1] && (
+            {podium[1] && (
               <div className="text-center mb-2 animate-bounce-in">
-                <p className="text-2xl font-bold text-white">{podiumRevealed[1].nickname}</p>
-                <p className="text-brand-gold">{podiumRevealed[1].score} pts</p>
+                <p className="text-2xl font-bold text-white">{podium[1].name}</p>
+                <p className="text-brand-gold">{podium[1].score} pts</p>
               </div>
             )}
             <div className="bg-gray-400 w-24 h-32 rounded-t-lg flex items-center justify-center">
@@ -287,10 +693,10 @@ export function HostPresenter() {
 
           {/* 1st Place */}
           <div className="flex flex-col items-center">
-            {podiumRevealed[0] && (
+            {podium[0] && (
               <div className="text-center mb-2 animate-bounce-in">
-                <p className="text-3xl font-bold text-white">{podiumRevealed[0].nickname}</p>
-                <p className="text-brand-gold text-xl">{podiumRevealed[0].score} pts</p>
+                <p className="text-3xl font-bold text-white">{podium[0].name}</p>
+                <p className="text-brand-gold text-xl">{podium[0].score} pts</p>
               </div>
             )}
             <div className="bg-brand-gold w-28 h-44 rounded-t-lg flex items-center justify-center">
@@ -300,10 +706,10 @@ export function HostPresenter() {
 
           {/* 3rd Place */}
           <div className="flex flex-col items-center">
-            {podiumRevealed[2] && (
+            {podium[2] && (
               <div className="text-center mb-2 animate-bounce-in">
-                <p className="text-xl font-bold text-white">{podiumRevealed[2].nickname}</p>
-                <p className="text-brand-gold">{podiumRevealed[2].score} pts</p>
+                <p className="text-xl font-bold text-white">{podium[2].name}</p>
+                <p className="text-brand-gold">{podium[2].score} pts</p>
               </div>
             )}
             <div className="bg-amber-700 w-24 h-24 rounded-t-lg flex items-center justify-center">
@@ -313,7 +719,35 @@ export function HostPresenter() {
         </div>
 
         {gameState?.phase === 'finished' && (
-          <p className="text-gray-400 text-xl animate-slide-up">Thanks for playing!</p>
+          <div className="flex flex-col items-center gap-4 animate-slide-up">
+            <p className="text-gray-400 text-xl">Thanks for playing!</p>
+            {gameState.teamMode && (
+              <div className="card w-full max-w-xl">
+                <h3 className="text-xl font-bold text-white mb-2">Top players</h3>
+                {leaderboard.slice(0, 5).map((entry) => (
+                  <div key={entry.playerId} className="flex items-center justify-between py-2 border-b border-white/10 last:border-0">
+                    <span className="text-white">{entry.rank}. {entry.nickname}</span>
+                    <span className="font-bold text-brand-gold">{entry.score}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {!spectator && (
+              <div className="flex gap-2">
+                {(['csv', 'xlsx'] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => downloadResults(format)}
+                    className="btn bg-white/10 hover:bg-white/20 flex items-center gap-2"
+                  >
+                    <Download className="w-5 h-5" />
+                    Results ({format.toUpperCase()})
+                  </button>
+                ))}
+              </div>
+            )}
+            {downloadError && <p className="text-red-300">{downloadError}</p>}
+          </div>
         )}
       </div>
     );
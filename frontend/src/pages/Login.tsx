@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { ArrowLeft, LogIn, UserPlus } from 'lucide-react';
+import { setAuth } from '../store/authStore';
+import type { AuthResponse } from '../../../src/types';
+
+type Mode = 'login' | 'register';
+
+export function Login() {
+  const navigate = useNavigate();
+  const search = useSearch({ from: '/login' }) as { redirect?: string };
+  // Only follow same-app paths after signing in
+  const redirectTo = search.redirect?.startsWith('/') ? search.redirect : '/host/create';
+
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json() as AuthResponse | { error: string };
+
+      if (!response.ok || 'error' in data) {
+        setError('error' in data ? data.error : 'Something went wrong');
+        setLoading(false);
+        return;
+      }
+
+      setAuth(data);
+      navigate({ to: redirectTo });
+    } catch {
+      setError(mode === 'login' ? 'Failed to sign in' : 'Failed to create account');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-4">
+      <button
+        onClick={() => navigate({ to: '/' })}
+        className="flex items-center gap-2 text-gray-400 hover:text-white mb-6"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        Back
+      </button>
+
+      <div className="text-center mb-8">
+        <h1 className="text-5xl font-extrabold text-white mb-2">
+          CF<span className="text-brand-orange">Hoot</span>
+        </h1>
+        <p className="text-gray-300">Sign in to create and host quizzes</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="card max-w-sm w-full">
+        <div className="flex gap-2 mb-6">
+          {(['login', 'register'] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => { setMode(m); setError(null); }}
+              className={`flex-1 py-2 rounded-lg font-semibold transition-colors ${
+                mode === m ? 'bg-brand-orange text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+              }`}
+            >
+              {m === 'login' ? 'Sign In' : 'Create Account'}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-sm font-medium text-gray-300 mb-2">Email</label>
+        <input
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
+          placeholder="you@example.com"
+          autoFocus
+        />
+
+        <label className="block text-sm font-medium text-gray-300 mb-2">Password</label>
+        <input
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
+          placeholder={mode === 'register' ? 'At least 8 characters' : 'Password'}
+        />
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg text-red-300 text-center">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!email.trim() || !password || loading}
+          className="btn btn-primary w-full text-xl flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {mode === 'login' ? <LogIn className="w-5 h-5" /> : <UserPlus className="w-5 h-5" />}
+          {loading ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
+        </button>
+      </form>
+    </div>
+  );
+}
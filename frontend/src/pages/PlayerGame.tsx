@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams } from '@tanstack/react-router';
 import { useStore } from '@tanstack/react-store';
-import { Triangle, Square, Circle, Star, CheckCircle, XCircle, Send, Loader2 } from 'lucide-react';
+import { Triangle, Square, Circle, Star, CheckCircle, XCircle, Send, Loader2, BarChart3, GripVertical, ArrowRight, Clock } from 'lucide-react';
 import { useWebSocket } from '../hooks/useWebSocket';
 import { gameStore } from '../store/gameStore';
+import type { AnswerValue } from '../../../src/types';
 
 const answerIcons = [Triangle, Square, Circle, Star];
 const answerColors = ['bg-answer-red', 'bg-answer-blue', 'bg-answer-yellow', 'bg-answer-green'];
@@ -12,17 +13,28 @@ const answerColors = ['bg-answer-red', 'bg-answer-blue', 'bg-answer-yellow', 'bg
 interface PlayerSession {
   playerId: string;
   nickname: string;
+  rejoinToken: string;
 }
 
 function getStoredSession(gameId: string): PlayerSession | null {
   try {
     const stored = localStorage.getItem(`cfhoot_session_${gameId}`);
-    return stored ? JSON.parse(stored) : null;
+    const session = stored ? (JSON.parse(stored) as Partial<PlayerSession>) : null;
+    // Sessions saved before rejoin secrets existed can't be resumed
+    return session?.playerId && session.nickname && session.rejoinToken ? (session as PlayerSession) : null;
   } catch {
     return null;
   }
 }
 
+function clearStoredSession(gameId: string): void {
+  try {
+    localStorage.removeItem(`cfhoot_session_${gameId}`);
+  } catch {
+    // Ignore - nothing to clean up
+  }
+}
+
 function storeSession(gameId: string, session: PlayerSession): void {
   try {
     localStorage.setItem(`cfhoot_session_${gameId}`, JSON.stringify(session));
@@ -32,16 +44,44 @@ function storeSession(gameId: string, session: PlayerSession): void {
   }
 }
 
+// One id per browser, shared by every game, so a host's ban also covers a fresh join
+function getDeviceId(): string | undefined {
+  try {
+    let deviceId = localStorage.getItem('cfhoot_device');
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem('cfhoot_device', deviceId);
+    }
+    return deviceId;
+  } catch {
+    return undefined;
+  }
+}
+
 export function PlayerGame() {
   const { gameId } = useParams({ from: '/play/$gameId' });
-  const { send } = useWebSocket(gameId, false);
+  const { send } = useWebSocket(gameId, 'player');
   
   const state = useStore(gameStore);
-  const { gameState, currentQuestion, secondsLeft, hasAnswered, selectedAnswers, lastCorrectIndices, leaderboard, error, connected, reconnecting, isPaused, pauseReason, showingAnswerReveal, answerDistribution, lastQuestionText, lastQuestionAnswers } = state;
+  const { playerId, rejoinToken, gameState, currentQuestion, secondsLeft, hasAnswered, selectedAnswers, myAnswer, leaderboard, teamLeaderboard, error, connected, reconnecting, removed, isPaused, pauseReason, showingAnswerReveal, lastReveal, lastQuestionSkipped, progress, questionIndex, totalQuestions } = state;
   
   const [nickname, setNickname] = useState('');
+  const [teamChoice, setTeamChoice] = useState(''); // Team mode: '' lets the server pick
   const [joined, setJoined] = useState(false);
   const [rejoinSentThisConnection, setRejoinSentThisConnection] = useState(false);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [sliderValue, setSliderValue] = useState<number | null>(null);
+  const [itemOrder, setItemOrder] = useState<number[]>([]);
+  const [draggingPosition, setDraggingPosition] = useState<number | null>(null);
+  const orderListRef = useRef<HTMLDivElement>(null);
+
+  // Clear typed, slider and ordering answers when a new question starts
+  useEffect(() => {
+    setTextAnswer('');
+    setSliderValue(null);
+    setItemOrder(currentQuestion?.type === 'ordering' ? currentQuestion.items.map((_, i) => i) : []);
+    setDraggingPosition(null);
+  }, [currentQuestion?.id]);
 
   // Reset rejoin tracking when disconnected (enables rejoin on reconnect)
   useEffect(() => {
@@ -57,11 +97,38 @@ export function PlayerGame() {
     const storedSession = getStoredSession(gameId);
     if (storedSession) {
       setNickname(storedSession.nickname);
-      send({ type: 'player_rejoin', playerId: storedSession.playerId, nickname: storedSession.nickname });
+      send({
+        type: 'player_rejoin',
+        playerId: storedSession.playerId,
+        nickname: storedSession.nickname,
+        rejoinToken: storedSession.rejoinToken,
+        deviceId: getDeviceId(),
+      });
       setRejoinSentThisConnection(true);
     }
   }, [connected, rejoinSentThisConnection, gameId, send]);
 
+  // A rejected rejoin means the stored session is stale - forget it so the player can join fresh
+  useEffect(() => {
+    if (error && rejoinSentThisConnection && !joined) {
+      clearStoredSession(gameId);
+    }
+  }, [error, rejoinSentThisConnection, joined, gameId]);
+
+  // A refused join (nickname taken or not allowed) goes back to the form with the reason
+  useEffect(() => {
+    if (error && joined && !playerId) {
+      setJoined(false);
+    }
+  }, [error, joined, playerId]);
+
+  // Kicked or banned: the session is dead, so don't rejoin with it on the next visit
+  useEffect(() => {
+    if (removed) {
+      clearStoredSession(gameId);
+    }
+  }, [removed, gameId]);
+
   // Handle successful rejoin - detect from gameState players
   useEffect(() => {
     if (!gameState || joined) return;
@@ -74,39 +141,46 @@ export function PlayerGame() {
         setJoined(true);
         
         // Check if player already answered current question
-        if (currentQuestion && player.answers[currentQuestion.id]) {
+        const answer = currentQuestion ? gameState.myAnswers?.[currentQuestion.id] : undefined;
+        if (answer) {
           gameStore.setState((s) => ({ 
             ...s, 
             hasAnswered: true,
-            selectedAnswers: player.answers[currentQuestion.id].answerIndices 
+            myAnswer: answer,
+            selectedAnswers: answer.kind === 'choice' ? answer.answerIndices : [],
           }));
         }
       }
     }
   }, [gameState, joined, gameId, rejoinSentThisConnection, currentQuestion]);
 
-  // Store session when we join and find our playerId
+  // Store session once the server has issued our playerId and rejoin secret
   useEffect(() => {
-    if (!gameState || !joined || !nickname) return;
-
-    const myPlayer = Object.values(gameState.players).find(
-      (p) => p.nickname.toLowerCase() === nickname.toLowerCase()
-    );
+    if (!gameState || !playerId || !rejoinToken) return;
 
+    const myPlayer = gameState.players[playerId];
     if (myPlayer) {
-      storeSession(gameId, { playerId: myPlayer.id, nickname: myPlayer.nickname });
+      storeSession(gameId, { playerId, nickname: myPlayer.nickname, rejoinToken });
     }
-  }, [gameState, joined, nickname, gameId]);
+  }, [gameState, playerId, rejoinToken, gameId]);
 
   // Find player's rank
-  const myRank = leaderboard.find((e) => 
-    e.nickname.toLowerCase() === nickname.toLowerCase()
-  );
+  const myRank = leaderboard.find((e) => e.playerId === playerId);
+  // The host may have renamed us since we joined
+  const myNickname = (playerId && gameState?.players[playerId]?.nickname) || nickname;
+  const myTeamId = playerId ? gameState?.players[playerId]?.teamId : null;
+  const myTeam = gameState?.teamMode?.teams.find((team) => team.id === myTeamId);
+  const myTeamRank = teamLeaderboard.find((entry) => entry.teamId === myTeamId);
+  // Assignments have no presenter screen: players read everything here and move on when they're ready
+  const selfPaced = gameState?.mode === 'assignment';
+
+  // The server hands out names when the host chose generated nicknames
+  const generatedNames = gameState?.settings.nicknameMode === 'generated';
 
   const handleJoin = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!nickname.trim()) return;
-    send({ type: 'player_join', nickname: nickname.trim() });
+    if (!nickname.trim() && !generatedNames) return;
+    send({ type: 'player_join', nickname: nickname.trim(), teamId: teamChoice || undefined, deviceId: getDeviceId() });
     setJoined(true);
   };
 
@@ -123,23 +197,87 @@ export function PlayerGame() {
     });
   };
 
+  const submit = (answer: AnswerValue) => {
+    if (hasAnswered || !currentQuestion) return;
+    gameStore.setState((s) => ({
+      ...s,
+      hasAnswered: true,
+      myAnswer: answer,
+      selectedAnswers: answer.kind === 'choice' ? answer.answerIndices : [],
+    }));
+    const { questionShownAt } = gameStore.state;
+    const responseMs = questionShownAt === null ? undefined : Date.now() - questionShownAt;
+    send({ type: 'player_answer', questionId: currentQuestion.id, answer, responseMs });
+  };
+
   const submitAnswer = () => {
-    if (hasAnswered || !currentQuestion || selectedAnswers.length === 0) return;
-    gameStore.setState((s) => ({ ...s, hasAnswered: true }));
-    send({ type: 'player_answer', questionId: currentQuestion.id, answerIndices: selectedAnswers });
+    if (selectedAnswers.length === 0) return;
+    submit({ kind: 'choice', answerIndices: selectedAnswers });
   };
 
   // For single-choice, auto-submit
   const handleAnswer = (index: number) => {
     if (hasAnswered || !currentQuestion) return;
-    if (currentQuestion.multipleChoice) {
+    if ('multipleChoice' in currentQuestion && currentQuestion.multipleChoice) {
       toggleAnswer(index);
     } else {
-      gameStore.setState((s) => ({ ...s, hasAnswered: true, selectedAnswers: [index] }));
-      send({ type: 'player_answer', questionId: currentQuestion.id, answerIndices: [index] });
+      submit({ kind: 'choice', answerIndices: [index] });
     }
   };
 
+  const submitText = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!textAnswer.trim()) return;
+    submit({ kind: 'text', text: textAnswer.trim() });
+  };
+
+  // Drag an ordering item: the pointer is captured, so moves keep arriving while
+  // the finger slides over the other items, and the item swaps into their place
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (draggingPosition === null || !orderListRef.current) return;
+    const rows = Array.from(orderListRef.current.children);
+    const target = rows.findIndex((row) => {
+      const rect = row.getBoundingClientRect();
+      return e.clientY >= rect.top && e.clientY <= rect.bottom;
+    });
+    if (target === -1 || target === draggingPosition) return;
+
+    setItemOrder((order) => {
+      const next = [...order];
+      const [moved] = next.splice(draggingPosition, 1);
+      next.splice(target, 0, moved);
+      return next;
+    });
+    setDraggingPosition(target);
+  };
+
+  // Polls have no right answer; otherwise trust the server's verdict
+  const wasCorrect = myRank?.lastAnswerCorrect === true;
+  const isPoll = lastReveal?.type === 'poll';
+  const myChoices = myAnswer?.kind === 'choice' ? myAnswer.answerIndices : [];
+  // Our ordering as item texts, to compare with the revealed sequence
+  const myOrdering = myAnswer?.kind === 'order' && currentQuestion?.type === 'ordering'
+    ? myAnswer.order.map((position) => currentQuestion.items[position])
+    : null;
+  const placedRight = myOrdering && lastReveal?.type === 'ordering'
+    ? myOrdering.filter((item, index) => item === lastReveal.items[index]).length
+    : 0;
+  // Orderings and (with partial credit scoring) multi-select answers can earn points without being fully right
+  const partlyRight = !wasCorrect && (placedRight > 0 || (myRank?.pointsGained ?? 0) > 0);
+
+  // Removed by the host
+  if (removed) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="card max-w-md text-center">
+          <XCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-2">You're out of this game</h2>
+          <p className="text-gray-300">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
   // Reconnecting overlay
   if (reconnecting && joined) {
     return (
@@ -185,15 +323,37 @@ export function PlayerGame() {
         )}
 
         <form onSubmit={handleJoin} className="card max-w-sm w-full">
-          <label className="block text-gray-300 mb-2">Choose your nickname</label>
-          <input
-            type="text"
-            value={nickname}
-            onChange={(e) => setNickname(e.target.value.slice(0, 20))}
-            placeholder="Cool Nickname"
-            className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-4 text-xl text-white text-center placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
-            autoFocus
-          />
+          {generatedNames ? (
+            <p className="text-gray-300 text-center mb-4">You'll get a random nickname when you join</p>
+          ) : (
+            <>
+              <label className="block text-gray-300 mb-2">Choose your nickname</label>
+              <input
+                type="text"
+                value={nickname}
+                onChange={(e) => setNickname(e.target.value.slice(0, 20))}
+                placeholder="Cool Nickname"
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-4 text-xl text-white text-center placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-orange mb-4"
+                autoFocus
+              />
+            </>
+          )}
+
+          {gameState?.teamMode && (
+            <>
+              <label className="block text-gray-300 mb-2">Team</label>
+              <select
+                value={teamChoice}
+                onChange={(e) => setTeamChoice(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white mb-4"
+              >
+                <option value="">Put me on a team</option>
+                {gameState.teamMode.teams.map((team) => (
+                  <option key={team.id} value={team.id}>{team.name}</option>
+                ))}
+              </select>
+            </>
+          )}
 
           {error && (
             <div className="mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg text-red-300 text-center">
@@ -203,7 +363,7 @@ export function PlayerGame() {
 
           <button
             type="submit"
-            disabled={!nickname.trim() || (rejoinSentThisConnection && !error)}
+            disabled={(!nickname.trim() && !generatedNames) || (rejoinSentThisConnection && !error)}
             className="btn btn-primary w-full text-xl disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Join Game
@@ -219,7 +379,25 @@ export function PlayerGame() {
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
         <div className="text-center">
           <h2 className="text-3xl font-bold text-white mb-4">You're in!</h2>
-          <p className="text-6xl font-extrabold text-brand-orange mb-4">{nickname}</p>
+          <p className="text-6xl font-extrabold text-brand-orange mb-4">{myNickname}</p>
+          {gameState.teamMode && (
+            <div className="mb-6">
+              <p className="text-2xl font-bold text-white mb-3">{myTeam?.name}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {gameState.teamMode.teams
+                  .filter((team) => team.id !== myTeamId)
+                  .map((team) => (
+                    <button
+                      key={team.id}
+                      onClick={() => send({ type: 'player_switch_team', teamId: team.id })}
+                      className="px-3 py-1 rounded-full text-sm bg-white/10 text-gray-300 hover:bg-white/20"
+                    >
+                      Switch to {team.name}
+                    </button>
+                  ))}
+              </div>
+            </div>
+          )}
           <p className="text-gray-400">Waiting for host to start the game...</p>
           <div className="mt-8 animate-pulse">
             <div className="w-16 h-16 border-4 border-brand-orange border-t-transparent rounded-full animate-spin mx-auto"></div>
@@ -231,50 +409,75 @@ export function PlayerGame() {
 
   // Answering question
   if (gameState?.phase === 'question' && currentQuestion && !hasAnswered) {
+    const multipleChoice = 'multipleChoice' in currentQuestion && currentQuestion.multipleChoice;
     return (
       <div className="min-h-screen flex flex-col p-4">
         <div className="flex justify-between items-center mb-4">
-          <span className="text-gray-400 flex-1">{currentQuestion.text}</span>
+          {selfPaced ? (
+            <span className="text-gray-400 flex-1">Question {questionIndex + 1} of {totalQuestions}</span>
+          ) : (
+            <span className="text-gray-400 flex-1">{currentQuestion.text}</span>
+          )}
           <div className="text-2xl font-bold text-white bg-brand-orange rounded-full w-12 h-12 flex items-center justify-center">
             {secondsLeft}
           </div>
         </div>
 
+        {selfPaced && (
+          <div className="flex flex-col items-center gap-4 mb-4">
+            {currentQuestion.imageUrl && (
+              <img src={currentQuestion.imageUrl} alt="Question" className="max-h-[30vh] max-w-full rounded-xl" />
+            )}
+            {currentQuestion.text && (
+              <h2 className="text-2xl font-bold text-white text-center">{currentQuestion.text}</h2>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-2 justify-center mb-4">
-          {currentQuestion.doublePoints && (
+          {currentQuestion.doublePoints && currentQuestion.type !== 'poll' && (
             <span className="bg-brand-gold text-black px-3 py-1 rounded-full text-sm font-bold animate-pulse">
               🔥 DOUBLE POINTS 🔥
             </span>
           )}
-          {currentQuestion.multipleChoice && (
+          {multipleChoice && (
             <span className="bg-brand-orange text-white px-3 py-1 rounded-full text-sm font-bold">
               SELECT MULTIPLE
             </span>
           )}
+          {currentQuestion.type === 'poll' && (
+            <span className="bg-white/20 text-white px-3 py-1 rounded-full text-sm font-bold">
+              POLL - NO POINTS
+            </span>
+          )}
         </div>
 
-        <div className="flex-1 grid grid-cols-2 gap-3">
-          {currentQuestion.answers.map((_, index) => {
-            const Icon = answerIcons[index];
-            const isSelected = selectedAnswers.includes(index);
-            return (
-              <button
-                key={index}
-                onClick={() => handleAnswer(index)}
-                className={`answer-btn ${answerColors[index]} justify-center relative ${isSelected ? 'ring-4 ring-white' : ''}`}
-              >
-                <Icon className="w-12 h-12" fill="white" />
-                {isSelected && (
-                  <div className="absolute top-2 right-2 w-6 h-6 bg-white rounded-full flex items-center justify-center">
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                  </div>
-                )}
-              </button>
-            );
-          })}
-        </div>
+        {'answers' in currentQuestion && (
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            {currentQuestion.answers.map((answer, index) => {
+              const Icon = answerIcons[index];
+              const isSelected = selectedAnswers.includes(index);
+              return (
+                <button
+                  key={index}
+                  onClick={() => handleAnswer(index)}
+                  className={`answer-btn ${answerColors[index]} justify-center relative ${isSelected ? 'ring-4 ring-white' : ''}`}
+                >
+                  <Icon className="w-12 h-12" fill="white" />
+                  {/* True/False labels are fixed, so show them; other options are read from the presenter */}
+                  {(currentQuestion.type === 'true_false' || selfPaced) && <span className="text-2xl font-bold">{answer}</span>}
+                  {isSelected && (
+                    <div className="absolute top-2 right-2 w-6 h-6 bg-white rounded-full flex items-center justify-center">
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
 
-        {currentQuestion.multipleChoice && selectedAnswers.length > 0 && (
+        {multipleChoice && selectedAnswers.length > 0 && (
           <button
             onClick={submitAnswer}
             className="mt-4 btn btn-primary flex items-center justify-center gap-2 text-lg"
@@ -283,6 +486,90 @@ export function PlayerGame() {
             Submit ({selectedAnswers.length} selected)
           </button>
         )}
+
+        {currentQuestion.type === 'type_answer' && (
+          <form onSubmit={submitText} className="flex-1 flex flex-col justify-center gap-4">
+            <input
+              type="text"
+              value={textAnswer}
+              onChange={(e) => setTextAnswer(e.target.value.slice(0, 200))}
+              placeholder="Type your answer"
+              className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-4 text-xl text-white text-center placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-orange"
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={!textAnswer.trim()}
+              className="btn btn-primary flex items-center justify-center gap-2 text-lg disabled:opacity-50"
+            >
+              <Send className="w-5 h-5" />
+              Submit
+            </button>
+          </form>
+        )}
+
+        {currentQuestion.type === 'ordering' && (
+          <div className="flex-1 flex flex-col justify-center gap-4">
+            <p className="text-gray-400 text-center text-sm">Drag into the right order, first at the top</p>
+            <div ref={orderListRef} className="flex flex-col gap-2">
+              {itemOrder.map((position, index) => (
+                <div
+                  key={position}
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setDraggingPosition(index);
+                  }}
+                  onPointerMove={handleDragMove}
+                  onPointerUp={() => setDraggingPosition(null)}
+                  onPointerCancel={() => setDraggingPosition(null)}
+                  className={`${answerColors[position % answerColors.length]} rounded-xl p-4 text-white font-bold flex items-center gap-3 select-none touch-none cursor-grab ${
+                    draggingPosition === index ? 'ring-4 ring-white scale-105' : ''
+                  } transition-transform`}
+                >
+                  <span className="text-xl opacity-75">{index + 1}</span>
+                  <span className="flex-1 text-lg">{currentQuestion.items[position]}</span>
+                  <GripVertical className="w-6 h-6 opacity-75" />
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => submit({ kind: 'order', order: itemOrder })}
+              className="btn btn-primary flex items-center justify-center gap-2 text-lg"
+            >
+              <Send className="w-5 h-5" />
+              Submit
+            </button>
+          </div>
+        )}
+
+        {currentQuestion.type === 'slider' && (
+          <div className="flex-1 flex flex-col justify-center gap-6">
+            <p className="text-6xl font-extrabold text-white text-center">
+              {sliderValue ?? '?'}
+            </p>
+            <input
+              type="range"
+              min={currentQuestion.min}
+              max={currentQuestion.max}
+              step={currentQuestion.step}
+              value={sliderValue ?? (currentQuestion.min + currentQuestion.max) / 2}
+              onChange={(e) => setSliderValue(Number(e.target.value))}
+              className="w-full accent-brand-orange"
+            />
+            <div className="flex justify-between text-gray-400">
+              <span>{currentQuestion.min}</span>
+              <span>{currentQuestion.max}</span>
+            </div>
+            <button
+              onClick={() => sliderValue !== null && submit({ kind: 'number', value: sliderValue })}
+              disabled={sliderValue === null}
+              className="btn btn-primary flex items-center justify-center gap-2 text-lg disabled:opacity-50"
+            >
+              <Send className="w-5 h-5" />
+              Submit
+            </button>
+          </div>
+        )}
       </div>
     );
   }
@@ -296,29 +583,39 @@ export function PlayerGame() {
             <CheckCircle className="w-16 h-16 text-brand-orange" />
           </div>
           <h2 className="text-2xl font-bold text-white mb-2">Answer submitted!</h2>
-          <p className="text-gray-400">Waiting for time to run out...</p>
+          <p className="text-gray-400">{selfPaced ? 'Checking your answer...' : 'Waiting for time to run out...'}</p>
         </div>
       </div>
     );
   }
 
   // Answer reveal screen (shown after question ends)
-  if (showingAnswerReveal && lastQuestionAnswers) {
-    const wasCorrect = 
-      selectedAnswers.length === lastCorrectIndices.length &&
-      selectedAnswers.every(a => lastCorrectIndices.includes(a));
-    const answerColors = ['bg-answer-red', 'bg-answer-blue', 'bg-answer-yellow', 'bg-answer-green'];
-    const maxCount = Math.max(...answerDistribution, 1);
-    
+  if (showingAnswerReveal && lastReveal) {
     return (
       <div className="min-h-screen flex flex-col p-4">
         {/* Result indicator at top */}
         <div className="text-center mb-6">
-          {wasCorrect ? (
+          {isPoll ? (
+            <div className="inline-flex items-center gap-2 bg-white/10 px-6 py-3 rounded-full animate-bounce-in">
+              <BarChart3 className="w-8 h-8 text-white" />
+              <span className="text-2xl font-bold text-white">Thanks for voting!</span>
+            </div>
+          ) : lastQuestionSkipped ? (
+            <div className="inline-flex items-center gap-2 bg-white/10 px-6 py-3 rounded-full animate-bounce-in">
+              <span className="text-2xl font-bold text-white">Question skipped - no points</span>
+            </div>
+          ) : wasCorrect ? (
             <div className="inline-flex items-center gap-2 bg-green-500/20 px-6 py-3 rounded-full animate-bounce-in">
               <CheckCircle className="w-8 h-8 text-green-500" />
               <span className="text-2xl font-bold text-green-500">Correct!</span>
             </div>
+          ) : partlyRight ? (
+            <div className="inline-flex items-center gap-2 bg-yellow-500/20 px-6 py-3 rounded-full animate-bounce-in">
+              <CheckCircle className="w-8 h-8 text-yellow-400" />
+              <span className="text-2xl font-bold text-yellow-400">
+                {placedRight > 0 ? `${placedRight} in the right place` : 'Partly right!'}
+              </span>
+            </div>
           ) : (
             <div className="inline-flex items-center gap-2 bg-red-500/20 px-6 py-3 rounded-full animate-bounce-in">
               <XCircle className="w-8 h-8 text-red-500" />
@@ -328,68 +625,187 @@ export function PlayerGame() {
         </div>
 
         {/* Answer distribution */}
-        <div className="flex-1 grid grid-cols-2 gap-3">
-          {lastQuestionAnswers.map((answer, index) => {
-            const count = answerDistribution[index] || 0;
-            const percentage = maxCount > 0 ? (count / maxCount) * 100 : 0;
-            const isCorrect = lastCorrectIndices.includes(index);
-            const wasSelected = selectedAnswers.includes(index);
-            
-            return (
-              <div key={index} className="relative flex flex-col">
-                <div className={`${answerColors[index]} rounded-xl p-4 text-white relative overflow-hidden flex-1 ${isCorrect ? 'ring-4 ring-green-400' : ''} ${wasSelected ? 'ring-2 ring-white' : ''}`}>
-                  {/* Background bar */}
-                  <div 
-                    className="absolute inset-0 bg-white/20 transition-all duration-1000 ease-out"
-                    style={{ width: `${percentage}%` }}
-                  />
-                  
-                  {/* Content */}
-                  <div className="relative z-10 flex flex-col h-full">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-xs font-bold opacity-75">#{index + 1}</span>
-                      <div className="flex gap-1">
-                        {isCorrect && <span className="text-xl">✓</span>}
-                        {wasSelected && <span className="text-lg opacity-75">👆</span>}
+        {'distribution' in lastReveal && (
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            {lastReveal.answers.map((answer, index) => {
+              const count = lastReveal.distribution[index] || 0;
+              const maxCount = Math.max(...lastReveal.distribution, 1);
+              const percentage = maxCount > 0 ? (count / maxCount) * 100 : 0;
+              const isCorrect = lastReveal.correctIndices.includes(index);
+              const wasSelected = myChoices.includes(index);
+              
+              return (
+                <div key={index} className="relative flex flex-col">
+                  <div className={`${answerColors[index]} rounded-xl p-4 text-white relative overflow-hidden flex-1 ${isCorrect ? 'ring-4 ring-green-400' : ''} ${wasSelected ? 'ring-2 ring-white' : ''}`}>
+                    {/* Background bar */}
+                    <div 
+                      className="absolute inset-0 bg-white/20 transition-all duration-1000 ease-out"
+                      style={{ width: `${percentage}%` }}
+                    />
+                    
+                    {/* Content */}
+                    <div className="relative z-10 flex flex-col h-full">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-bold opacity-75">#{index + 1}</span>
+                        <div className="flex gap-1">
+                          {isCorrect && <span className="text-xl">✓</span>}
+                          {wasSelected && <span className="text-lg opacity-75">👆</span>}
+                        </div>
+                      </div>
+                      <p className="text-sm font-bold mb-auto line-clamp-3">{answer}</p>
+                      <div className="flex items-baseline gap-1 mt-2">
+                        <span className="text-2xl font-extrabold">{count}</span>
+                        <span className="text-xs opacity-75">
+                          {count === 1 ? 'player' : 'players'}
+                        </span>
                       </div>
-                    </div>
-                    <p className="text-sm font-bold mb-auto line-clamp-3">{answer}</p>
-                    <div className="flex items-baseline gap-1 mt-2">
-                      <span className="text-2xl font-extrabold">{count}</span>
-                      <span className="text-xs opacity-75">
-                        {count === 1 ? 'player' : 'players'}
-                      </span>
                     </div>
                   </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        )}
+
+        {lastReveal.type === 'type_answer' && (
+          <div className="flex-1 flex flex-col items-center justify-center gap-4 text-center">
+            <p className="text-gray-400">Accepted answers</p>
+            <p className="text-3xl font-bold text-green-400">{lastReveal.acceptedAnswers.join(' / ')}</p>
+            {myAnswer?.kind === 'text' && (
+              <p className="text-gray-300">You answered: <span className="font-bold text-white">{myAnswer.text}</span></p>
+            )}
+          </div>
+        )}
+
+        {lastReveal.type === 'slider' && (
+          <div className="flex-1 flex flex-col items-center justify-center gap-4 text-center">
+            <p className="text-gray-400">Correct answer</p>
+            <p className="text-5xl font-extrabold text-green-400">
+              {lastReveal.correctValue}
+              {lastReveal.tolerance > 0 && <span className="text-2xl text-gray-400"> ± {lastReveal.tolerance}</span>}
+            </p>
+            {myAnswer?.kind === 'number' && (
+              <p className="text-gray-300">You answered: <span className="font-bold text-white">{myAnswer.value}</span></p>
+            )}
+          </div>
+        )}
+
+        {lastReveal.type === 'ordering' && (
+          <div className="flex-1 flex flex-col justify-center gap-2">
+            <p className="text-gray-400 text-center mb-2">Correct order</p>
+            {lastReveal.items.map((item, index) => {
+              const inPlace = myOrdering?.[index] === item;
+              return (
+                <div key={index} className={`rounded-xl p-4 text-white font-bold flex items-center gap-3 ${inPlace ? 'bg-green-600/60' : 'bg-white/10'}`}>
+                  <span className="text-xl opacity-75">{index + 1}</span>
+                  <span className="flex-1">{item}</span>
+                  {inPlace && <CheckCircle className="w-5 h-5 text-green-300" />}
+                </div>
+              );
+            })}
+          </div>
+        )}
 
         <div className="text-center mt-4">
-          <p className="text-gray-400 text-sm">Results coming up...</p>
+          {!selfPaced ? (
+            <p className="text-gray-400 text-sm">Results coming up...</p>
+          ) : gameState?.phase === 'assignment' && !progress?.finished ? (
+            <button
+              onClick={() => send({ type: 'player_next_question' })}
+              className="btn btn-primary inline-flex items-center gap-2 text-lg"
+            >
+              Next question
+              <ArrowRight className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={() => gameStore.setState((s) => ({ ...s, showingAnswerReveal: false }))}
+              className="btn btn-primary inline-flex items-center gap-2 text-lg"
+            >
+              See my results
+              <ArrowRight className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Assignment: start the next question when ready, or wait for the deadline once done
+  if (selfPaced && gameState?.phase === 'assignment') {
+    const questionCount = gameState.quiz?.questionCount ?? 0;
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="text-center">
+          <p className="text-4xl font-extrabold text-brand-orange mb-4">{myNickname}</p>
+          {progress?.finished ? (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">All done!</h2>
+              {myRank && (
+                <div className="mt-4">
+                  <p className="text-gray-400">Your score</p>
+                  <p className="text-4xl font-bold text-brand-gold">{myRank.score}</p>
+                  <p className="text-gray-400 mt-2">Position so far: {myRank.rank}</p>
+                </div>
+              )}
+              <p className="text-gray-400 mt-6">Final results are in when the assignment closes</p>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-300 mb-6">
+                {progress && progress.questionIndex > 0
+                  ? `${progress.questionIndex} of ${questionCount} questions answered`
+                  : `${questionCount} questions, at your own pace`}
+              </p>
+              <button
+                onClick={() => send({ type: 'player_next_question' })}
+                disabled={!progress}
+                className="btn btn-primary inline-flex items-center gap-2 text-xl disabled:opacity-50"
+              >
+                {progress && progress.questionIndex > 0 ? 'Continue' : 'Start'}
+                <ArrowRight className="w-6 h-6" />
+              </button>
+            </>
+          )}
+          {gameState.deadline && (
+            <p className="text-gray-400 mt-8 flex items-center justify-center gap-2">
+              <Clock className="w-4 h-4" />
+              Due {new Date(gameState.deadline).toLocaleString()}
+            </p>
+          )}
         </div>
       </div>
     );
   }
 
   // Question results / Leaderboard
-  if (lastCorrectIndices.length > 0 || gameState?.phase === 'leaderboard') {
-    const wasCorrect = 
-      selectedAnswers.length === lastCorrectIndices.length &&
-      selectedAnswers.every(a => lastCorrectIndices.includes(a));
-    
+  if ((lastReveal && !selfPaced) || gameState?.phase === 'leaderboard') {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
         <div className="text-center">
-          {wasCorrect ? (
+          {isPoll ? (
+            <>
+              <div className="w-24 h-24 rounded-full bg-white/10 flex items-center justify-center mx-auto mb-6 animate-bounce-in">
+                <BarChart3 className="w-16 h-16 text-white" />
+              </div>
+              <h2 className="text-3xl font-bold text-white mb-2">Thanks for voting!</h2>
+            </>
+          ) : lastQuestionSkipped ? (
+            <h2 className="text-3xl font-bold text-white mb-2">Question skipped</h2>
+          ) : wasCorrect ? (
             <>
               <div className="w-24 h-24 rounded-full bg-green-500/30 flex items-center justify-center mx-auto mb-6 animate-bounce-in">
                 <CheckCircle className="w-16 h-16 text-green-500" />
               </div>
               <h2 className="text-3xl font-bold text-green-500 mb-2">Correct!</h2>
             </>
+          ) : partlyRight ? (
+            <>
+              <div className="w-24 h-24 rounded-full bg-yellow-500/30 flex items-center justify-center mx-auto mb-6 animate-bounce-in">
+                <CheckCircle className="w-16 h-16 text-yellow-400" />
+              </div>
+              <h2 className="text-3xl font-bold text-yellow-400 mb-2">Partly right!</h2>
+            </>
           ) : (
             <>
               <div className="w-24 h-24 rounded-full bg-red-500/30 flex items-center justify-center mx-auto mb-6 animate-bounce-in">
@@ -401,9 +817,15 @@ export function PlayerGame() {
 
           {myRank && (
             <div className="mt-6">
+              {!!myRank.pointsGained && (
+                <p className="text-2xl font-bold text-green-400 mb-4">+{myRank.pointsGained} points</p>
+              )}
               <p className="text-gray-400">Your score</p>
               <p className="text-4xl font-bold text-brand-gold">{myRank.score}</p>
               <p className="text-gray-400 mt-2">Position: {myRank.rank}</p>
+              {myTeamRank && (
+                <p className="text-gray-400 mt-2">{myTeamRank.name}: #{myTeamRank.rank} with {myTeamRank.score} points</p>
+              )}
             </div>
           )}
         </div>
@@ -425,6 +847,9 @@ export function PlayerGame() {
               <p className="text-2xl text-brand-gold font-bold">{myRank.score} points</p>
             </>
           )}
+          {myTeamRank && (
+            <p className="text-xl text-white mt-4">{myTeamRank.name} finished #{myTeamRank.rank}</p>
+          )}
 
           <p className="text-gray-400 mt-8">Thanks for playing!</p>
         </div>
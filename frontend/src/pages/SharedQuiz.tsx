@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from '@tanstack/react-router';
+import { useStore } from '@tanstack/react-store';
+import { ArrowLeft, Copy, FileText, Loader2 } from 'lucide-react';
+import { authStore, loadCurrentUser } from '../store/authStore';
+import { apiFetch } from '../lib/api';
+import type { SavedQuiz } from '../../../src/types';
+import { choiceOptions, correctChoiceIndices } from '../../../src/questions';
+
+// Read-only view of a quiz opened through its share link
+export function SharedQuiz() {
+  const navigate = useNavigate();
+  const { token } = useParams({ from: '/host/shared/$token' });
+  const { user, checking } = useStore(authStore);
+  const [quiz, setQuiz] = useState<SavedQuiz | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cloning, setCloning] = useState(false);
+
+  useEffect(() => {
+    loadCurrentUser();
+  }, []);
+
+  // Opening a share link requires an account so the quiz can appear under "Shared with me"
+  useEffect(() => {
+    if (checking) return;
+    if (!user) {
+      navigate({ to: '/login', search: { redirect: `/host/shared/${token}` } });
+      return;
+    }
+
+    apiFetch(`/api/shared/${token}`)
+      .then(async (response) => {
+        const data = await response.json() as SavedQuiz | { error: string };
+        if ('error' in data) {
+          setError(data.error);
+        } else {
+          setQuiz(data);
+        }
+      })
+      .catch(() => setError('Failed to load quiz'));
+  }, [checking, user, token, navigate]);
+
+  async function handleClone() {
+    if (!quiz) return;
+    setCloning(true);
+    const response = await apiFetch(`/api/quizzes/${quiz.id}/clone`, { method: 'POST' });
+    if (response.ok) {
+      navigate({ to: '/host/create' });
+    } else {
+      setError('Failed to clone quiz');
+      setCloning(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-3xl mx-auto">
+        <button
+          onClick={() => navigate({ to: '/host/create' })}
+          className="flex items-center gap-2 text-gray-400 hover:text-white mb-6"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Back to Quizzes
+        </button>
+
+        {error && (
+          <div className="p-4 bg-red-500/20 border border-red-500 rounded-lg text-red-300">{error}</div>
+        )}
+
+        {!quiz && !error && (
+          <div className="card text-center py-8">
+            <Loader2 className="w-8 h-8 text-brand-orange animate-spin mx-auto" />
+          </div>
+        )}
+
+        {quiz && (
+          <>
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h1 className="text-4xl font-bold text-white flex items-center gap-3">
+                  <FileText className="w-8 h-8 text-brand-gold" />
+                  {quiz.title}
+                </h1>
+                <p className="text-gray-400 mt-1">
+                  Shared with you read-only • {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''}
+                </p>
+              </div>
+              {quiz.access !== 'owner' && (
+                <button
+                  onClick={handleClone}
+                  disabled={cloning}
+                  className="btn btn-primary flex items-center gap-2"
+                >
+                  <Copy className="w-5 h-5" />
+                  {cloning ? 'Cloning...' : 'Clone to my library'}
+                </button>
+              )}
+            </div>
+
+            {quiz.questions.map((question, index) => (
+              <div key={question.id} className="card mb-4">
+                <h3 className="text-lg font-semibold text-white mb-3">
+                  {index + 1}. {question.text}
+                </h3>
+                {question.imageUrl && (
+                  <img src={question.imageUrl} alt="Question" className="max-h-40 rounded-lg mb-3" />
+                )}
+                {question.type === 'type_answer' && (
+                  <p className="px-3 py-2 rounded-lg bg-green-600/40 text-white">
+                    {question.acceptedAnswers.join(' / ')}
+                  </p>
+                )}
+                {question.type === 'ordering' && (
+                  <ol className="list-decimal list-inside space-y-1 text-gray-300">
+                    {question.items.map((item, aIndex) => (
+                      <li key={aIndex} className="px-3 py-2 rounded-lg bg-white/10">{item}</li>
+                    ))}
+                  </ol>
+                )}
+                {question.type === 'slider' && (
+                  <p className="px-3 py-2 rounded-lg bg-white/10 text-gray-300">
+                    {question.min} – {question.max}, answer{' '}
+                    <span className="text-white font-semibold">
+                      {question.correctValue}{question.tolerance > 0 && ` ± ${question.tolerance}`}
+                    </span>
+                  </p>
+                )}
+                <ul className="grid grid-cols-2 gap-2">
+                  {choiceOptions(question)?.map((answer, aIndex) => (
+                    <li
+                      key={aIndex}
+                      className={`px-3 py-2 rounded-lg ${
+                        correctChoiceIndices(question).includes(aIndex) ? 'bg-green-600/40 text-white' : 'bg-white/10 text-gray-300'
+                      }`}
+                    >
+                      {answer}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { createRootRoute, createRoute, Outlet } from '@tanstack/react-router';
 import { Home } from './pages/Home';
 import { HostCreate } from './pages/HostCreate';
-import { HostPresenter } from './pages/HostPresenter';
+import { HostPresenter, Spectator } from './pages/HostPresenter';
 import { PlayerJoin } from './pages/PlayerJoin';
 import { PlayerGame } from './pages/PlayerGame';
+import { Login } from './pages/Login';
+import { SharedQuiz } from './pages/SharedQuiz';
 
 const rootRoute = createRootRoute({
   component: () => (
@@ -19,6 +21,12 @@ const indexRoute = createRoute({
   component: Home,
 });
 
+const loginRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/login',
+  component: Login,
+});
+
 const hostCreateRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/host/create',
@@ -31,6 +39,18 @@ const hostPresenterRoute = createRoute({
   component: HostPresenter,
 });
 
+const spectatorRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/watch/$gameId',
+  component: Spectator,
+});
+
+const sharedQuizRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/host/shared/$token',
+  component: SharedQuiz,
+});
+
 const playerJoinRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/play',
@@ -45,8 +65,11 @@ const playerGameRoute = createRoute({
 
 export const routeTree = rootRoute.addChildren([
   indexRoute,
+  loginRoute,
   hostCreateRoute,
   hostPresenterRoute,
+  spectatorRoute,
+  sharedQuizRoute,
   playerJoinRoute,
   playerGameRoute,
 ]);
@@ -0,0 +1,66 @@
+import { Store } from '@tanstack/react-store';
+import type { AuthResponse, User } from '../../../src/types';
+
+const AUTH_TOKEN_KEY = 'cfhoot_auth_token';
+
+export interface AuthState {
+  user: User | null;
+  token: string | null;
+  // True until the stored token has been checked against /api/auth/me
+  checking: boolean;
+}
+
+function readStoredToken(): string | null {
+  try {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export const authStore = new Store<AuthState>({
+  user: null,
+  token: readStoredToken(),
+  checking: true,
+});
+
+export function setAuth({ token, user }: AuthResponse) {
+  try {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } catch (error) {
+    console.warn('Failed to store auth token in localStorage:', error);
+  }
+  authStore.setState(() => ({ user, token, checking: false }));
+}
+
+export function clearAuth() {
+  try {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  } catch {
+    // Ignore - token will simply be rejected next time
+  }
+  authStore.setState(() => ({ user: null, token: null, checking: false }));
+}
+
+// Resolve the stored token into a user, dropping it if the session has expired
+export async function loadCurrentUser(): Promise<User | null> {
+  const { token } = authStore.state;
+  if (!token) {
+    authStore.setState((state) => ({ ...state, checking: false }));
+    return null;
+  }
+
+  try {
+    const response = await fetch('/api/auth/me', { headers: { Authorization: `Bearer ${token}` } });
+    if (!response.ok) {
+      clearAuth();
+      return null;
+    }
+    const user = await response.json() as User;
+    authStore.setState((state) => ({ ...state, user, checking: false }));
+    return user;
+  } catch {
+    authStore.setState((state) => ({ ...state, checking: false }));
+    return null;
+  }
+}
@@ -1,42 +1,54 @@
 import { Store } from '@tanstack/react-store';
-import type { GameState, ServerMessage, LeaderboardEntry, QuestionForPlayer } from '../../../src/types';
+import type { GameStateView, ServerMessage, LeaderboardEntry, QuestionForPlayer, AnswerReveal, AnswerValue, PlayerProgress, TeamLeaderboardEntry } from '../../../src/types';
 
 export interface UIState {
   // Connection state
   connected: boolean;
   reconnecting: boolean;
   playerId: string | null;
+  rejoinToken: string | null;
   nickname: string | null;
   isHost: boolean;
+  removed: boolean; // Kicked or banned by the host - don't reconnect
   
   // Game state from server
-  gameState: GameState | null;
+  gameState: GameStateView | null;
   
   // Question state
   currentQuestion: QuestionForPlayer | null;
   questionIndex: number;
   totalQuestions: number;
   secondsLeft: number;
+  questionEndsAt: number | null; // Server time the countdown runs to; null when paused or between questions
+  questionShownAt: number | null; // Local time the current question arrived, for the answer's responseMs
   hasAnswered: boolean;
-  selectedAnswers: number[];
+  selectedAnswers: number[]; // Options picked so far on a choice question
+  myAnswer: AnswerValue | null; // What this player submitted for the current question
   
   // Results
   leaderboard: LeaderboardEntry[];
-  lastCorrectIndices: number[];
+  teamLeaderboard: TeamLeaderboardEntry[]; // Empty outside team mode
   
-  // Answer distribution (for reveal screen)
-  answerDistribution: number[];
+  // Answer key and how everyone answered (for reveal screen)
+  lastReveal: AnswerReveal | null;
   lastQuestionText: string;
-  lastQuestionAnswers: [string, string, string, string] | null;
+  lastQuestionSkipped: boolean; // The host skipped it, so nobody scored
   showingAnswerReveal: boolean;
   
   // Podium
   podiumRevealed: (LeaderboardEntry | null)[];
+  teamPodiumRevealed: (TeamLeaderboardEntry | null)[];
+
+  // Assignment mode: this player's place in the quiz
+  progress: PlayerProgress | null;
   
   // Game pause state
   isPaused: boolean;
   pauseReason: string | null;
   
+  // Server time minus this device's time, from clock_sync
+  clockOffset: number;
+
   // Errors
   error: string | null;
 }
@@ -45,24 +57,32 @@ const initialState: UIState = {
   connected: false,
   reconnecting: false,
   playerId: null,
+  rejoinToken: null,
   nickname: null,
   isHost: false,
+  removed: false,
   gameState: null,
   currentQuestion: null,
   questionIndex: 0,
   totalQuestions: 0,
   secondsLeft: 0,
+  questionEndsAt: null,
+  questionShownAt: null,
   hasAnswered: false,
   selectedAnswers: [],
+  myAnswer: null,
   leaderboard: [],
-  lastCorrectIndices: [],
-  answerDistribution: [],
+  teamLeaderboard: [],
+  lastReveal: null,
   lastQuestionText: '',
-  lastQuestionAnswers: null,
+  lastQuestionSkipped: false,
   showingAnswerReveal: false,
   podiumRevealed: [null, null, null],
+  teamPodiumRevealed: [null, null, null],
+  progress: null,
   isPaused: false,
   pauseReason: null,
+  clockOffset: 0,
   error: null,
 };
 
@@ -72,6 +92,11 @@ export function resetStore() {
   gameStore.setState(() => initialState);
 }
 
+// Whole seconds until a server deadline, read off this device's clock corrected by the offset
+export function secondsUntil(endsAt: number, clockOffset: number): number {
+  return Math.max(0, Math.ceil((endsAt - (Date.now() + clockOffset)) / 1000));
+}
+
 export function handleServerMessage(message: ServerMessage) {
   switch (message.type) {
     case 'error':
@@ -82,6 +107,10 @@ export function handleServerMessage(message: ServerMessage) {
       gameStore.setState((state) => ({ ...state, gameState: message.state, error: null }));
       break;
       
+    case 'player_session':
+      gameStore.setState((state) => ({ ...state, playerId: message.playerId, rejoinToken: message.rejoinToken }));
+      break;
+      
     case 'player_joined':
       gameStore.setState((state) => {
         if (!state.gameState) return state;
@@ -127,6 +156,56 @@ export function handleServerMessage(message: ServerMessage) {
       });
       break;
       
+    case 'player_removed':
+      gameStore.setState((state) => {
+        if (!state.gameState) return state;
+        const { [message.playerId]: _removed, ...players } = state.gameState.players;
+        return {
+          ...state,
+          gameState: { ...state.gameState, players },
+          leaderboard: state.leaderboard.filter((entry) => entry.playerId !== message.playerId),
+        };
+      });
+      break;
+
+    case 'player_renamed':
+      gameStore.setState((state) => {
+        const player = state.gameState?.players[message.playerId];
+        if (!state.gameState || !player) return state;
+        return {
+          ...state,
+          gameState: {
+            ...state.gameState,
+            players: { ...state.gameState.players, [message.playerId]: { ...player, nickname: message.nickname } },
+          },
+          leaderboard: state.leaderboard.map((entry) =>
+            entry.playerId === message.playerId ? { ...entry, nickname: message.nickname } : entry
+          ),
+        };
+      });
+      break;
+
+    case 'settings_changed':
+      gameStore.setState((state) => ({
+        ...state,
+        gameState: state.gameState ? { ...state.gameState, settings: message.settings } : null,
+      }));
+      break;
+
+    case 'player_team_changed':
+      gameStore.setState((state) => {
+        const player = state.gameState?.players[message.playerId];
+        if (!state.gameState || !player) return state;
+        return {
+          ...state,
+          gameState: {
+            ...state.gameState,
+            players: { ...state.gameState.players, [message.playerId]: { ...player, teamId: message.teamId } },
+          },
+        };
+      });
+      break;
+
     case 'game_starting':
       gameStore.setState((state) => ({
         ...state,
@@ -140,16 +219,24 @@ export function handleServerMessage(message: ServerMessage) {
         currentQuestion: message.question,
         questionIndex: message.questionIndex,
         totalQuestions: message.totalQuestions,
-        secondsLeft: message.question.timerSeconds,
+        secondsLeft: message.endsAt === null ? message.question.timerSeconds : secondsUntil(message.endsAt, state.clockOffset),
+        questionEndsAt: message.endsAt,
+        questionShownAt: Date.now(),
         hasAnswered: false,
         selectedAnswers: [],
-        lastCorrectIndices: [],
+        myAnswer: null,
+        lastReveal: null,
+        showingAnswerReveal: false,
         gameState: state.gameState ? { ...state.gameState, phase: 'question' } : null,
       }));
       break;
       
     case 'timer_tick':
-      gameStore.setState((state) => ({ ...state, secondsLeft: message.secondsLeft }));
+      gameStore.setState((state) => ({
+        ...state,
+        secondsLeft: message.endsAt === null ? message.secondsLeft : secondsUntil(message.endsAt, state.clockOffset),
+        questionEndsAt: message.endsAt,
+      }));
       break;
       
     case 'answer_received':
@@ -159,22 +246,32 @@ export function handleServerMessage(message: ServerMessage) {
     case 'question_end':
       gameStore.setState((state) => ({
         ...state,
-        lastCorrectIndices: message.correctIndices,
         leaderboard: message.scores,
-        answerDistribution: message.answerDistribution,
+        teamLeaderboard: message.teamScores ?? [],
+        lastReveal: message.reveal,
         lastQuestionText: message.questionText,
-        lastQuestionAnswers: message.answers,
+        lastQuestionSkipped: message.skipped ?? false,
         showingAnswerReveal: true,
+        questionEndsAt: null,
+        // An assignment player's question is over as soon as they answer
+        gameState: state.gameState?.mode === 'assignment' ? { ...state.gameState, phase: 'assignment' } : state.gameState,
       }));
       break;
       
     case 'leaderboard_update':
-      gameStore.setState((state) => ({
-        ...state,
-        leaderboard: message.leaderboard,
-        showingAnswerReveal: false,
-        gameState: state.gameState ? { ...state.gameState, phase: 'leaderboard' } : null,
-      }));
+      gameStore.setState((state) => {
+        // The assignment leaderboard updates live; the assignment itself stays open
+        if (state.gameState?.mode === 'assignment') {
+          return { ...state, leaderboard: message.leaderboard, teamLeaderboard: message.teamLeaderboard ?? [] };
+        }
+        return {
+          ...state,
+          leaderboard: message.leaderboard,
+          teamLeaderboard: message.teamLeaderboard ?? [],
+          showingAnswerReveal: false,
+          gameState: state.gameState ? { ...state.gameState, phase: 'leaderboard' } : null,
+        };
+      });
       break;
       
     case 'podium_reveal':
@@ -189,10 +286,19 @@ export function handleServerMessage(message: ServerMessage) {
       });
       break;
       
+    case 'team_podium_reveal':
+      gameStore.setState((state) => {
+        const teamPodiumRevealed = [...state.teamPodiumRevealed];
+        teamPodiumRevealed[message.position - 1] = message.team;
+        return { ...state, teamPodiumRevealed };
+      });
+      break;
+
     case 'game_finished':
       gameStore.setState((state) => ({
         ...state,
         leaderboard: message.finalLeaderboard,
+        teamLeaderboard: message.finalTeamLeaderboard ?? [],
         gameState: state.gameState ? { ...state.gameState, phase: 'finished' } : null,
       }));
       break;
@@ -202,6 +308,7 @@ export function handleServerMessage(message: ServerMessage) {
         ...state,
         isPaused: true,
         pauseReason: message.reason,
+        questionEndsAt: null,
       }));
       break;
       
@@ -212,5 +319,9 @@ export function handleServerMessage(message: ServerMessage) {
         pauseReason: null,
       }));
       break;
+
+    case 'assignment_progress':
+      gameStore.setState((state) => ({ ...state, progress: message.progress }));
+      break;
   }
 }
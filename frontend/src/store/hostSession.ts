@@ -0,0 +1,21 @@
+// Host secrets are kept per game so a refreshed or reopened presenter can reconnect as host
+
+function hostTokenKey(gameId: string): string {
+  return `cfhoot_host_${gameId}`;
+}
+
+export function getHostToken(gameId: string): string | null {
+  try {
+    return localStorage.getItem(hostTokenKey(gameId));
+  } catch {
+    return null;
+  }
+}
+
+export function storeHostToken(gameId: string, hostToken: string): void {
+  try {
+    localStorage.setItem(hostTokenKey(gameId), hostToken);
+  } catch (error) {
+    console.warn('Failed to store host token in localStorage:', error);
+  }
+}
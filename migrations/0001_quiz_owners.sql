@@ -0,0 +1,4 @@
+-- For databases created before host accounts: adds the quiz owner column that schema.sql now
+-- creates. Run it once, before schema.sql, which adds the new tables and indexes.
+
+ALTER TABLE quizzes ADD COLUMN owner_id TEXT;
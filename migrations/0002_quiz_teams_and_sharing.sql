@@ -0,0 +1,8 @@
+-- For databases created before team folders and share links: adds the quiz columns that
+-- schema.sql now creates. Run it once, after 0001 and before schema.sql.
+
+ALTER TABLE quizzes ADD COLUMN team_id TEXT;
+ALTER TABLE quizzes ADD COLUMN share_token TEXT;
+
+-- ALTER TABLE can't add a UNIQUE column, so the constraint comes from an index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quizzes_share_token ON quizzes(share_token);
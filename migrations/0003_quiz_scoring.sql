@@ -0,0 +1,4 @@
+-- For databases created before per-quiz scoring: adds the scoring column that schema.sql now
+-- creates. Run it once, after 0002 and before schema.sql.
+
+ALTER TABLE quizzes ADD COLUMN scoring TEXT NOT NULL DEFAULT 'classic';
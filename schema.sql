@@ -5,13 +5,25 @@ CREATE TABLE IF NOT EXISTS quizzes (
 	id TEXT PRIMARY KEY,
 	title TEXT NOT NULL,
 	questions TEXT NOT NULL, -- JSON array of questions
+	scoring TEXT NOT NULL DEFAULT 'classic', -- 'classic' | 'accuracy' | 'streak' | 'partial_credit'
+	owner_id TEXT, -- users.id, NULL for quizzes saved before accounts existed
+	team_id TEXT, -- teams.id when the quiz lives in a team folder
+	share_token TEXT UNIQUE, -- read-only share link, NULL when not shared
 	created_at INTEGER NOT NULL,
 	updated_at INTEGER NOT NULL
 );
 
+-- Databases created before a column here existed need its file in migrations/ first (see the README)
+
 -- Index for sorting by updated_at
 CREATE INDEX IF NOT EXISTS idx_quizzes_updated_at ON quizzes(updated_at DESC);
 
+-- Index for listing a user's quizzes
+CREATE INDEX IF NOT EXISTS idx_quizzes_owner_id ON quizzes(owner_id, updated_at DESC);
+
+-- Index for listing a team folder
+CREATE INDEX IF NOT EXISTS idx_quizzes_team_id ON quizzes(team_id, updated_at DESC);
+
 -- Table for game PIN to game ID mappings
 CREATE TABLE IF NOT EXISTS game_pins (
 	pin TEXT PRIMARY KEY,
@@ -22,3 +34,86 @@ CREATE TABLE IF NOT EXISTS game_pins (
 
 -- Index for cleaning up expired PINs
 CREATE INDEX IF NOT EXISTS idx_game_pins_expires_at ON game_pins(expires_at);
+
+-- Host accounts
+CREATE TABLE IF NOT EXISTS users (
+	id TEXT PRIMARY KEY,
+	email TEXT NOT NULL UNIQUE,
+	password_hash TEXT NOT NULL,
+	created_at INTEGER NOT NULL
+);
+
+-- Sign-in sessions (only a SHA-256 of the bearer token is stored)
+CREATE TABLE IF NOT EXISTS sessions (
+	token_hash TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+	created_at INTEGER NOT NULL,
+	expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- Teams share a folder of quizzes that every member can edit
+CREATE TABLE IF NOT EXISTS teams (
+	id TEXT PRIMARY KEY,
+	name TEXT NOT NULL,
+	created_by TEXT NOT NULL REFERENCES users(id),
+	created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+	team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+	user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+	role TEXT NOT NULL, -- 'owner' | 'member'
+	added_at INTEGER NOT NULL,
+	PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+-- Users who opened a quiz's read-only share link ("Shared with me")
+CREATE TABLE IF NOT EXISTS quiz_shares (
+	quiz_id TEXT NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+	user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+	created_at INTEGER NOT NULL,
+	PRIMARY KEY (quiz_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_shares_user_id ON quiz_shares(user_id);
+
+-- Finished games, written by the game's Durable Object when it reaches the podium
+CREATE TABLE IF NOT EXISTS games (
+	id TEXT PRIMARY KEY,
+	quiz_id TEXT NOT NULL,
+	host_id TEXT NOT NULL, -- users.id of the host who ran the game
+	quiz_title TEXT NOT NULL,
+	questions TEXT NOT NULL, -- JSON array of the questions as played
+	finished_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_games_quiz_id ON games(quiz_id, finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_games_host_id ON games(host_id, finished_at DESC);
+
+-- Final leaderboard of each game
+CREATE TABLE IF NOT EXISTS game_players (
+	game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+	player_id TEXT NOT NULL,
+	nickname TEXT NOT NULL,
+	score INTEGER NOT NULL,
+	rank INTEGER NOT NULL,
+	PRIMARY KEY (game_id, player_id)
+);
+
+-- Every answer given in a game
+CREATE TABLE IF NOT EXISTS game_answers (
+	game_id TEXT NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+	player_id TEXT NOT NULL,
+	question_id TEXT NOT NULL,
+	answer TEXT NOT NULL, -- JSON AnswerValue
+	correct INTEGER, -- 1/0, NULL for polls
+	points INTEGER NOT NULL,
+	response_ms INTEGER NOT NULL,
+	PRIMARY KEY (game_id, player_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_answers_question ON game_answers(question_id);
@@ -0,0 +1,98 @@
+import type { User } from './types';
+import { generateToken } from './crypto';
+
+// ============== Passwords ==============
+
+const PBKDF2_ITERATIONS = 100000; // Upper limit supported by Workers WebCrypto
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+// Stored as "pbkdf2$<iterations>$<salt hex>$<hash hex>" so the cost can be raised later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) return false;
+
+  const hash = await derivePasswordHash(password, fromHex(salt), Number(iterations));
+  const expectedBytes = fromHex(expected);
+  if (hash.byteLength !== expectedBytes.byteLength) return false;
+  return crypto.subtle.timingSafeEqual(hash, expectedBytes);
+}
+
+// ============== Sessions ==============
+
+// Only a SHA-256 of the session token is stored, so a leaked table can't be replayed
+async function hashSessionToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+export async function createSession(env: Env, userId: string): Promise<string> {
+  const token = generateToken();
+  const now = Date.now();
+  await env.DB.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .bind(await hashSessionToken(token), userId, now, now + SESSION_TTL_MS)
+    .run();
+  return token;
+}
+
+export async function deleteSession(request: Request, env: Env): Promise<void> {
+  const token = getBearerToken(request);
+  if (!token) return;
+  await env.DB.prepare('DELETE FROM sessions WHERE token_hash = ?')
+    .bind(await hashSessionToken(token))
+    .run();
+}
+
+// Resolve the signed-in user from the request's bearer token, or null if absent/expired
+export async function getSessionUser(request: Request, env: Env): Promise<User | null> {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const row = await env.DB.prepare(
+    `SELECT users.id, users.email, users.created_at FROM sessions
+     JOIN users ON users.id = sessions.user_id
+     WHERE sessions.token_hash = ? AND sessions.expires_at > ?`
+  )
+    .bind(await hashSessionToken(token), Date.now())
+    .first<{ id: string; email: string; created_at: number }>();
+
+  if (!row) return null;
+  return { id: row.id, email: row.email, createdAt: row.created_at };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && email.length <= 254;
+}
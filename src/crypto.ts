@@ -0,0 +1,19 @@
+// ============== Secret Token Helpers ==============
+
+// Generate an unguessable hex token from the Workers CSPRNG
+export function generateToken(byteLength: number = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compare a stored secret against one supplied by a client without leaking timing
+export function tokensMatch(expected: string | null, provided: string | null): boolean {
+  if (!expected || !provided) return false;
+
+  const encoder = new TextEncoder();
+  const a = encoder.encode(expected);
+  const b = encoder.encode(provided);
+  if (a.byteLength !== b.byteLength) return false;
+
+  return crypto.subtle.timingSafeEqual(a, b);
+}
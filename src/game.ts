@@ -3,27 +3,73 @@ import type {
   GameState,
   Quiz,
   Player,
-  ClientMessage,
   ServerMessage,
+  ServerFrame,
   LeaderboardEntry,
+  AnswerValue,
+  Question,
   QuestionForPlayer,
+  GameMode,
+  PlayerAnswer,
+  TeamLeaderboardEntry,
+  TeamScoring,
+  GameSettings,
+  JoinableResponse,
+  ConnectionRole,
 } from './types';
-
+import { WS_CLOSE_OUTDATED, WS_CLOSE_REMOVED, WS_CLOSE_UNAUTHORIZED } from './types';
+import { parseClientMessage, PROTOCOL_VERSION } from './protocol';
+import { generateToken, tokensMatch } from './crypto';
+import { describeFieldError, validateQuiz } from './validation';
+import { buildAnswerReveal, createItemOrder, isAnswerCorrect, isScored, isValidAnswer, toQuestionForPlayer, upgradeQuestion } from './questions';
+import { getScoringStrategy } from './scoring';
+import { saveGameResults } from './results';
+import { projectState, toPublicPlayer } from './projections';
+import { cleanNickname, generateNickname, isNicknameAllowed, parseBlockedWords } from './nicknames';
+import { createSettings, DEFAULT_SETTINGS, settingsError } from './gameSettings';
+import { calculateTeamLeaderboard, consensusAnswer, createTeamMode, MAX_TEAMS, MIN_TEAMS, smallestTeam, TEAM_SCORINGS } from './gameTeams';
+import type { PendingStep } from './gameTimers';
+import { nextAlarmAt, PODIUM_FIRST_DELAY_MS, PODIUM_STEP_MS, QUESTION_DELAY_MS, REVEAL_DELAY_MS, secondsUntil } from './gameTimers';
+
+// Kept as each socket's serialized attachment so it survives hibernation
 interface WebSocketSession {
-  ws: WebSocket;
   playerId: string | null;
-  isHost: boolean;
+  role: ConnectionRole;
+  resumed: boolean; // Caught up from the replay log on connect, so a rejoin needn't resend the state
+  latencyProbe: { nonce: string; sentAt: number } | null; // The latency_probe waiting for its echo
+  rttSamples: number[]; // Round trips timed by those probes; the fastest limits the latency allowance
+}
+
+// Nicknames (lowercased) and devices the host has banned from this game
+interface BanList {
+  nicknames: string[];
+  deviceIds: string[];
 }
 
-const MAX_PLAYERS = 200; // Maximum players allowed in a game
+const MAX_ADDED_SECONDS = 60; // Most time the host can add to a question at once
+const MAX_DEVICE_ID_LENGTH = 64;
+const REPLAY_LOG_SIZE = 200; // Events kept for reconnecting clients; anyone further behind gets a fresh snapshot
+const MAX_LATENCY_ALLOWANCE_MS = 1000; // Most of an answer's time put down to the network, however slow it measures
+const LATENCY_PROBES = 5; // latency_probe round trips timed on each player socket
+const MIN_LATENCY_SAMPLES = 3; // Round trips needed before any of an answer's time is put down to the network
+
+// Only current for a moment, so not numbered or kept for replay
+const UNLOGGED_MESSAGES: ServerMessage['type'][] = ['timer_tick'];
 
 export class GameDurableObject extends DurableObject<Env> {
   private state!: GameState;
-  private sessions: Map<WebSocket, WebSocketSession> = new Map();
-  private timerInterval: number | null = null;
-  private currentSecondsLeft: number = 0;
+  private hostToken: string | null = null; // Minted by the Worker in POST /api/games, never sent to clients
+  private gameId: string | null = null; // The id in /play/:gameId, used as the key for saved results
+  private hostId: string | null = null; // Account of the host who created the game
+  private rejoinTokens: Record<string, string> = {}; // playerId -> rejoin secret, only ever sent to that player
+  private deviceIds: Record<string, string> = {}; // playerId -> the id their browser sent on join, for bans
+  private bans: BanList = { nicknames: [], deviceIds: [] };
+  private blockedWords: string[] = []; // The host's additions to the nickname blocklist
+  private pendingStep: PendingStep | null = null; // The next phase change, run by alarm()
+  private seq: number = 0; // Sequence number of the latest logged event
   private questionEnding: boolean = false; // Atomic flag to prevent double execution
-  private timerStarting: boolean = false; // Mutex for timer starts
+  private pausedByHost: boolean = false; // Host pauses last until host_resume, even across a host reconnect
+  clock: () => number = Date.now; // Every game timer reads this, so tests can swap in a controllable clock
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -31,31 +77,31 @@ export class GameDurableObject extends DurableObject<Env> {
     ctx.blockConcurrencyWhile(async () => {
       // Initialize SQL schema if not exists
       await this.initializeSQL();
+      const [latest] = [...this.ctx.storage.sql.exec('SELECT MAX(seq) AS seq FROM events')] as { seq: number | null }[];
+      this.seq = latest?.seq ?? 0;
       
       // Try to load from SQL first, fallback to old KV storage for migration
       const stored = await this.loadState();
       
       if (stored) {
         this.state = stored;
-        // Reset connection states since WebSockets don't survive restart
-        this.state.hostConnected = false;
+        // Sockets accepted for hibernation outlive the object; anyone without one has gone
+        const sessions = this.ctx.getWebSockets().map((ws) => this.sessionOf(ws));
+        this.state.hostConnected = sessions.some((session) => session.role === 'host');
         for (const player of Object.values(this.state.players)) {
-          player.connected = false;
+          player.connected = sessions.some((session) => session.playerId === player.id);
         }
         
-        // Handle interrupted question (DO was evicted mid-question)
-        if (this.state.phase === 'question' && this.state.questionStartTime && this.state.quiz) {
-          const question = this.state.quiz.questions[this.state.currentQuestionIndex];
+        // Questions started before timers ran on alarms only have their start time
+        if (this.state.phase === 'question' && this.state.questionStartTime && this.state.questionEndsAt === null && !this.state.timerPaused) {
+          const question = this.state.quiz?.questions[this.state.currentQuestionIndex];
           if (question) {
-            const elapsed = Math.floor((Date.now() - this.state.questionStartTime) / 1000);
-            if (elapsed >= question.timerSeconds) {
-              // Time already expired - move to leaderboard
-              this.state.phase = 'leaderboard';
-              await this.saveState();
-            }
-            // If time remaining, timer will restart when clients reconnect
+            this.state.questionEndsAt = this.state.questionStartTime + question.timerSeconds * 1000;
+            await this.saveState();
           }
         }
+        // The alarm survives eviction; this only catches games from before it was used
+        await this.scheduleAlarm();
       } else {
         this.state = {
           phase: 'lobby',
@@ -64,9 +110,16 @@ export class GameDurableObject extends DurableObject<Env> {
           players: {},
           currentQuestionIndex: -1,
           questionStartTime: null,
+          questionEndsAt: null,
           hostConnected: false,
           timerPaused: false,
           pausedAtSecondsLeft: null,
+          itemOrders: {},
+          mode: 'live',
+          deadline: null,
+          teamMode: null,
+          skippedQuestionIds: [],
+          settings: DEFAULT_SETTINGS,
         };
         await this.saveState();
       }
@@ -99,12 +152,48 @@ export class GameDurableObject extends DurableObject<Env> {
       )
     `);
     
+    // Columns added after the initial release
+    await this.ensureColumn('game_state', 'host_token', 'TEXT');
+    await this.ensureColumn('players', 'rejoin_token', 'TEXT');
+    await this.ensureColumn('game_state', 'item_orders', "TEXT NOT NULL DEFAULT '{}'");
+    await this.ensureColumn('game_state', 'game_id', 'TEXT');
+    await this.ensureColumn('game_state', 'host_id', 'TEXT');
+    await this.ensureColumn('game_state', 'mode', "TEXT NOT NULL DEFAULT 'live'");
+    await this.ensureColumn('game_state', 'deadline', 'INTEGER');
+    await this.ensureColumn('players', 'progress', 'TEXT');
+    await this.ensureColumn('game_state', 'team_mode', 'TEXT');
+    await this.ensureColumn('players', 'team_id', 'TEXT');
+    await this.ensureColumn('game_state', 'skipped_questions', "TEXT NOT NULL DEFAULT '[]'");
+    await this.ensureColumn('players', 'device_id', 'TEXT');
+    await this.ensureColumn('game_state', 'bans', 'TEXT');
+    await this.ensureColumn('game_state', 'settings', "TEXT NOT NULL DEFAULT '{}'");
+    await this.ensureColumn('game_state', 'blocked_words', "TEXT NOT NULL DEFAULT '[]'");
+    await this.ensureColumn('game_state', 'question_ends_at', 'INTEGER');
+    await this.ensureColumn('game_state', 'pending_step', 'TEXT');
+    await this.ensureColumn('game_state', 'paused_by_host', 'INTEGER NOT NULL DEFAULT 0');
+
+    // Replay log of recent events, see logEvent()
+    await this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        seq INTEGER PRIMARY KEY,
+        host_message TEXT,
+        player_message TEXT
+      )
+    `);
+
     // Create indexes for better performance
     await this.ctx.storage.sql.exec(`
       CREATE INDEX IF NOT EXISTS idx_players_score ON players(score DESC)
     `);
   }
 
+  private async ensureColumn(table: string, column: string, definition: string): Promise<void> {
+    const columns = [...this.ctx.storage.sql.exec(`PRAGMA table_info(${table})`)] as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      this.ctx.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   private async loadState(): Promise<GameState | null> {
     // Try to load from SQL first
     const cursor = await this.ctx.storage.sql.exec(`
@@ -114,6 +203,15 @@ export class GameDurableObject extends DurableObject<Env> {
     const rows = [...cursor];
     if (rows.length > 0) {
       const row = rows[0] as any;
+      this.hostToken = row.host_token ?? null;
+      this.gameId = row.game_id ?? null;
+      this.hostId = row.host_id ?? null;
+      if (row.bans) {
+        this.bans = JSON.parse(row.bans);
+      }
+      this.blockedWords = JSON.parse(row.blocked_words ?? '[]');
+      this.pendingStep = row.pending_step ? JSON.parse(row.pending_step) : null;
+      this.pausedByHost = row.paused_by_host === 1;
       
       // Load players from SQL
       const playersCursor = await this.ctx.storage.sql.exec(`
@@ -129,19 +227,34 @@ export class GameDurableObject extends DurableObject<Env> {
           score: p.score,
           answers: JSON.parse(p.answers),
           connected: p.connected === 1,
+          progress: p.progress ? JSON.parse(p.progress) : null,
+          teamId: p.team_id ?? null,
         };
+        if (p.rejoin_token) {
+          this.rejoinTokens[p.id] = p.rejoin_token;
+        }
+        if (p.device_id) {
+          this.deviceIds[p.id] = p.device_id;
+        }
       }
       
       return {
-        phase: row.phase as 'lobby' | 'question' | 'leaderboard' | 'podium' | 'finished',
+        phase: row.phase as GameState['phase'],
         gamePin: row.game_pin,
-        quiz: row.quiz ? JSON.parse(row.quiz) : null,
+        quiz: row.quiz ? this.upgradeQuiz(JSON.parse(row.quiz)) : null,
         players,
         currentQuestionIndex: row.current_question_index,
         questionStartTime: row.question_start_time,
+        questionEndsAt: row.question_ends_at ?? null,
         hostConnected: row.host_connected === 1,
         timerPaused: row.timer_paused === 1,
         pausedAtSecondsLeft: row.paused_at_seconds_left,
+        itemOrders: JSON.parse(row.item_orders ?? '{}'),
+        mode: (row.mode ?? 'live') as GameMode,
+        deadline: row.deadline ?? null,
+        teamMode: row.team_mode ? JSON.parse(row.team_mode) : null,
+        skippedQuestionIds: JSON.parse(row.skipped_questions ?? '[]'),
+        settings: createSettings(JSON.parse(row.settings ?? '{}')),
       };
     }
     
@@ -152,12 +265,16 @@ export class GameDurableObject extends DurableObject<Env> {
       await this.migrateToSQL(oldState);
       // Delete old storage
       await this.ctx.storage.delete('gameState');
-      return oldState;
+      return { ...oldState, questionEndsAt: null, itemOrders: oldState.itemOrders ?? {}, mode: 'live', deadline: null, teamMode: null, skippedQuestionIds: [], settings: DEFAULT_SETTINGS };
     }
     
     return null;
   }
 
+  private upgradeQuiz(quiz: Quiz): Quiz {
+    return { ...quiz, questions: quiz.questions.map(upgradeQuestion), scoring: quiz.scoring ?? 'classic' };
+  }
+
   private async migrateToSQL(state: GameState): Promise<void> {
     // Insert game state
     await this.ctx.storage.sql.exec(
@@ -194,8 +311,9 @@ export class GameDurableObject extends DurableObject<Env> {
     await this.ctx.storage.sql.exec(
       `INSERT OR REPLACE INTO game_state 
        (id, phase, game_pin, quiz, current_question_index, question_start_time, 
-        host_connected, timer_paused, paused_at_seconds_left)
-       VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        host_connected, timer_paused, paused_at_seconds_left, host_token, item_orders, game_id, host_id, mode, deadline, team_mode, skipped_questions, bans, settings, blocked_words,
+        question_ends_at, pending_step, paused_by_host)
+       VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       this.state.phase,
       this.state.gamePin,
       this.state.quiz ? JSON.stringify(this.state.quiz) : null,
@@ -203,29 +321,52 @@ export class GameDurableObject extends DurableObject<Env> {
       this.state.questionStartTime,
       this.state.hostConnected ? 1 : 0,
       this.state.timerPaused ? 1 : 0,
-      this.state.pausedAtSecondsLeft
+      this.state.pausedAtSecondsLeft,
+      this.hostToken,
+      JSON.stringify(this.state.itemOrders),
+      this.gameId,
+      this.hostId,
+      this.state.mode,
+      this.state.deadline,
+      this.state.teamMode ? JSON.stringify(this.state.teamMode) : null,
+      JSON.stringify(this.state.skippedQuestionIds),
+      JSON.stringify(this.bans),
+      JSON.stringify(this.state.settings),
+      JSON.stringify(this.blockedWords),
+      this.state.questionEndsAt,
+      this.pendingStep ? JSON.stringify(this.pendingStep) : null,
+      this.pausedByHost ? 1 : 0
     );
     
     // Save all players
     for (const player of Object.values(this.state.players)) {
       await this.ctx.storage.sql.exec(
-        `INSERT OR REPLACE INTO players (id, nickname, score, answers, connected)
-         VALUES (?, ?, ?, ?, ?)`,
+        `INSERT OR REPLACE INTO players (id, nickname, score, answers, connected, rejoin_token, progress, team_id, device_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         player.id,
         player.nickname,
         player.score,
         JSON.stringify(player.answers),
-        player.connected ? 1 : 0
+        player.connected ? 1 : 0,
+        this.rejoinTokens[player.id] ?? null,
+        player.progress ? JSON.stringify(player.progress) : null,
+        player.teamId,
+        this.deviceIds[player.id] ?? null
       );
     }
   }
 
+  // Just the one player's answers, rather than every player's row as saveState does
+  private savePlayerAnswers(player: Player): void {
+    this.ctx.storage.sql.exec('UPDATE players SET answers = ? WHERE id = ?', JSON.stringify(player.answers), player.id);
+  }
+
   private generatePin(): string {
     return Math.floor(100000 + Math.random() * 900000).toString();
   }
 
   private generateId(): string {
-    return Math.random().toString(36).substring(2, 15);
+    return crypto.randomUUID();
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -240,137 +381,252 @@ export class GameDurableObject extends DurableObject<Env> {
       return Response.json({ gamePin: this.state.gamePin });
     }
 
+    // Checked by the Worker before sending a player here from the PIN screen
+    if (url.pathname === '/joinable' && request.method === 'GET') {
+      const reason = this.joinRefusal();
+      const response: JoinableResponse = reason ? { joinable: false, reason } : { joinable: true };
+      return Response.json(response);
+    }
+
+    // Called once by the Worker when the game is created, with the host secret and the saved quiz
+    if (url.pathname === '/init' && request.method === 'POST') {
+      if (this.hostToken) {
+        return Response.json({ error: 'Game already initialized' }, { status: 409 });
+      }
+      const { hostToken, gameId, hostId, quiz, mode = 'live', deadline = null, teams, settings = {}, blockedWords } = (await request.json()) as {
+        hostToken: string;
+        gameId: string;
+        hostId: string;
+        quiz: Quiz;
+        mode?: GameMode;
+        deadline?: number | null;
+        teams?: { count: number; scoring: TeamScoring };
+        settings?: Partial<GameSettings>;
+        blockedWords?: string[];
+      };
+      if (!hostToken) {
+        return Response.json({ error: 'Host token required' }, { status: 400 });
+      }
+      if (mode === 'assignment' && (!deadline || deadline <= this.clock())) {
+        return Response.json({ error: 'Assignment deadline must be in the future' }, { status: 400 });
+      }
+      if (teams) {
+        if (!Number.isInteger(teams.count) || teams.count < MIN_TEAMS || teams.count > MAX_TEAMS) {
+          return Response.json({ error: `Team mode needs ${MIN_TEAMS} to ${MAX_TEAMS} teams` }, { status: 400 });
+        }
+        if (!TEAM_SCORINGS.includes(teams.scoring)) {
+          return Response.json({ error: 'Team scoring must be sum, average or consensus' }, { status: 400 });
+        }
+        // Consensus needs the team answering the same question at the same time
+        if (teams.scoring === 'consensus' && mode === 'assignment') {
+          return Response.json({ error: 'Consensus teams need a live game' }, { status: 400 });
+        }
+      }
+      const invalidSettings = settingsError(settings);
+      if (invalidSettings) {
+        return Response.json({ error: invalidSettings }, { status: 400 });
+      }
+      const words = parseBlockedWords(blockedWords);
+      if (!words) {
+        return Response.json({ error: 'Blocked words must be a list of 1-50 character words' }, { status: 400 });
+      }
+      const validation = validateQuiz(quiz);
+      if (!validation.success) {
+        return Response.json({ error: `Invalid quiz: ${describeFieldError(validation.errors[0])}` }, { status: 400 });
+      }
+      this.hostToken = hostToken;
+      this.gameId = gameId;
+      this.hostId = hostId;
+      this.state.quiz = { id: quiz.id, ...validation.data };
+      this.state.settings = createSettings(settings);
+      this.blockedWords = words;
+      // Shuffle ordering questions once so every player and reconnect sees the same order
+      for (const question of this.state.quiz.questions) {
+        if (question.type === 'ordering') {
+          this.state.itemOrders[question.id] = createItemOrder(question.items.length);
+        }
+      }
+      if (teams) {
+        this.state.teamMode = createTeamMode(teams.count, teams.scoring);
+      }
+      // Assignments are open as soon as they're published and close themselves at the deadline
+      if (mode === 'assignment' && deadline) {
+        this.state.mode = 'assignment';
+        this.state.phase = 'assignment';
+        this.state.deadline = deadline;
+      }
+      await this.saveState();
+      await this.scheduleAlarm();
+      return Response.json({ gamePin: this.state.gamePin });
+    }
+
     // WebSocket upgrade
     if (request.headers.get('Upgrade') === 'websocket') {
-      const isHost = url.searchParams.get('host') === 'true';
-      return this.handleWebSocket(request, isHost);
+      // Browsers can keep running an old build; turn it away before it sends messages we no longer understand
+      if (url.searchParams.get('protocol') !== String(PROTOCOL_VERSION)) {
+        return this.rejectWebSocket(WS_CLOSE_OUTDATED, 'This game has been updated. Please reload the page.');
+      }
+      // Spectators need only the game link: they see what the presenter screen shows, and can't change anything
+      const role: ConnectionRole =
+        url.searchParams.get('host') === 'true' ? 'host' : url.searchParams.get('spectator') === 'true' ? 'spectator' : 'player';
+      if (role === 'host' && !tokensMatch(this.hostToken, url.searchParams.get('token'))) {
+        return this.rejectWebSocket(WS_CLOSE_UNAUTHORIZED, 'Invalid host token. Open the presenter from the device that created the game.');
+      }
+      return this.handleWebSocket(request, role);
     }
 
     return new Response('Not found', { status: 404 });
   }
 
-  private handleWebSocket(request: Request, isHost: boolean): Response {
+  // Browsers can't read the status of a failed upgrade, so accept the socket,
+  // explain why, and close it with an application close code instead
+  private rejectWebSocket(code: number, reason: string): Response {
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+    server.accept();
+    this.send(server, { type: 'error', message: reason });
+    server.close(code, reason);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private handleWebSocket(request: Request, role: ConnectionRole): Response {
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
 
+    // A reconnecting client says the last sequence number it saw, and gets only what it missed
+    const since = Number.parseInt(new URL(request.url).searchParams.get('since') ?? '', 10);
+    const missed = Number.isInteger(since) ? this.missedEvents(since, role) : null;
+
     const session: WebSocketSession = {
-      ws: server,
       playerId: null,
-      isHost,
+      role,
+      resumed: missed !== null,
+      latencyProbe: null,
+      rttSamples: [],
     };
 
-    this.sessions.set(server, session);
-    server.accept();
+    // Hibernatable: the object can leave memory while the socket stays open
+    this.ctx.acceptWebSocket(server, [role]);
+    server.serializeAttachment(session);
+
+    if (missed) {
+      missed.forEach((message) => this.send(server, message));
+      // Ticks aren't logged, so bring the countdown up to date
+      const question = this.state.phase === 'question' ? this.state.quiz?.questions[this.state.currentQuestionIndex] : undefined;
+      if (question) {
+        this.send(server, this.questionTimerTick(question));
+      }
+    } else {
+      this.sendSnapshot(server, session);
+    }
+
+    // Only players answer, so only their sockets need the round trip timed
+    if (role === 'player') {
+      this.sendLatencyProbe(server, session);
+    }
 
-    if (isHost) {
+    if (role === 'host') {
       const wasDisconnected = !this.state.hostConnected;
       this.state.hostConnected = true;
       
-      // Resume timer if host reconnects during a paused question
-      if (wasDisconnected && this.state.timerPaused && this.state.phase === 'question') {
-        this.resumeTimer();
+      // Resume timer if host reconnects during a question paused by their disconnect
+      if (wasDisconnected && this.state.timerPaused && this.state.phase === 'question' && !this.pausedByHost) {
+        this.resumeTimer().then(() => this.checkAllPlayersAnswered());
         this.broadcast({ type: 'game_resumed' });
       }
     }
 
-    server.addEventListener('message', (event) => {
-      this.handleMessage(server, session, event.data as string);
-    });
-
-    server.addEventListener('close', () => {
-      this.handleClose(server, session);
-    });
-
-    server.addEventListener('error', () => {
-      this.handleClose(server, session);
-    });
+    return new Response(null, { status: 101, webSocket: client });
+  }
 
-    // Send current state to new connection
-    this.send(server, { type: 'game_state', state: this.getPublicState() });
+  // Everything a client needs to catch up from scratch: the full state, then whatever the current phase shows
+  private sendSnapshot(ws: WebSocket, session: WebSocketSession): void {
+    const presenter = session.role !== 'player';
+    this.send(ws, this.gameStateMessage(session));
 
     // If mid-question, send current question to reconnecting client
-    if (this.state.phase === 'question' && this.state.questionStartTime && this.state.quiz) {
-      const question = this.state.quiz.questions[this.state.currentQuestionIndex];
-      if (question) {
-        const elapsed = Math.floor((Date.now() - this.state.questionStartTime) / 1000);
-        const remaining = Math.max(0, question.timerSeconds - elapsed);
-        
-        // Send question to this client
-        const questionForPlayer: QuestionForPlayer = {
-          id: question.id,
-          text: question.text,
-          answers: question.answers,
-          timerSeconds: question.timerSeconds,
-          doublePoints: question.doublePoints,
-          multipleChoice: question.correctIndices.length > 1,
-          imageUrl: isHost ? question.imageUrl : undefined,
-        };
-        
-        this.send(server, {
-          type: 'question_start',
-          question: questionForPlayer,
-          questionIndex: this.state.currentQuestionIndex,
-          totalQuestions: this.state.quiz.questions.length,
-        });
-        this.send(server, { type: 'timer_tick', secondsLeft: remaining });
-        
-        // Restart timer if it was lost (DO eviction recovery)
-        // Use mutex to prevent multiple concurrent timer starts
-        if (!this.timerInterval && !this.state.timerPaused && !this.timerStarting) {
-          this.timerStarting = true;
-          if (remaining > 0) {
-            this.currentSecondsLeft = remaining;
-            this.timerInterval = setInterval(() => {
-              this.currentSecondsLeft--;
-              if (this.currentSecondsLeft > 0) {
-                this.broadcast({ type: 'timer_tick', secondsLeft: this.currentSecondsLeft });
-              } else {
-                this.endQuestion();
-              }
-            }, 1000) as unknown as number;
-          } else {
-            // Time expired while disconnected - end question
-            this.endQuestion();
-          }
-          this.timerStarting = false;
-        }
-      }
-    }
+    this.sendLiveQuestion(ws, presenter);
     
     // If in leaderboard phase, send leaderboard
     if (this.state.phase === 'leaderboard') {
       const leaderboard = this.calculateLeaderboard();
-      this.send(server, { type: 'leaderboard_update', leaderboard });
+      this.send(ws, { type: 'leaderboard_update', leaderboard, teamLeaderboard: this.teamLeaderboard(leaderboard) });
     }
     
     // If in podium/finished phase, send podium reveals immediately
     if (this.state.phase === 'podium' || this.state.phase === 'finished') {
       const leaderboard = this.calculateLeaderboard();
       // Send all podium reveals at once for reconnecting client
-      this.send(server, { type: 'podium_reveal', position: 3, player: leaderboard[2] ?? null });
-      this.send(server, { type: 'podium_reveal', position: 2, player: leaderboard[1] ?? null });
-      this.send(server, { type: 'podium_reveal', position: 1, player: leaderboard[0] ?? null });
+      for (const position of [3, 2, 1] as const) {
+        this.podiumReveal(position, leaderboard).forEach((message) => this.send(ws, message));
+      }
       if (this.state.phase === 'finished') {
-        this.send(server, { type: 'game_finished', finalLeaderboard: leaderboard });
+        this.send(ws, this.gameFinished(leaderboard));
       }
     }
 
-    return new Response(null, { status: 101, webSocket: client });
+    // Open assignment: the host and spectators watch the shared leaderboard
+    if (this.state.phase === 'assignment' && presenter) {
+      this.send(ws, this.leaderboardUpdate());
+    }
   }
 
-  private handleMessage(ws: WebSocket, session: WebSocketSession, data: string): void {
-    let message: ClientMessage;
+  // The running question and its timer, for a client arriving partway through
+  private sendLiveQuestion(ws: WebSocket, includeImage: boolean): void {
+    if (this.state.phase !== 'question' || !this.state.questionStartTime || !this.state.quiz) return;
+    const question = this.state.quiz.questions[this.state.currentQuestionIndex];
+    if (!question) return;
+
+    this.send(ws, {
+      type: 'question_start',
+      question: this.questionForPlayer(question, includeImage),
+      questionIndex: this.state.currentQuestionIndex,
+      totalQuestions: this.state.quiz.questions.length,
+      endsAt: this.state.questionEndsAt,
+    });
+    this.send(ws, this.questionTimerTick(question));
+  }
+
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    if (typeof data !== 'string') {
+      this.send(ws, { type: 'error', message: 'Invalid JSON' });
+      return;
+    }
+    this.handleMessage(ws, this.sessionOf(ws), data);
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    await this.handleClose(ws, this.sessionOf(ws));
     try {
-      message = JSON.parse(data);
+      ws.close(code, reason);
     } catch {
-      this.send(ws, { type: 'error', message: 'Invalid JSON' });
+      // Already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    await this.handleClose(ws, this.sessionOf(ws));
+  }
+
+  private sessionOf(ws: WebSocket): WebSocketSession {
+    return (ws.deserializeAttachment() as WebSocketSession | null) ?? { playerId: null, role: 'player', resumed: false, latencyProbe: null, rttSamples: [] };
+  }
+
+  // Sessions are copies of the socket's attachment, so changes have to be written back
+  private setSessionPlayer(ws: WebSocket, session: WebSocketSession, playerId: string | null): void {
+    session.playerId = playerId;
+    ws.serializeAttachment(session);
+  }
+
+  private handleMessage(ws: WebSocket, session: WebSocketSession, data: string): void {
+    const parsed = parseClientMessage(data);
+    if (!parsed.success) {
+      this.send(ws, { type: 'error', message: parsed.error });
       return;
     }
 
+    const message = parsed.message;
     switch (message.type) {
-      case 'host_create_quiz':
-        this.handleHostCreateQuiz(ws, session, message.quiz);
-        break;
       case 'host_start_game':
         this.handleHostStartGame(ws, session);
         break;
@@ -383,56 +639,59 @@ export class GameDurableObject extends DurableObject<Env> {
       case 'host_show_podium':
         this.handleHostShowPodium(ws, session);
         break;
+      case 'host_pause':
+        this.handleHostPause(ws, session);
+        break;
+      case 'host_resume':
+        this.handleHostResume(ws, session);
+        break;
+      case 'host_skip_question':
+        this.handleHostSkipQuestion(ws, session);
+        break;
+      case 'host_add_time':
+        this.handleHostAddTime(ws, session, message.seconds);
+        break;
+      case 'host_end_game':
+        this.handleHostEndGame(ws, session);
+        break;
+      case 'host_kick_player':
+        this.handleHostRemovePlayer(ws, session, message.playerId, false);
+        break;
+      case 'host_ban_player':
+        this.handleHostRemovePlayer(ws, session, message.playerId, true);
+        break;
+      case 'host_rename_player':
+        this.handleHostRenamePlayer(ws, session, message.playerId, message.nickname);
+        break;
+      case 'host_lock_lobby':
+        this.handleHostLockLobby(ws, session, message.locked);
+        break;
       case 'player_join':
-        this.handlePlayerJoin(ws, session, message.nickname);
+        this.handlePlayerJoin(ws, session, message.nickname, message.teamId, message.deviceId);
+        break;
+      case 'player_switch_team':
+        this.handlePlayerSwitchTeam(ws, session, message.teamId);
         break;
       case 'player_rejoin':
-        this.handlePlayerRejoin(ws, session, message.playerId, message.nickname);
+        this.handlePlayerRejoin(ws, session, message.playerId, message.nickname, message.rejoinToken, message.deviceId);
         break;
       case 'player_answer':
-        this.handlePlayerAnswer(ws, session, message.questionId, message.answerIndices);
+        this.handlePlayerAnswer(ws, session, message.questionId, message.answer, message.responseMs);
+        break;
+      case 'player_next_question':
+        this.handlePlayerNextQuestion(ws, session);
+        break;
+      case 'clock_sync':
+        this.send(ws, { type: 'clock_sync', clientTime: message.clientTime, serverTime: this.clock() });
+        break;
+      case 'latency_probe':
+        this.handleLatencyProbe(ws, session, message.nonce);
         break;
-      default:
-        this.send(ws, { type: 'error', message: 'Unknown message type' });
-    }
-  }
-
-  private async handleHostCreateQuiz(ws: WebSocket, session: WebSocketSession, quiz: Quiz): Promise<void> {
-    if (!session.isHost) {
-      this.send(ws, { type: 'error', message: 'Not authorized' });
-      return;
-    }
-
-    // Validate quiz structure
-    if (!quiz || !quiz.title || !Array.isArray(quiz.questions) || quiz.questions.length === 0) {
-      this.send(ws, { type: 'error', message: 'Invalid quiz: must have title and at least one question' });
-      return;
-    }
-
-    // Validate each question
-    for (const question of quiz.questions) {
-      if (!question.id || !question.text || !Array.isArray(question.answers) || question.answers.length !== 4) {
-        this.send(ws, { type: 'error', message: 'Invalid question: must have id, text, and 4 answers' });
-        return;
-      }
-      if (!Array.isArray(question.correctIndices) || question.correctIndices.length === 0 ||
-          question.correctIndices.some(i => i < 0 || i >= 4)) {
-        this.send(ws, { type: 'error', message: 'Invalid question: correctIndices must be valid indices 0-3' });
-        return;
-      }
-      if (![5, 10, 20, 30, 60].includes(question.timerSeconds)) {
-        this.send(ws, { type: 'error', message: 'Invalid question: timerSeconds must be 5, 10, 20, 30, or 60' });
-        return;
-      }
     }
-
-    this.state.quiz = quiz;
-    await this.saveState();
-    this.broadcast({ type: 'game_state', state: this.getPublicState() });
   }
 
-  private handleHostStartGame(ws: WebSocket, session: WebSocketSession): void {
-    if (!session.isHost) {
+  private async handleHostStartGame(ws: WebSocket, session: WebSocketSession): Promise<void> {
+    if (session.role !== 'host') {
       this.send(ws, { type: 'error', message: 'Not authorized' });
       return;
     }
@@ -440,6 +699,10 @@ export class GameDurableObject extends DurableObject<Env> {
       this.send(ws, { type: 'error', message: 'No quiz loaded' });
       return;
     }
+    if (this.state.mode === 'assignment') {
+      this.send(ws, { type: 'error', message: 'Assignments start as soon as they are published' });
+      return;
+    }
     // Check for connected players
     const connectedPlayers = Object.values(this.state.players).filter(p => p.connected);
     if (connectedPlayers.length === 0) {
@@ -450,11 +713,11 @@ export class GameDurableObject extends DurableObject<Env> {
     this.broadcast({ type: 'game_starting' });
 
     // Start first question after a short delay
-    setTimeout(() => this.startQuestion(0), 3000);
+    await this.schedule({ step: 'start_question', index: 0, at: this.clock() + QUESTION_DELAY_MS });
   }
 
   private handleHostNextQuestion(ws: WebSocket, session: WebSocketSession): void {
-    if (!session.isHost) {
+    if (session.role !== 'host') {
       this.send(ws, { type: 'error', message: 'Not authorized' });
       return;
     }
@@ -472,108 +735,438 @@ export class GameDurableObject extends DurableObject<Env> {
   }
 
   private handleHostShowLeaderboard(ws: WebSocket, session: WebSocketSession): void {
-    if (!session.isHost) {
+    if (session.role !== 'host') {
       this.send(ws, { type: 'error', message: 'Not authorized' });
       return;
     }
+    // Assignment players are on their own questions, so only the host's view updates
+    if (this.state.mode === 'assignment') {
+      this.send(ws, this.leaderboardUpdate());
+      return;
+    }
     this.showLeaderboard();
   }
 
   private handleHostShowPodium(ws: WebSocket, session: WebSocketSession): void {
-    if (!session.isHost) {
+    if (session.role !== 'host') {
       this.send(ws, { type: 'error', message: 'Not authorized' });
       return;
     }
+    // Ending an assignment before its deadline
+    if (this.state.mode === 'assignment') {
+      this.finishAssignment();
+      return;
+    }
     this.showPodium();
   }
 
+  private async handleHostPause(ws: WebSocket, session: WebSocketSession): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase !== 'question' || this.state.questionEndsAt === null) {
+      this.send(ws, { type: 'error', message: 'No running question to pause' });
+      return;
+    }
+    this.pausedByHost = true;
+    await this.pauseTimer();
+    this.broadcast({ type: 'game_paused', reason: 'Paused by the host' });
+  }
+
+  private async handleHostResume(ws: WebSocket, session: WebSocketSession): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase !== 'question' || !this.state.timerPaused) {
+      this.send(ws, { type: 'error', message: 'Game is not paused' });
+      return;
+    }
+    this.pausedByHost = false;
+    await this.resumeTimer();
+    this.broadcast({ type: 'game_resumed' });
+    // Answers still come in while paused, but only end the question once the timer runs again
+    this.checkAllPlayersAnswered();
+  }
+
+  private handleHostSkipQuestion(ws: WebSocket, session: WebSocketSession): void {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase !== 'question') {
+      this.send(ws, { type: 'error', message: 'No question to skip' });
+      return;
+    }
+    // Already ended and showing the answer
+    if (this.state.questionEndsAt === null && !this.state.timerPaused) {
+      this.send(ws, { type: 'error', message: 'Question has already ended' });
+      return;
+    }
+    this.endQuestion({ skipped: true });
+  }
+
+  private async handleHostAddTime(ws: WebSocket, session: WebSocketSession, seconds: number): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase !== 'question' || (this.state.questionEndsAt === null && !this.state.timerPaused)) {
+      this.send(ws, { type: 'error', message: 'No running question to add time to' });
+      return;
+    }
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_ADDED_SECONDS) {
+      this.send(ws, { type: 'error', message: `Add between 1 and ${MAX_ADDED_SECONDS} seconds` });
+      return;
+    }
+
+    // Scoring still measures speed against the question's own timer
+    if (this.state.timerPaused) {
+      this.state.pausedAtSecondsLeft = (this.state.pausedAtSecondsLeft ?? 0) + seconds;
+    } else if (this.state.questionEndsAt !== null) {
+      this.state.questionEndsAt += seconds * 1000;
+    }
+    await this.saveState();
+    await this.scheduleAlarm();
+    const question = this.state.quiz?.questions[this.state.currentQuestionIndex];
+    if (question) {
+      this.broadcast(this.questionTimerTick(question));
+    }
+  }
+
+  // Straight to the podium; a question in progress is skipped
+  private async handleHostEndGame(ws: WebSocket, session: WebSocketSession): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.mode === 'assignment' && this.state.phase === 'assignment') {
+      this.finishAssignment();
+    } else if (this.state.phase === 'question' && this.pendingStep?.step === 'show_leaderboard') {
+      // The question is already over: go to the podium instead of the leaderboard
+      await this.schedule({ step: 'show_podium', at: this.pendingStep.at });
+    } else if (this.state.phase === 'question') {
+      this.endQuestion({ skipped: true, finishGame: true });
+    } else if (this.state.phase === 'leaderboard') {
+      this.showPodium();
+    } else {
+      this.send(ws, { type: 'error', message: this.state.phase === 'lobby' ? 'Game has not started' : 'Game is already over' });
+    }
+  }
+
+  // Kick a player, or ban them so neither their nickname nor their device can join again
+  private async handleHostRemovePlayer(ws: WebSocket, session: WebSocketSession, playerId: string, ban: boolean): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase === 'podium' || this.state.phase === 'finished') {
+      this.send(ws, { type: 'error', message: 'Game is already over' });
+      return;
+    }
+    const player = this.state.players[playerId];
+    if (!player) {
+      this.send(ws, { type: 'error', message: 'Player not found' });
+      return;
+    }
+
+    if (ban) {
+      this.bans.nicknames.push(player.nickname.toLowerCase());
+      if (this.deviceIds[playerId]) {
+        this.bans.deviceIds.push(this.deviceIds[playerId]);
+      }
+    }
+    delete this.state.players[playerId];
+    delete this.rejoinTokens[playerId];
+    delete this.deviceIds[playerId];
+    this.ctx.storage.sql.exec('DELETE FROM players WHERE id = ?', playerId);
+    await this.saveState();
+
+    // Detach the sockets first so closing them doesn't count as a disconnect
+    const reason = ban ? 'You have been banned from this game' : 'You have been removed from the game';
+    for (const playerWs of this.ctx.getWebSockets('player')) {
+      const playerSession = this.sessionOf(playerWs);
+      if (playerSession.playerId === playerId) {
+        this.setSessionPlayer(playerWs, playerSession, null);
+        playerWs.close(WS_CLOSE_REMOVED, reason);
+      }
+    }
+
+    const playerCount = Object.values(this.state.players).filter((p) => p.connected).length;
+    this.broadcast({ type: 'player_removed', playerId, playerCount });
+
+    if (this.state.phase === 'question') {
+      this.checkAllPlayersAnswered();
+    } else if (this.state.phase === 'leaderboard') {
+      this.broadcast(this.leaderboardUpdate());
+    } else if (this.state.phase === 'assignment') {
+      this.sendToPresenters(this.leaderboardUpdate());
+    }
+  }
+
+  private async handleHostRenamePlayer(ws: WebSocket, session: WebSocketSession, playerId: string, nickname: string): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    if (this.state.phase === 'podium' || this.state.phase === 'finished') {
+      this.send(ws, { type: 'error', message: 'Game is already over' });
+      return;
+    }
+    const player = this.state.players[playerId];
+    if (!player) {
+      this.send(ws, { type: 'error', message: 'Player not found' });
+      return;
+    }
+    const name = cleanNickname(nickname);
+    const nicknameError = this.nicknameError(name, playerId);
+    if (nicknameError) {
+      this.send(ws, { type: 'error', message: nicknameError });
+      return;
+    }
+
+    player.nickname = name;
+    await this.saveState();
+    this.broadcast({ type: 'player_renamed', playerId, nickname: player.nickname });
+  }
+
+  private async handleHostLockLobby(ws: WebSocket, session: WebSocketSession, locked: boolean): Promise<void> {
+    if (session.role !== 'host') {
+      this.send(ws, { type: 'error', message: 'Not authorized' });
+      return;
+    }
+    this.state.settings = { ...this.state.settings, lobbyLocked: locked };
+    await this.saveState();
+    this.broadcast({ type: 'settings_changed', settings: this.state.settings });
+  }
+
+  // Why a new player can't join right now, worded for them; null if they can
+  private joinRefusal(): string | null {
+    if (this.state.mode === 'assignment') {
+      if (!this.isAssignmentOpen()) return 'This assignment has closed';
+    } else if (this.state.phase === 'podium' || this.state.phase === 'finished') {
+      return 'This game has ended';
+    } else if (this.state.phase !== 'lobby' && this.state.settings.lateJoin === 'off') {
+      return 'Game already in progress';
+    }
+    if (this.state.settings.lobbyLocked) {
+      return 'The host has locked this game';
+    }
+    const { maxPlayers } = this.state.settings;
+    if (Object.keys(this.state.players).length >= maxPlayers) {
+      return `Game is full (max ${maxPlayers} player${maxPlayers !== 1 ? 's' : ''})`;
+    }
+    return null;
+  }
+
+  // Late joiners start at 0, or with lateJoin 'median' at the middle of the current scores
+  private lateJoinScore(): number {
+    if (this.state.mode === 'assignment' || this.state.phase === 'lobby' || this.state.settings.lateJoin !== 'median') {
+      return 0;
+    }
+    const scores = Object.values(this.state.players).map((p) => p.score).sort((a, b) => a - b);
+    if (scores.length === 0) return 0;
+    const middle = Math.floor(scores.length / 2);
+    return scores.length % 2 === 1 ? scores[middle] : Math.round((scores[middle - 1] + scores[middle]) / 2);
+  }
+
+  // Length and uniqueness; playerId is the player being renamed, who may keep their own name
+  private nicknameError(nickname: string, playerId?: string): string | null {
+    if (!nickname || nickname.trim().length === 0 || nickname.trim().length > 50) {
+      return 'Invalid nickname (must be 1-50 characters)';
+    }
+    const taken = Object.values(this.state.players).some(
+      (p) => p.id !== playerId && p.nickname.toLowerCase() === nickname.toLowerCase().trim()
+    );
+    return taken ? 'Nickname already taken' : null;
+  }
+
+  private banReason(nickname: string, deviceId: string | undefined): string | null {
+    if (this.isValidDeviceId(deviceId) && this.bans.deviceIds.includes(deviceId)) {
+      return 'You have been banned from this game';
+    }
+    if (typeof nickname === 'string' && this.bans.nicknames.includes(nickname.toLowerCase().trim())) {
+      return 'That nickname is not allowed in this game';
+    }
+    return null;
+  }
+
+  private isValidDeviceId(deviceId: unknown): deviceId is string {
+    return typeof deviceId === 'string' && deviceId.length > 0 && deviceId.length <= MAX_DEVICE_ID_LENGTH;
+  }
+
   private async showPodium(): Promise<void> {
     this.state.phase = 'podium';
     await this.saveState();
     const leaderboard = this.calculateLeaderboard();
+    await this.saveResults(leaderboard);
 
     // Reveal podium positions with delays
-    setTimeout(() => {
-      this.broadcast({ type: 'podium_reveal', position: 3, player: leaderboard[2] ?? null });
-    }, 1000);
+    await this.schedule({ step: 'podium_reveal', position: 3, at: this.clock() + PODIUM_FIRST_DELAY_MS });
+  }
 
-    setTimeout(() => {
-      this.broadcast({ type: 'podium_reveal', position: 2, player: leaderboard[1] ?? null });
-    }, 3000);
+  // 3rd, then 2nd, then 1st place; the game is finished once the winner is shown
+  private async revealPodiumPosition(position: 1 | 2 | 3): Promise<void> {
+    if (this.state.phase !== 'podium') return;
+    const leaderboard = this.calculateLeaderboard();
+    this.podiumReveal(position, leaderboard).forEach((message) => this.broadcast(message));
 
-    setTimeout(async () => {
-      this.broadcast({ type: 'podium_reveal', position: 1, player: leaderboard[0] ?? null });
-      this.state.phase = 'finished';
-      await this.saveState(); // Persist finished phase
-      this.broadcast({ type: 'game_finished', finalLeaderboard: leaderboard });
-    }, 5000);
+    if (position > 1) {
+      await this.schedule({ step: 'podium_reveal', position: (position - 1) as 1 | 2, at: this.clock() + PODIUM_STEP_MS });
+      return;
+    }
+    this.state.phase = 'finished';
+    await this.saveState(); // Persist finished phase
+    this.broadcast(this.gameFinished(leaderboard));
   }
 
-  private async handlePlayerJoin(ws: WebSocket, session: WebSocketSession, nickname: string): Promise<void> {
-    if (session.isHost) {
-      this.send(ws, { type: 'error', message: 'Host cannot join as player' });
+  // Keep the results in D1 once the PIN and this object's storage are gone
+  private async saveResults(leaderboard: LeaderboardEntry[]): Promise<void> {
+    if (!this.gameId || !this.hostId || !this.state.quiz) return;
+    try {
+      await saveGameResults(this.env, {
+        gameId: this.gameId,
+        hostId: this.hostId,
+        quiz: this.state.quiz,
+        players: Object.values(this.state.players),
+        leaderboard,
+        finishedAt: this.clock(),
+      });
+    } catch (error) {
+      // The podium still goes ahead; the host just won't find this game in reports
+      console.error('Failed to save game results:', error);
+    }
+  }
+
+  private async handlePlayerJoin(
+    ws: WebSocket,
+    session: WebSocketSession,
+    nickname: string,
+    teamId?: string,
+    deviceId?: string
+  ): Promise<void> {
+    if (session.role !== 'player') {
+      this.send(ws, { type: 'error', message: `${session.role === 'host' ? 'Host' : 'Spectators'} cannot join as player` });
       return;
     }
-    if (this.state.phase !== 'lobby') {
-      this.send(ws, { type: 'error', message: 'Game already in progress' });
+    const refusal = this.joinRefusal();
+    if (refusal) {
+      this.send(ws, { type: 'error', message: refusal });
       return;
     }
-    if (!nickname || nickname.trim().length === 0 || nickname.trim().length > 50) {
-      this.send(ws, { type: 'error', message: 'Invalid nickname (must be 1-50 characters)' });
+    // Generated names: whatever was typed is ignored
+    const name = this.state.settings.nicknameMode === 'generated'
+      ? generateNickname(Object.values(this.state.players).map((p) => p.nickname))
+      : cleanNickname(nickname);
+
+    const banned = this.banReason(name, deviceId);
+    if (banned) {
+      this.send(ws, { type: 'error', message: banned });
       return;
     }
 
-    // Check player count limit
-    if (Object.keys(this.state.players).length >= MAX_PLAYERS) {
-      this.send(ws, { type: 'error', message: 'Game is full (max 200 players)' });
+    const nicknameError = this.nicknameError(name);
+    if (nicknameError) {
+      this.send(ws, { type: 'error', message: nicknameError });
       return;
     }
-
-    // Check for duplicate nicknames
-    const existingNicknames = Object.values(this.state.players).map((p) => p.nickname.toLowerCase());
-    if (existingNicknames.includes(nickname.toLowerCase().trim())) {
-      this.send(ws, { type: 'error', message: 'Nickname already taken' });
+    if (this.state.settings.nicknameMode === 'filter' && !isNicknameAllowed(name, this.blockedWords)) {
+      this.send(ws, { type: 'error', message: 'That nickname is not allowed. Please choose another.' });
       return;
     }
 
+    // Team mode: join the chosen team, or the smallest one
+    const players = Object.values(this.state.players);
+    const team = this.state.teamMode
+      ? this.state.teamMode.teams.find((t) => t.id === teamId) ?? smallestTeam(this.state.teamMode, players)
+      : null;
+
     const playerId = this.generateId();
     const player: Player = {
       id: playerId,
-      nickname: nickname.trim(),
-      score: 0,
+      nickname: name,
+      score: this.lateJoinScore(),
       answers: {},
       connected: true,
+      progress: this.state.mode === 'assignment' ? { questionIndex: 0, questionStartTime: null, finished: false } : null,
+      teamId: team?.id ?? null,
     };
 
-    session.playerId = playerId;
+    this.setSessionPlayer(ws, session, playerId);
     this.state.players[playerId] = player;
+    this.rejoinTokens[playerId] = generateToken();
+    if (this.isValidDeviceId(deviceId)) {
+      this.deviceIds[playerId] = deviceId;
+    }
     await this.saveState(); // Persist new player
 
+    // Only the joining socket learns the rejoin secret
+    this.send(ws, { type: 'player_session', playerId, rejoinToken: this.rejoinTokens[playerId] });
+
     const playerCount = Object.keys(this.state.players).length;
-    this.broadcast({ type: 'player_joined', player, playerCount });
-    this.send(ws, { type: 'game_state', state: this.getPublicState() });
+    this.broadcast({ type: 'player_joined', player: toPublicPlayer(player), playerCount });
+    this.send(ws, this.gameStateMessage(session));
+    // A late joiner can answer the question already running
+    this.sendLiveQuestion(ws, false);
+
+    if (player.progress) {
+      this.send(ws, { type: 'assignment_progress', progress: player.progress });
+      this.sendToPresenters(this.leaderboardUpdate());
+    }
+  }
+
+  private async handlePlayerSwitchTeam(ws: WebSocket, session: WebSocketSession, teamId: string): Promise<void> {
+    const player = session.playerId ? this.state.players[session.playerId] : undefined;
+    if (!player) {
+      this.send(ws, { type: 'error', message: 'Not joined as player' });
+      return;
+    }
+    if (!this.state.teamMode || this.state.phase !== 'lobby') {
+      this.send(ws, { type: 'error', message: 'Teams can only be changed in the lobby' });
+      return;
+    }
+    if (!this.state.teamMode.teams.some((team) => team.id === teamId)) {
+      this.send(ws, { type: 'error', message: 'Unknown team' });
+      return;
+    }
+
+    player.teamId = teamId;
+    await this.saveState();
+    this.broadcast({ type: 'player_team_changed', playerId: player.id, teamId });
   }
 
   private async handlePlayerRejoin(
     ws: WebSocket,
     session: WebSocketSession,
     playerId: string,
-    nickname: string
+    nickname: string,
+    rejoinToken: string,
+    deviceId?: string
   ): Promise<void> {
-    if (session.isHost) {
-      this.send(ws, { type: 'error', message: 'Host cannot rejoin as player' });
+    if (session.role !== 'player') {
+      this.send(ws, { type: 'error', message: `${session.role === 'host' ? 'Host' : 'Spectators'} cannot rejoin as player` });
+      return;
+    }
+
+    // A banned player's record is gone, but check before falling back to a fresh join too
+    const banned = this.banReason(nickname, deviceId);
+    if (banned) {
+      this.send(ws, { type: 'error', message: banned });
       return;
     }
 
     // Check if player exists
     const existingPlayer = this.state.players[playerId];
     if (!existingPlayer) {
-      // Player doesn't exist - fall back to regular join if in lobby
-      if (this.state.phase === 'lobby') {
-        this.handlePlayerJoin(ws, session, nickname);
-      } else {
-        this.send(ws, { type: 'error', message: 'Player not found. Game already in progress.' });
-      }
+      // Player doesn't exist - fall back to a regular join, which says why if the game is closed
+      this.handlePlayerJoin(ws, session, nickname, undefined, deviceId);
+      return;
+    }
+
+    // The rejoin secret proves this is the device that originally joined
+    if (!tokensMatch(this.rejoinTokens[playerId] ?? null, rejoinToken)) {
+      this.send(ws, { type: 'error', message: 'Invalid session. Please join again.' });
       return;
     }
 
@@ -584,60 +1177,80 @@ export class GameDurableObject extends DurableObject<Env> {
     }
 
     // Reconnect the player
-    session.playerId = playerId;
+    this.setSessionPlayer(ws, session, playerId);
     existingPlayer.connected = true;
     await this.saveState();
 
+    this.send(ws, { type: 'player_session', playerId, rejoinToken: this.rejoinTokens[playerId] });
+
     const connectedCount = Object.values(this.state.players).filter(p => p.connected).length;
-    this.broadcast({ type: 'player_rejoined', player: existingPlayer, playerCount: connectedCount });
-    this.send(ws, { type: 'game_state', state: this.getPublicState() });
+    this.broadcast({ type: 'player_rejoined', player: toPublicPlayer(existingPlayer), playerCount: connectedCount });
 
-    // If game is in question phase, send current question
-    if (this.state.phase === 'question' && this.state.quiz) {
-      const question = this.state.quiz.questions[this.state.currentQuestionIndex];
-      if (question) {
-        const questionForPlayer: QuestionForPlayer = {
-          id: question.id,
-          text: question.text,
-          answers: question.answers,
-          timerSeconds: question.timerSeconds,
-          doublePoints: question.doublePoints,
-          multipleChoice: question.correctIndices.length > 1,
-        };
+    // A socket that resumed from the replay log is already up to date
+    if (!session.resumed) {
+      this.send(ws, this.gameStateMessage(session));
 
-        // Calculate remaining time
-        const elapsed = this.state.questionStartTime 
-          ? Math.floor((Date.now() - this.state.questionStartTime) / 1000)
-          : 0;
-        const secondsLeft = Math.max(0, question.timerSeconds - elapsed);
+      // If game is in question phase, send current question
+      this.sendLiveQuestion(ws, false);
 
-        this.send(ws, {
-          type: 'question_start',
-          question: questionForPlayer,
-          questionIndex: this.state.currentQuestionIndex,
-          totalQuestions: this.state.quiz.questions.length,
-        });
-        this.send(ws, { type: 'timer_tick', secondsLeft });
+      // If game is in leaderboard phase, send leaderboard
+      if (this.state.phase === 'leaderboard') {
+        this.send(ws, this.leaderboardUpdate());
       }
     }
 
-    // If game is in leaderboard phase, send leaderboard
-    if (this.state.phase === 'leaderboard') {
-      const leaderboard = this.calculateLeaderboard();
-      this.send(ws, { type: 'leaderboard_update', leaderboard });
+    // Assignment players pick up where they left off, mid-question if their timer is still running
+    if (this.state.phase === 'assignment') {
+      this.sendAssignmentProgress(ws, existingPlayer);
     }
   }
 
+  // Time a round trip ourselves: the client can't echo a nonce before it arrives, and holding an
+  // echo back only slows that one sample down, which the fastest of the others outweighs
+  private sendLatencyProbe(ws: WebSocket, session: WebSocketSession): void {
+    session.latencyProbe = { nonce: crypto.randomUUID(), sentAt: this.clock() };
+    ws.serializeAttachment(session);
+    this.send(ws, { type: 'latency_probe', nonce: session.latencyProbe.nonce });
+  }
+
+  private handleLatencyProbe(ws: WebSocket, session: WebSocketSession, nonce: string): void {
+    const probe = session.latencyProbe;
+    if (!probe || probe.nonce !== nonce) return; // Not the one we're waiting on
+
+    session.latencyProbe = null;
+    session.rttSamples = [...session.rttSamples, this.clock() - probe.sentAt];
+    ws.serializeAttachment(session);
+    if (session.rttSamples.length < LATENCY_PROBES) {
+      this.sendLatencyProbe(ws, session);
+    }
+  }
+
+  // When the player answered, in server time. Their own measure of how long the question was on
+  // screen takes network delay out of the score, but it can't claim more than the fastest round
+  // trip we timed, so a slow or lying clock gains nothing beyond that.
+  private answerTimestamp(session: WebSocketSession, questionStartTime: number, responseMs: number | undefined): number {
+    const now = this.clock();
+    if (responseMs === undefined) return now;
+    const rttMs = session.rttSamples.length >= MIN_LATENCY_SAMPLES ? Math.min(...session.rttSamples) : 0;
+    const allowance = Math.min(rttMs, MAX_LATENCY_ALLOWANCE_MS);
+    return Math.min(now, Math.max(now - allowance, questionStartTime + responseMs));
+  }
+
   private handlePlayerAnswer(
     ws: WebSocket,
     session: WebSocketSession,
     questionId: string,
-    answerIndices: number[]
+    answer: AnswerValue,
+    responseMs: number | undefined
   ): void {
     if (!session.playerId) {
       this.send(ws, { type: 'error', message: 'Not joined as player' });
       return;
     }
+    if (this.state.mode === 'assignment') {
+      this.handleAssignmentAnswer(ws, session, questionId, answer, responseMs);
+      return;
+    }
     if (this.state.phase !== 'question') {
       this.send(ws, { type: 'error', message: 'Not in question phase' });
       return;
@@ -652,11 +1265,9 @@ export class GameDurableObject extends DurableObject<Env> {
       return;
     }
 
-    // Validate answer indices
-    if (!Array.isArray(answerIndices) || 
-        answerIndices.length === 0 ||
-        answerIndices.some(i => typeof i !== 'number' || i < 0 || i >= 4)) {
-      this.send(ws, { type: 'error', message: 'Invalid answer indices' });
+    // Validate the answer's shape against the question type
+    if (!isValidAnswer(currentQuestion, answer)) {
+      this.send(ws, { type: 'error', message: 'Invalid answer' });
       return;
     }
 
@@ -667,9 +1278,11 @@ export class GameDurableObject extends DurableObject<Env> {
     }
 
     player.answers[questionId] = {
-      answerIndices,
-      timestamp: Date.now(),
+      ...this.toStoredAnswer(questionId, answer),
+      timestamp: this.answerTimestamp(session, this.state.questionStartTime ?? this.clock(), responseMs),
     };
+    // Persist before acknowledging: the object can be evicted before the question ends
+    this.savePlayerAnswers(player);
 
     this.broadcast({ type: 'answer_received', playerId: session.playerId });
 
@@ -677,6 +1290,18 @@ export class GameDurableObject extends DurableObject<Env> {
     this.checkAllPlayersAnswered();
   }
 
+  // Players order the shuffled list they were shown; store the answer in item indices
+  private toStoredAnswer(questionId: string, answer: AnswerValue): AnswerValue {
+    const itemOrder = this.state.itemOrders[questionId];
+    return answer.kind === 'order' && itemOrder
+      ? { kind: 'order', order: answer.order.map((position) => itemOrder[position]) }
+      : answer;
+  }
+
+  private questionForPlayer(question: Question, includeImage: boolean): QuestionForPlayer {
+    return toQuestionForPlayer(question, includeImage, this.state.itemOrders[question.id]);
+  }
+
   private async startQuestion(index: number): Promise<void> {
     if (!this.state.quiz) return;
 
@@ -685,51 +1310,31 @@ export class GameDurableObject extends DurableObject<Env> {
 
     this.state.phase = 'question';
     this.state.currentQuestionIndex = index;
-    this.state.questionStartTime = Date.now();
+    this.state.questionStartTime = this.clock();
+    this.state.questionEndsAt = this.state.questionStartTime + question.timerSeconds * 1000;
     await this.saveState(); // Persist question start
 
-    // Send question to players (no image - they look at presenter screen)
-    const questionForPlayer: QuestionForPlayer = {
-      id: question.id,
-      text: question.text,
-      answers: question.answers,
-      timerSeconds: question.timerSeconds,
-      doublePoints: question.doublePoints,
-      multipleChoice: question.correctIndices.length > 1,
-    };
-
-    // Send question to host with image
-    const questionForHost: QuestionForPlayer = {
-      ...questionForPlayer,
-      imageUrl: question.imageUrl,
-    };
+    // Send question to players (no image - they look at presenter screen), host gets the image
+    const questionForPlayer = this.questionForPlayer(question, false);
+    const questionForHost = this.questionForPlayer(question, true);
 
     // Send to each session based on role
-    for (const [ws, session] of this.sessions) {
-      this.send(ws, {
-        type: 'question_start',
-        question: session.isHost ? questionForHost : questionForPlayer,
-        questionIndex: index,
-        totalQuestions: this.state.quiz.questions.length,
-      });
+    const totalQuestions = this.state.quiz.questions.length;
+    const endsAt = this.state.questionEndsAt;
+    const hostMessage: ServerMessage = { type: 'question_start', question: questionForHost, questionIndex: index, totalQuestions, endsAt };
+    const playerMessage: ServerMessage = { type: 'question_start', question: questionForPlayer, questionIndex: index, totalQuestions, endsAt };
+    const seq = this.logEvent(hostMessage, playerMessage);
+    for (const ws of this.ctx.getWebSockets()) {
+      this.send(ws, { ...(this.sessionOf(ws).role === 'player' ? playerMessage : hostMessage), seq });
     }
 
     // Start timer countdown
-    this.currentSecondsLeft = question.timerSeconds;
-    this.timerInterval = setInterval(() => {
-      this.currentSecondsLeft--;
-      if (this.currentSecondsLeft > 0) {
-        this.broadcast({ type: 'timer_tick', secondsLeft: this.currentSecondsLeft });
-      } else {
-        this.endQuestion();
-      }
-    }, 1000) as unknown as number;
+    await this.scheduleAlarm();
   }
 
   private checkAllPlayersAnswered(): void {
     if (this.state.phase !== 'question') return;
-    if (!this.timerInterval) return; // Already ended
-    if (this.state.timerPaused) return; // Don't check while paused
+    if (this.state.questionEndsAt === null) return; // Already ended, or paused
 
     const currentQuestion = this.state.quiz?.questions[this.state.currentQuestionIndex];
     if (!currentQuestion) return;
@@ -745,69 +1350,73 @@ export class GameDurableObject extends DurableObject<Env> {
     }
   }
 
-  private async endQuestion(): Promise<void> {
+  // skipped: the host skipped the question, so nobody scores it. finishGame: go to the podium next.
+  private async endQuestion({ skipped = false, finishGame = false }: { skipped?: boolean; finishGame?: boolean } = {}): Promise<void> {
     // Guard against double execution with atomic flag
     if (this.questionEnding) return;
     if (this.state.phase !== 'question') return;
-    
+    // Already ended and waiting for the leaderboard
+    if (this.state.questionEndsAt === null && !this.state.timerPaused) return;
+    const question = this.state.quiz?.questions[this.state.currentQuestionIndex];
+    if (!question || !this.state.questionStartTime) return;
+
     this.questionEnding = true;
-    
-    if (this.timerInterval) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
+    this.state.questionEndsAt = null;
+
+    // Skipping or ending while paused: the question is over, so the pause is too
+    if (this.state.timerPaused) {
+      this.state.timerPaused = false;
+      this.state.pausedAtSecondsLeft = null;
+      this.pausedByHost = false;
+      this.broadcast({ type: 'game_resumed' });
     }
 
-    const question = this.state.quiz?.questions[this.state.currentQuestionIndex];
-    if (!question || !this.state.questionStartTime) {
-      return;
-    }
+    // Summarise how players answered (distribution, typed answers or slider values)
+    const answers = Object.values(this.state.players)
+      .map((player) => player.answers[question.id])
+      .filter((answer) => answer !== undefined);
 
-    // Calculate scores - faster answers get more points
-    const maxPoints = question.doublePoints ? 2000 : 1000;
-    const timeWindow = question.timerSeconds * 1000;
+    if (skipped) {
+      // Nobody scores a skipped question; dropping the answers keeps it out of streaks and results
+      this.state.skippedQuestionIds.push(question.id);
+      for (const player of Object.values(this.state.players)) {
+        delete player.answers[question.id];
+      }
+    }
 
     for (const player of Object.values(this.state.players)) {
       const answer = player.answers[question.id];
       if (answer) {
-        const playerAnswers = new Set(answer.answerIndices);
-        const correctAnswers = new Set(question.correctIndices);
-        const isCorrect = 
-          playerAnswers.size === correctAnswers.size &&
-          [...playerAnswers].every(a => correctAnswers.has(a));
-        
-        if (isCorrect) {
-          const responseTime = answer.timestamp - this.state.questionStartTime!;
-          const timeBonus = Math.max(0, 1 - responseTime / timeWindow);
-          const points = Math.round(maxPoints * (0.5 + 0.5 * timeBonus));
-          player.score += points;
-        }
+        player.score += this.scoreAnswer(player.answers, answer, this.state.currentQuestionIndex, this.state.questionStartTime);
       }
     }
 
-    await this.saveState(); // Persist scores after question
-    const scores = this.calculateLeaderboard();
-    
-    // Calculate answer distribution (how many players chose each answer)
-    const answerDistribution = [0, 0, 0, 0];
-    for (const player of Object.values(this.state.players)) {
-      const answer = player.answers[question.id];
-      if (answer) {
-        // Count each selected answer index
-        for (const answerIndex of answer.answerIndices) {
-          if (answerIndex >= 0 && answerIndex < 4) {
-            answerDistribution[answerIndex]++;
-          }
+    // Consensus teams answer once: score each team's most common answer
+    if (this.state.teamMode?.scoring === 'consensus' && !skipped) {
+      for (const team of this.state.teamMode.teams) {
+        const answer = consensusAnswer(
+          Object.values(this.state.players)
+            .filter((player) => player.teamId === team.id)
+            .map((player) => player.answers[question.id])
+            .filter((a) => a !== undefined)
+        );
+        if (answer) {
+          team.answers[question.id] = answer;
+          team.score += this.scoreAnswer(team.answers, answer, this.state.currentQuestionIndex, this.state.questionStartTime);
         }
       }
     }
+
+    await this.saveState(); // Persist scores after question
+    const scores = this.calculateLeaderboard();
     
     this.broadcast({ 
       type: 'question_end', 
-      correctIndices: question.correctIndices, 
       scores,
-      answerDistribution,
+      teamScores: this.teamLeaderboard(scores),
       questionText: question.text,
-      answers: question.answers
+      reveal: buildAnswerReveal(question, answers),
+      skipped,
     });
 
     // Reset the flag - question has ended
@@ -816,23 +1425,58 @@ export class GameDurableObject extends DurableObject<Env> {
     // Check if this was the last question
     const isLastQuestion = this.state.currentQuestionIndex >= (this.state.quiz?.questions.length ?? 0) - 1;
 
-    if (isLastQuestion) {
-      // Skip leaderboard, go directly to podium after delay
-      setTimeout(() => this.showPodium(), 3000);
-    } else {
-      // Show leaderboard for non-final questions
-      setTimeout(() => this.showLeaderboard(), 3000);
+    // Skip the leaderboard after the final question and go directly to the podium
+    const at = this.clock() + REVEAL_DELAY_MS;
+    await this.schedule(isLastQuestion || finishGame ? { step: 'show_podium', at } : { step: 'show_leaderboard', at });
+  }
+
+  // Score with the quiz's strategy; points are kept on the answer for the leaderboard
+  // answers are the player's (or consensus team's) earlier answers, for the streak. Returns the points.
+  private scoreAnswer(answers: Record<string, PlayerAnswer>, answer: PlayerAnswer, questionIndex: number, questionStartTime: number): number {
+    const question = this.state.quiz?.questions[questionIndex];
+    if (!question) return 0;
+    answer.responseMs = answer.timestamp - questionStartTime;
+    answer.points = getScoringStrategy(this.state.quiz?.scoring).score({
+      question,
+      answer,
+      questionStartTime,
+      streak: this.answerStreak(answers, questionIndex),
+    });
+    return answer.points;
+  }
+
+  // Scored questions the player got right in a row before the given one; polls don't break a streak
+  private answerStreak(answers: Record<string, PlayerAnswer>, questionIndex: number): number {
+    const questions = this.state.quiz?.questions ?? [];
+    let streak = 0;
+    for (let i = questionIndex - 1; i >= 0; i--) {
+      if (!isScored(questions[i]) || this.state.skippedQuestionIds.includes(questions[i].id)) continue;
+      if (!isAnswerCorrect(questions[i], answers[questions[i].id])) break;
+      streak++;
     }
+    return streak;
+  }
+
+  // Seconds left on the live question, from the running or paused timer
+  private questionSecondsLeft(question: Question): number {
+    if (this.state.timerPaused) return this.state.pausedAtSecondsLeft ?? 0;
+    if (this.state.questionEndsAt !== null) return secondsUntil(this.state.questionEndsAt, this.clock());
+    return this.secondsLeft(question, this.state.questionStartTime ?? this.clock());
+  }
+
+  // Clients count down to endsAt on their synced clock; secondsLeft is for a paused timer, which has no end yet
+  private questionTimerTick(question: Question): ServerMessage {
+    return { type: 'timer_tick', secondsLeft: this.questionSecondsLeft(question), endsAt: this.state.questionEndsAt };
   }
 
   private async pauseTimer(): Promise<void> {
-    if (!this.timerInterval) return;
+    if (this.state.questionEndsAt === null) return;
     
-    clearInterval(this.timerInterval);
-    this.timerInterval = null;
     this.state.timerPaused = true;
-    this.state.pausedAtSecondsLeft = this.currentSecondsLeft;
+    this.state.pausedAtSecondsLeft = secondsUntil(this.state.questionEndsAt, this.clock());
+    this.state.questionEndsAt = null;
     await this.saveState();
+    await this.scheduleAlarm();
   }
 
   private async resumeTimer(): Promise<void> {
@@ -847,28 +1491,270 @@ export class GameDurableObject extends DurableObject<Env> {
     
     this.state.timerPaused = false;
     this.state.pausedAtSecondsLeft = null;
-    await this.saveState();
-    
     // Resume timer from where it left off
-    this.currentSecondsLeft = secondsLeft;
-    this.timerInterval = setInterval(() => {
-      this.currentSecondsLeft--;
-      if (this.currentSecondsLeft > 0) {
-        this.broadcast({ type: 'timer_tick', secondsLeft: this.currentSecondsLeft });
-      } else {
-        this.endQuestion();
-      }
-    }, 1000) as unknown as number;
+    this.state.questionEndsAt = this.clock() + secondsLeft * 1000;
+    await this.saveState();
+    await this.scheduleAlarm();
     
     // Send immediate timer tick to show resumed time
-    this.broadcast({ type: 'timer_tick', secondsLeft: this.currentSecondsLeft });
+    this.broadcast({ type: 'timer_tick', secondsLeft, endsAt: this.state.questionEndsAt });
   }
 
   private async showLeaderboard(): Promise<void> {
     this.state.phase = 'leaderboard';
     await this.saveState(); // Persist phase
+    this.broadcast(this.leaderboardUpdate());
+  }
+
+  // ============== Assignment Mode ==============
+  // Players answer at their own pace until the deadline. Each player's question and timer
+  // live in their progress; the leaderboard is shared and updates for the host as they go.
+
+  private isAssignmentOpen(): boolean {
+    return this.state.phase === 'assignment' && this.state.deadline !== null && this.clock() < this.state.deadline;
+  }
+
+  private async handlePlayerNextQuestion(ws: WebSocket, session: WebSocketSession): Promise<void> {
+    if (!session.playerId) {
+      this.send(ws, { type: 'error', message: 'Not joined as player' });
+      return;
+    }
+    if (!this.isAssignmentOpen()) {
+      this.send(ws, { type: 'error', message: 'This assignment has closed' });
+      return;
+    }
+
+    const player = this.state.players[session.playerId];
+    const progress = player?.progress;
+    if (!player || !progress) return;
+    if (progress.finished) {
+      this.send(ws, { type: 'error', message: 'You have answered every question' });
+      return;
+    }
+    if (progress.questionStartTime) {
+      this.send(ws, { type: 'error', message: 'Finish this question first' });
+      return;
+    }
+
+    progress.questionStartTime = this.clock();
+    await this.saveState();
+    this.sendAssignmentProgress(ws, player);
+    await this.scheduleAlarm();
+  }
+
+  // The player's current question (with its image - there is no presenter screen) and time left
+  private sendAssignmentProgress(ws: WebSocket, player: Player): void {
+    const progress = player.progress;
+    if (!progress || !this.state.quiz) return;
+
+    const question = this.state.quiz.questions[progress.questionIndex];
+    if (question && progress.questionStartTime) {
+      this.send(ws, {
+        type: 'question_start',
+        question: this.questionForPlayer(question, true),
+        questionIndex: progress.questionIndex,
+        totalQuestions: this.state.quiz.questions.length,
+        endsAt: this.questionDeadline(question, progress.questionStartTime),
+      });
+      this.send(ws, this.assignmentTimerTick(question, progress.questionStartTime));
+    }
+    this.send(ws, { type: 'assignment_progress', progress });
+  }
+
+  private secondsLeft(question: Question, questionStartTime: number): number {
+    const elapsed = Math.floor((this.clock() - questionStartTime) / 1000);
+    return Math.max(0, question.timerSeconds - elapsed);
+  }
+
+  private questionDeadline(question: Question, questionStartTime: number): number {
+    return questionStartTime + question.timerSeconds * 1000;
+  }
+
+  private assignmentTimerTick(question: Question, questionStartTime: number): Extract<ServerMessage, { type: 'timer_tick' }> {
+    return {
+      type: 'timer_tick',
+      secondsLeft: this.secondsLeft(question, questionStartTime),
+      endsAt: this.questionDeadline(question, questionStartTime),
+    };
+  }
+
+  private handleAssignmentAnswer(
+    ws: WebSocket,
+    session: WebSocketSession,
+    questionId: string,
+    answer: AnswerValue,
+    responseMs: number | undefined
+  ): void {
+    if (this.state.phase !== 'assignment') {
+      this.send(ws, { type: 'error', message: 'This assignment has closed' });
+      return;
+    }
+
+    const player = session.playerId ? this.state.players[session.playerId] : undefined;
+    const progress = player?.progress;
+    const question = progress?.questionStartTime ? this.state.quiz?.questions[progress.questionIndex] : undefined;
+    if (!player || !progress?.questionStartTime || !question || question.id !== questionId) {
+      this.send(ws, { type: 'error', message: 'Invalid question' });
+      return;
+    }
+    if (!isValidAnswer(question, answer)) {
+      this.send(ws, { type: 'error', message: 'Invalid answer' });
+      return;
+    }
+    if (this.secondsLeft(question, progress.questionStartTime) <= 0) {
+      this.send(ws, { type: 'error', message: 'Time is up' });
+      return;
+    }
+
+    player.answers[questionId] = {
+      ...this.toStoredAnswer(questionId, answer),
+      timestamp: this.answerTimestamp(session, progress.questionStartTime, responseMs),
+    };
+    this.endPlayerQuestion(player);
+  }
+
+  // Score the player's question, show them the answer and move them on to the next one
+  private async endPlayerQuestion(player: Player): Promise<void> {
+    const progress = player.progress;
+    const quiz = this.state.quiz;
+    if (!progress?.questionStartTime || !quiz) return;
+
+    const question = quiz.questions[progress.questionIndex];
+    const questionStartTime = progress.questionStartTime;
+    // Move on before anything async so a late answer and the timer can't both end the question
+    player.progress = {
+      questionIndex: progress.questionIndex + 1,
+      questionStartTime: null,
+      finished: progress.questionIndex + 1 >= quiz.questions.length,
+    };
+    if (!question) return;
+
+    const answer = player.answers[question.id];
+    if (answer) {
+      player.score += this.scoreAnswer(player.answers, answer, progress.questionIndex, questionStartTime);
+    }
+    await this.saveState();
+    await this.scheduleAlarm();
+
+    // The reveal includes everyone who has answered this question so far
+    const answers = Object.values(this.state.players)
+      .map((p) => p.answers[question.id])
+      .filter((a) => a !== undefined);
+    const leaderboard = this.calculateLeaderboard();
+
+    this.sendToPlayer(player.id, {
+      type: 'question_end',
+      scores: leaderboard,
+      teamScores: this.teamLeaderboard(leaderboard),
+      questionText: question.text,
+      reveal: buildAnswerReveal(question, answers),
+    });
+    this.sendToPlayer(player.id, { type: 'assignment_progress', progress: player.progress });
+    this.sendToPresenters({ type: 'leaderboard_update', leaderboard, teamLeaderboard: this.teamLeaderboard(leaderboard) });
+  }
+
+  // Send each answering player their countdown, and end the questions whose time is up
+  private async tickAssignment(): Promise<void> {
+    for (const player of Object.values(this.state.players)) {
+      const progress = player.progress;
+      const question = this.state.quiz?.questions[progress?.questionIndex ?? -1];
+      if (!progress?.questionStartTime || !question) continue;
+
+      const tick = this.assignmentTimerTick(question, progress.questionStartTime);
+      if (tick.secondsLeft > 0) {
+        this.sendToPlayer(player.id, tick);
+      } else {
+        await this.endPlayerQuestion(player);
+      }
+    }
+  }
+
+  // Close the assignment at its deadline, or early when the host ends it
+  private async finishAssignment(): Promise<void> {
+    if (this.state.phase !== 'assignment') return;
+
+    // Questions still on the clock count as unanswered
+    for (const player of Object.values(this.state.players)) {
+      if (player.progress?.questionStartTime) {
+        player.progress = { ...player.progress, questionStartTime: null };
+      }
+    }
+    this.state.phase = 'finished';
+    await this.saveState();
+    await this.scheduleAlarm();
+
     const leaderboard = this.calculateLeaderboard();
-    this.broadcast({ type: 'leaderboard_update', leaderboard });
+    await this.saveResults(leaderboard);
+    // Nobody is watching a presenter together, so the podium appears all at once
+    for (const position of [3, 2, 1] as const) {
+      this.podiumReveal(position, leaderboard).forEach((message) => this.broadcast(message));
+    }
+    this.broadcast(this.gameFinished(leaderboard));
+  }
+
+  // ============== Alarms ==============
+
+  // Queue the next phase change and move the alarm to whichever comes first
+  private async schedule(step: PendingStep): Promise<void> {
+    this.pendingStep = step;
+    await this.saveState();
+    await this.scheduleAlarm();
+  }
+
+  private async scheduleAlarm(): Promise<void> {
+    const at = nextAlarmAt(this.state, this.pendingStep, this.clock());
+    if (at === null) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(at);
+    }
+  }
+
+  // Runs everything that has come due: the assignment deadline or its players' countdowns,
+  // a pending phase change, and the running question's countdown tick or end
+  async alarm(): Promise<void> {
+    const now = this.clock();
+    if (this.state.phase === 'assignment' && this.state.deadline !== null && now >= this.state.deadline) {
+      await this.finishAssignment();
+      return;
+    }
+    if (this.state.phase === 'assignment') {
+      await this.tickAssignment();
+    }
+
+    const step = this.pendingStep;
+    if (step && now >= step.at) {
+      this.pendingStep = null;
+      await this.saveState();
+      await this.runStep(step);
+    }
+
+    if (this.state.phase === 'question' && this.state.questionEndsAt !== null) {
+      const secondsLeft = secondsUntil(this.state.questionEndsAt, now);
+      if (secondsLeft > 0) {
+        this.broadcast({ type: 'timer_tick', secondsLeft, endsAt: this.state.questionEndsAt });
+      } else {
+        await this.endQuestion();
+      }
+    }
+    await this.scheduleAlarm();
+  }
+
+  private async runStep(step: PendingStep): Promise<void> {
+    switch (step.step) {
+      case 'start_question':
+        await this.startQuestion(step.index);
+        break;
+      case 'show_leaderboard':
+        if (this.state.phase === 'question') await this.showLeaderboard();
+        break;
+      case 'show_podium':
+        if (this.state.phase === 'question' || this.state.phase === 'leaderboard') await this.showPodium();
+        break;
+      case 'podium_reveal':
+        await this.revealPodiumPosition(step.position);
+        break;
+    }
   }
 
   private calculateLeaderboard(): LeaderboardEntry[] {
@@ -876,15 +1762,15 @@ export class GameDurableObject extends DurableObject<Env> {
 
     return Object.values(this.state.players)
       .map((player) => {
-        const answer = currentQuestion ? player.answers[currentQuestion.id] : undefined;
-        let lastAnswerCorrect = false;
-        if (answer && currentQuestion) {
-          const playerAnswers = new Set(answer.answerIndices);
-          const correctAnswers = new Set(currentQuestion.correctIndices);
-          lastAnswerCorrect = 
-            playerAnswers.size === correctAnswers.size &&
-            [...playerAnswers].every(a => correctAnswers.has(a));
-        }
+        // Assignment players are each on their own question; report the last one they finished
+        const question = player.progress
+          ? this.state.quiz?.questions[player.progress.questionIndex - 1]
+          : currentQuestion;
+        const answer = question ? player.answers[question.id] : undefined;
+        // Polls have no right answer
+        const lastAnswerCorrect = question && isScored(question) && !this.state.skippedQuestionIds.includes(question.id)
+          ? isAnswerCorrect(question, answer)
+          : undefined;
 
         return {
           playerId: player.id,
@@ -892,18 +1778,48 @@ export class GameDurableObject extends DurableObject<Env> {
           score: player.score,
           rank: 0,
           lastAnswerCorrect,
+          pointsGained: answer?.points ?? 0,
+          teamId: player.teamId ?? undefined,
         };
       })
       .sort((a, b) => b.score - a.score)
       .map((entry, index) => ({ ...entry, rank: index + 1 }));
   }
 
+  // Team standings to send alongside the player leaderboard; undefined outside team mode
+  private teamLeaderboard(leaderboard: LeaderboardEntry[]): TeamLeaderboardEntry[] | undefined {
+    if (!this.state.teamMode) return undefined;
+    const question = this.state.quiz?.questions[this.state.currentQuestionIndex];
+    return calculateTeamLeaderboard(this.state.teamMode, leaderboard, question?.id);
+  }
+
+  private leaderboardUpdate(): ServerMessage {
+    const leaderboard = this.calculateLeaderboard();
+    return { type: 'leaderboard_update', leaderboard, teamLeaderboard: this.teamLeaderboard(leaderboard) };
+  }
+
+  // One podium place: the player, and in team mode the team
+  private podiumReveal(position: 1 | 2 | 3, leaderboard: LeaderboardEntry[]): ServerMessage[] {
+    const messages: ServerMessage[] = [{ type: 'podium_reveal', position, player: leaderboard[position - 1] ?? null }];
+    const teams = this.teamLeaderboard(leaderboard);
+    if (teams) {
+      messages.push({ type: 'team_podium_reveal', position, team: teams[position - 1] ?? null });
+    }
+    return messages;
+  }
+
+  private gameFinished(leaderboard: LeaderboardEntry[]): ServerMessage {
+    return { type: 'game_finished', finalLeaderboard: leaderboard, finalTeamLeaderboard: this.teamLeaderboard(leaderboard) };
+  }
+
   private async handleClose(ws: WebSocket, session: WebSocketSession): Promise<void> {
-    if (session.isHost) {
+    // Another presenter tab still open keeps the host connected
+    const otherHost = this.ctx.getWebSockets('host').some((other) => other !== ws && other.readyState === WebSocket.OPEN);
+    if (session.role === 'host' && !otherHost) {
       this.state.hostConnected = false;
       
       // Pause the game if host disconnects during an active question
-      if (this.state.phase === 'question' && this.timerInterval && !this.state.timerPaused) {
+      if (this.state.phase === 'question' && this.state.questionEndsAt !== null) {
         await this.pauseTimer();
         this.broadcast({ type: 'game_paused', reason: 'Host disconnected' });
       }
@@ -918,17 +1834,48 @@ export class GameDurableObject extends DurableObject<Env> {
         this.broadcast({ type: 'player_left', playerId: session.playerId, playerCount });
       }
     }
+  }
 
-    this.sessions.delete(ws);
-    
-    // If all sessions are closed and timer is running, clear it to prevent memory leak
-    if (this.sessions.size === 0 && this.timerInterval) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
-    }
+  // ============== Replay Log ==============
+  // Messages sent to every socket, or to every host or player, are numbered and kept so a
+  // reconnecting client can be sent just what it missed. Messages for one socket are not:
+  // rejoining re-sends that player's own state.
+
+  // Number the event and keep it; host or player is null when that role wasn't sent it. Spectators
+  // see the presenter screen, so they are sent the host's copy.
+  private logEvent(host: ServerMessage | null, player: ServerMessage | null): number {
+    const seq = ++this.seq;
+    this.ctx.storage.sql.exec(
+      'INSERT INTO events (seq, host_message, player_message) VALUES (?, ?, ?)',
+      seq,
+      host ? JSON.stringify(host) : null,
+      player ? JSON.stringify(player) : null
+    );
+    this.ctx.storage.sql.exec('DELETE FROM events WHERE seq <= ?', seq - REPLAY_LOG_SIZE);
+    return seq;
+  }
+
+  // What a connection in this role was sent after since, or null when the log no longer goes back that far
+  private missedEvents(since: number, role: ConnectionRole): ServerFrame[] | null {
+    if (since < 0 || since > this.seq) return null;
+    const rows = [...this.ctx.storage.sql.exec('SELECT * FROM events WHERE seq > ? ORDER BY seq', since)] as {
+      seq: number;
+      host_message: string | null;
+      player_message: string | null;
+    }[];
+    if (rows.length !== this.seq - since) return null;
+    return rows.flatMap((row) => {
+      const message = role === 'player' ? row.player_message : row.host_message;
+      return message ? [{ ...(JSON.parse(message) as ServerMessage), seq: row.seq }] : [];
+    });
   }
 
-  private send(ws: WebSocket, message: ServerMessage): void {
+  // The full state as this connection may see it, as of the latest event
+  private gameStateMessage(session: WebSocketSession): ServerFrame {
+    return { type: 'game_state', state: projectState(this.state, session.role, session.playerId), seq: this.seq };
+  }
+
+  private send(ws: WebSocket, message: ServerFrame): void {
     try {
       ws.send(JSON.stringify(message));
     } catch {
@@ -937,8 +1884,9 @@ export class GameDurableObject extends DurableObject<Env> {
   }
 
   private broadcast(message: ServerMessage): void {
-    const data = JSON.stringify(message);
-    for (const [ws] of this.sessions) {
+    const seq = UNLOGGED_MESSAGES.includes(message.type) ? undefined : this.logEvent(message, message);
+    const data = JSON.stringify({ ...message, seq });
+    for (const ws of this.ctx.getWebSockets()) {
       try {
         ws.send(data);
       } catch {
@@ -947,7 +1895,19 @@ export class GameDurableObject extends DurableObject<Env> {
     }
   }
 
-  private getPublicState(): GameState {
-    return { ...this.state };
+  private sendToPlayer(playerId: string, message: ServerMessage): void {
+    for (const ws of this.ctx.getWebSockets('player')) {
+      if (this.sessionOf(ws).playerId === playerId) {
+        this.send(ws, message);
+      }
+    }
+  }
+
+  // Hosts and spectators: everyone looking at the presenter screen
+  private sendToPresenters(message: ServerMessage): void {
+    const seq = this.logEvent(message, null);
+    for (const ws of [...this.ctx.getWebSockets('host'), ...this.ctx.getWebSockets('spectator')]) {
+      this.send(ws, { ...message, seq });
+    }
   }
 }
@@ -0,0 +1,45 @@
+import type { GameSettings, LateJoin } from './types';
+import { NICKNAME_MODES } from './nicknames';
+
+// Per-game settings the host picks when creating the game
+
+export const MAX_PLAYERS = 200; // Most players any game can take
+export const LATE_JOINS = ['off', 'zero', 'median'] as const;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  nicknameMode: 'filter',
+  maxPlayers: MAX_PLAYERS,
+  lateJoin: 'off',
+  lobbyLocked: false,
+};
+
+// Why the settings in a create-game request can't be used, or null if they can
+export function settingsError(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Settings must be an object';
+  }
+  const settings = value as Partial<GameSettings>;
+  if (settings.nicknameMode !== undefined && !NICKNAME_MODES.includes(settings.nicknameMode)) {
+    return 'Nickname mode must be filter, generated or off';
+  }
+  if (settings.maxPlayers !== undefined && (!Number.isInteger(settings.maxPlayers) || settings.maxPlayers < 1 || settings.maxPlayers > MAX_PLAYERS)) {
+    return `Max players must be between 1 and ${MAX_PLAYERS}`;
+  }
+  if (settings.lateJoin !== undefined && !LATE_JOINS.includes(settings.lateJoin as LateJoin)) {
+    return 'Late join must be off, zero or median';
+  }
+  if (settings.lobbyLocked !== undefined && typeof settings.lobbyLocked !== 'boolean') {
+    return 'Lobby locked must be true or false';
+  }
+  return null;
+}
+
+// Only the known fields are kept: settings are stored and sent to every client as they are
+export function createSettings(settings: Partial<GameSettings>): GameSettings {
+  return {
+    nicknameMode: settings.nicknameMode ?? DEFAULT_SETTINGS.nicknameMode,
+    maxPlayers: settings.maxPlayers ?? DEFAULT_SETTINGS.maxPlayers,
+    lateJoin: settings.lateJoin ?? DEFAULT_SETTINGS.lateJoin,
+    lobbyLocked: settings.lobbyLocked ?? DEFAULT_SETTINGS.lobbyLocked,
+  };
+}
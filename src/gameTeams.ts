@@ -0,0 +1,95 @@
+import type { AnswerValue, GameTeam, LeaderboardEntry, Player, PlayerAnswer, TeamLeaderboardEntry, TeamMode, TeamScoring } from './types';
+import { normalizeText } from './questions';
+
+// Team mode: players join teams in the lobby and the teams are ranked alongside the players
+
+export const TEAM_SCORINGS = ['sum', 'average', 'consensus'] as const;
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+
+const TEAM_NAMES = ['Red', 'Blue', 'Yellow', 'Green', 'Purple', 'Orange', 'Pink', 'Teal'];
+
+export function createTeamMode(count: number, scoring: TeamScoring): TeamMode {
+  return {
+    scoring,
+    teams: TEAM_NAMES.slice(0, count).map((name, index) => ({
+      id: `team-${index + 1}`,
+      name: `Team ${name}`,
+      score: 0,
+      answers: {},
+    })),
+  };
+}
+
+// Players who don't pick a team go to the one with the fewest members (the first on a tie)
+export function smallestTeam(teamMode: TeamMode, players: Player[]): GameTeam {
+  const memberCount = (team: GameTeam) => players.filter((player) => player.teamId === team.id).length;
+  return teamMode.teams.reduce((smallest, team) => (memberCount(team) < memberCount(smallest) ? team : smallest));
+}
+
+// Answers that count as the same vote: choices in any order, text ignoring case and accents
+function answerKey(answer: AnswerValue): string {
+  switch (answer.kind) {
+    case 'choice':
+      return `choice:${[...answer.answerIndices].sort((a, b) => a - b).join(',')}`;
+    case 'text':
+      return `text:${normalizeText(answer.text)}`;
+    case 'number':
+      return `number:${answer.value}`;
+    case 'order':
+      return `order:${answer.order.join(',')}`;
+  }
+}
+
+// The answer most members gave; on a tie, the one that got its votes first. It is timed
+// from the last of those votes, when the team settled on it.
+export function consensusAnswer(answers: PlayerAnswer[]): PlayerAnswer | undefined {
+  const votes = new Map<string, PlayerAnswer[]>();
+  for (const answer of [...answers].sort((a, b) => a.timestamp - b.timestamp)) {
+    const key = answerKey(answer);
+    votes.set(key, [...(votes.get(key) ?? []), answer]);
+  }
+
+  let winner: PlayerAnswer[] | undefined;
+  for (const group of votes.values()) {
+    if (!winner || group.length > winner.length) {
+      winner = group;
+    } else if (group.length === winner.length && group[group.length - 1].timestamp < winner[winner.length - 1].timestamp) {
+      winner = group;
+    }
+  }
+  if (!winner) return undefined;
+
+  const { points, responseMs, ...value } = winner[0];
+  return { ...value, timestamp: winner[winner.length - 1].timestamp };
+}
+
+// Team standings from the player leaderboard. questionId is the question that just ended,
+// for the points each team gained on it.
+export function calculateTeamLeaderboard(
+  teamMode: TeamMode,
+  leaderboard: LeaderboardEntry[],
+  questionId: string | undefined
+): TeamLeaderboardEntry[] {
+  return teamMode.teams
+    .map((team) => {
+      const members = leaderboard.filter((entry) => entry.teamId === team.id);
+      const total = members.reduce((sum, entry) => sum + entry.score, 0);
+      const gained = members.reduce((sum, entry) => sum + (entry.pointsGained ?? 0), 0);
+
+      let score = total;
+      let pointsGained = gained;
+      if (teamMode.scoring === 'average') {
+        score = members.length > 0 ? Math.round(total / members.length) : 0;
+        pointsGained = members.length > 0 ? Math.round(gained / members.length) : 0;
+      } else if (teamMode.scoring === 'consensus') {
+        score = team.score;
+        pointsGained = (questionId && team.answers[questionId]?.points) || 0;
+      }
+
+      return { teamId: team.id, name: team.name, score, rank: 0, memberCount: members.length, pointsGained };
+    })
+    .filter((entry) => entry.memberCount > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
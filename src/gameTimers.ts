@@ -0,0 +1,56 @@
+import type { GameState } from './types';
+
+// Live games advance on Durable Object alarms rather than in-memory timers, so a game
+// picks up where it left off after the object is evicted. There is one alarm per object:
+// it is always set for the earliest of the next countdown tick, the next pending step,
+// an assignment's deadline and the next tick of any assignment player's question.
+
+const TICK_MS = 1000;
+export const QUESTION_DELAY_MS = 3000; // From game_starting to the first question
+export const REVEAL_DELAY_MS = 3000; // From question_end to the leaderboard or podium
+export const PODIUM_FIRST_DELAY_MS = 1000; // From the podium phase to 3rd place
+export const PODIUM_STEP_MS = 2000; // Between podium places
+
+// A phase change waiting for its time to come
+export type PendingStep =
+  | { step: 'start_question'; index: number; at: number }
+  | { step: 'show_leaderboard'; at: number }
+  | { step: 'show_podium'; at: number }
+  | { step: 'podium_reveal'; position: 1 | 2 | 3; at: number };
+
+// Whole seconds shown on the countdown, rounding up so it reads 1 until time is up
+export function secondsUntil(endsAt: number, now: number): number {
+  return Math.max(0, Math.ceil((endsAt - now) / TICK_MS));
+}
+
+// When the countdown next drops a whole second; endsAt itself for the last one
+export function nextTickAt(endsAt: number, now: number): number {
+  const remaining = endsAt - now;
+  if (remaining <= 0) return now;
+  return endsAt - (Math.ceil(remaining / TICK_MS) - 1) * TICK_MS;
+}
+
+// When the alarm should next fire, or null when nothing is scheduled
+export function nextAlarmAt(state: GameState, pending: PendingStep | null, now: number): number | null {
+  const times: number[] = [];
+  if (pending) {
+    times.push(pending.at);
+  }
+  if (state.phase === 'question' && state.questionEndsAt !== null) {
+    times.push(nextTickAt(state.questionEndsAt, now));
+  }
+  if (state.phase === 'assignment' && state.deadline !== null) {
+    times.push(state.deadline);
+  }
+  if (state.phase === 'assignment') {
+    // Each player answering in their own time has their own countdown
+    for (const player of Object.values(state.players)) {
+      const progress = player.progress;
+      const question = state.quiz?.questions[progress?.questionIndex ?? -1];
+      if (progress?.questionStartTime && question) {
+        times.push(nextTickAt(progress.questionStartTime + question.timerSeconds * TICK_MS, now));
+      }
+    }
+  }
+  return times.length > 0 ? Math.min(...times) : null;
+}
@@ -0,0 +1,148 @@
+// ============== R2 Question Images ==============
+
+const IMAGE_URL_PREFIX = '/api/images/';
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const TOO_LARGE = 'Image is larger than 5 MB';
+
+// Store image bytes in R2 and return the URL the app serves them from
+export async function storeImage(env: Env, body: ArrayBuffer | Uint8Array, contentType: string): Promise<{ imageUrl: string; key: string }> {
+  const imageId = crypto.randomUUID();
+  const extension = contentType.split('/')[1]?.split(/[;+]/)[0] || 'jpg';
+  const key = `${imageId}.${extension}`;
+
+  await env.IMAGES.put(key, body, {
+    httpMetadata: { contentType },
+  });
+
+  return { imageUrl: `${IMAGE_URL_PREFIX}${key}`, key };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunk to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Inline one of our R2 images as a data: URL so exports are self-contained.
+// URLs pointing elsewhere are returned unchanged.
+export async function embedImage(env: Env, imageUrl: string): Promise<string> {
+  if (!imageUrl.startsWith(IMAGE_URL_PREFIX)) return imageUrl;
+
+  const object = await env.IMAGES.get(imageUrl.slice(IMAGE_URL_PREFIX.length));
+  if (!object) return imageUrl;
+
+  const contentType = object.httpMetadata?.contentType || 'image/jpeg';
+  const bytes = new Uint8Array(await object.arrayBuffer());
+  return `data:${contentType};base64,${toBase64(bytes)}`;
+}
+
+// Decoded size of base64 data, without decoding it
+function base64Bytes(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+// Links are fetched by the Worker, so they can't point back at loopback or private addresses
+function isPublicHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!host.includes('.') && !host.includes(':')) return false;
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return false;
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  // Unspecified, loopback, IPv4-mapped, unique local and link-local IPv6
+  if (host.includes(':')) {
+    return !(host === '::' || host === '::1' || host.startsWith('::ffff:') || /^f[cd]/.test(host) || /^fe[89ab]/.test(host));
+  }
+  return true;
+}
+
+// Read a response body, giving up as soon as it passes the size limit
+async function readImageBody(response: Response): Promise<Uint8Array> {
+  if (Number(response.headers.get('Content-Length')) > MAX_IMAGE_BYTES) {
+    await response.body?.cancel();
+    throw new Error(TOO_LARGE);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new Error(TOO_LARGE);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+// Turn an imported image reference into one of our R2 URLs.
+// Throws with a user-facing message when the image can't be used.
+export async function importImage(env: Env, value: string): Promise<string> {
+  if (value.startsWith(IMAGE_URL_PREFIX)) {
+    const exists = await env.IMAGES.head(value.slice(IMAGE_URL_PREFIX.length));
+    if (!exists) throw new Error('Image not found');
+    return value;
+  }
+
+  const dataUrl = value.match(/^data:(image\/[\w.+-]+);base64,(.+)$/s);
+  if (dataUrl) {
+    const base64 = dataUrl[2].replace(/\s/g, '');
+    if (base64Bytes(base64) > MAX_IMAGE_BYTES) throw new Error(TOO_LARGE);
+    const { imageUrl } = await storeImage(env, fromBase64(base64), dataUrl[1]);
+    return imageUrl;
+  }
+
+  const url = URL.canParse(value) ? new URL(value) : null;
+  if (url && (url.protocol === 'http:' || url.protocol === 'https:')) {
+    if (!isPublicHost(url.hostname)) {
+      throw new Error('Image link must be a public address');
+    }
+    // Redirects aren't followed: they could lead anywhere the check above refuses
+    const response = await fetch(url, { redirect: 'manual' });
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      await response.body?.cancel();
+      throw new Error('Image link did not return an image');
+    }
+    const body = await readImageBody(response);
+    const { imageUrl } = await storeImage(env, body, contentType);
+    return imageUrl;
+  }
+
+  throw new Error('Image must be a data: URL or an http(s) link');
+}
@@ -1,7 +1,19 @@
-import type { CreateGameResponse, JoinGameResponse, SavedQuiz, Quiz } from './types';
+import type { AuthResponse, CreateGameRequest, CreateGameResponse, JoinableResponse, JoinGameResponse, QuizValidationErrorResponse, User } from './types';
+import { generateToken } from './crypto';
+import { createSession, deleteSession, getSessionUser, hashPassword, isValidEmail, normalizeEmail, verifyPassword } from './auth';
+import { handleQuizRoute, handleSharedQuizRoute, loadQuizForUser } from './quizzes';
+import { handleTeamRoute } from './teams';
+import { storeImage } from './images';
+import { validateQuiz } from './validation';
+import { MAX_TEAMS, MIN_TEAMS, TEAM_SCORINGS } from './gameTeams';
+import { parseBlockedWords } from './nicknames';
+import { settingsError } from './gameSettings';
+import { handleGameExportRoute, handleGameResultsRoute } from './results';
 
 export { GameDurableObject } from './game';
 
+const MAX_ASSIGNMENT_DAYS = 30; // Furthest ahead an assignment deadline can be
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -10,7 +22,7 @@ export default {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     };
 
     if (request.method === 'OPTIONS') {
@@ -44,16 +56,89 @@ export default {
   },
 } satisfies ExportedHandler<Env>;
 
+// Why the game behind a PIN won't take a new player (locked, full, started), or null if it will.
+// Players rejoining after a refresh go straight to /play/:gameId and skip this.
+async function joinRefusal(env: Env, gameId: string): Promise<string | null> {
+  const stub = env.GAME.get(env.GAME.idFromName(gameId));
+  const response = await stub.fetch(new Request('https://internal/joinable'));
+  const { reason } = (await response.json()) as JoinableResponse;
+  return reason ?? null;
+}
+
 async function handleApiRoute(url: URL, request: Request, env: Env): Promise<Response> {
-  // POST /api/games - Create a new game
+  // POST /api/games - Create a new game from a saved quiz
   if (url.pathname === '/api/games' && request.method === 'POST') {
+    const user = await getSessionUser(request, env);
+    if (!user) {
+      return Response.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as Partial<CreateGameRequest>;
+    if (!body.quizId) {
+      return Response.json({ error: 'quizId is required' }, { status: 400 });
+    }
+    const quiz = await loadQuizForUser(env, body.quizId, user);
+    if (!quiz) {
+      return Response.json({ error: 'Quiz not found' }, { status: 404 });
+    }
+    const validation = validateQuiz(quiz);
+    if (!validation.success) {
+      const response: QuizValidationErrorResponse = { error: 'Fix this quiz before starting a game', fieldErrors: validation.errors };
+      return Response.json(response, { status: 400 });
+    }
+
+    const mode = body.mode ?? 'live';
+    if (mode !== 'live' && mode !== 'assignment') {
+      return Response.json({ error: 'Mode must be live or assignment' }, { status: 400 });
+    }
+    const deadline = mode === 'assignment' ? body.deadline : undefined;
+    if (mode === 'assignment') {
+      if (typeof deadline !== 'number' || !Number.isFinite(deadline) || deadline <= Date.now()) {
+        return Response.json({ error: 'Assignment deadline must be in the future' }, { status: 400 });
+      }
+      if (deadline > Date.now() + MAX_ASSIGNMENT_DAYS * 24 * 60 * 60 * 1000) {
+        return Response.json({ error: `Assignment deadline must be within ${MAX_ASSIGNMENT_DAYS} days` }, { status: 400 });
+      }
+    }
+
+    const teams = body.teams;
+    if (teams) {
+      if (!Number.isInteger(teams.count) || teams.count < MIN_TEAMS || teams.count > MAX_TEAMS) {
+        return Response.json({ error: `Team mode needs ${MIN_TEAMS} to ${MAX_TEAMS} teams` }, { status: 400 });
+      }
+      if (!TEAM_SCORINGS.includes(teams.scoring)) {
+        return Response.json({ error: 'Team scoring must be sum, average or consensus' }, { status: 400 });
+      }
+      if (teams.scoring === 'consensus' && mode === 'assignment') {
+        return Response.json({ error: 'Consensus teams need a live game' }, { status: 400 });
+      }
+    }
+
+    const settings = body.settings ?? {};
+    const invalidSettings = settingsError(settings);
+    if (invalidSettings) {
+      return Response.json({ error: invalidSettings }, { status: 400 });
+    }
+    const blockedWords = parseBlockedWords(body.blockedWords);
+    if (!blockedWords) {
+      return Response.json({ error: 'Blocked words must be a list of 1-50 character words' }, { status: 400 });
+    }
+
     const gameId = crypto.randomUUID();
     const id = env.GAME.idFromName(gameId);
     const stub = env.GAME.get(id);
 
-    // Get the game PIN from the Durable Object
-    const pinResponse = await stub.fetch(new Request('https://internal/pin'));
-    const { gamePin } = (await pinResponse.json()) as { gamePin: string };
+    // Mint the host secret and seed the Durable Object with the quiz; it returns the game PIN
+    const hostToken = generateToken();
+    const initResponse = await stub.fetch(new Request('https://internal/init', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hostToken, gameId, hostId: user.id, quiz: { id: quiz.id, ...validation.data }, mode, deadline, teams, settings, blockedWords }),
+    }));
+    if (!initResponse.ok) {
+      return Response.json({ error: 'Failed to initialize game' }, { status: 500 });
+    }
+    const { gamePin } = (await initResponse.json()) as { gamePin: string };
 
     // Check for PIN collision (rare but possible)
     const existing = await env.DB.prepare('SELECT game_id FROM game_pins WHERE pin = ?')
@@ -67,17 +152,30 @@ async function handleApiRoute(url: URL, request: Request, env: Env): Promise<Res
       return Response.json({ error: 'PIN collision, please try again' }, { status: 409 });
     }
 
-    // Store PIN mapping in database (expires in 24 hours)
+    // Store PIN mapping in database (expires in 24 hours, or when the assignment closes)
     const now = Date.now();
-    const expiresAt = now + (24 * 60 * 60 * 1000); // 24 hours
+    const expiresAt = deadline ?? now + (24 * 60 * 60 * 1000); // 24 hours
     await env.DB.prepare('INSERT INTO game_pins (pin, game_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
       .bind(gamePin, gameId, now, expiresAt)
       .run();
 
-    const response: CreateGameResponse = { gameId, gamePin };
+    const response: CreateGameResponse = { gameId, gamePin, hostToken };
     return Response.json(response, { status: 201 });
   }
 
+  // GET /api/games/:gameId/results - Saved results of a finished game, for its host
+  // GET /api/games/:gameId/export?format=csv|xlsx - The same results as a spreadsheet
+  const results = url.pathname.match(/^\/api\/games\/([^/]+)\/(results|export)$/);
+  if (results && request.method === 'GET') {
+    const user = await getSessionUser(request, env);
+    if (!user) {
+      return Response.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    return results[2] === 'export'
+      ? handleGameExportRoute(results[1], url, env, user)
+      : handleGameResultsRoute(results[1], env, user);
+  }
+
   // GET /api/games/:gameId - Get game state
   if (url.pathname.match(/^\/api\/games\/[^/]+$/) && request.method === 'GET') {
     const gameId = url.pathname.split('/')[3];
@@ -102,6 +200,10 @@ async function handleApiRoute(url: URL, request: Request, env: Env): Promise<Res
     if (!result) {
       return Response.json({ success: false, error: 'Invalid PIN' }, { status: 404 });
     }
+    const refusal = await joinRefusal(env, result.game_id);
+    if (refusal) {
+      return Response.json({ success: false, error: refusal }, { status: 403 });
+    }
 
     const response: JoinGameResponse = { gameId: result.game_id, success: true };
     return Response.json(response);
@@ -123,123 +225,103 @@ async function handleApiRoute(url: URL, request: Request, env: Env): Promise<Res
     if (!result) {
       return Response.json({ success: false, error: 'Invalid PIN' }, { status: 404 });
     }
+    const refusal = await joinRefusal(env, result.game_id);
+    if (refusal) {
+      return Response.json({ success: false, error: refusal }, { status: 403 });
+    }
 
     const response: JoinGameResponse = { gameId: result.game_id, success: true };
     return Response.json(response);
   }
 
-  // GET /api/quizzes - List all saved quizzes
-  if (url.pathname === '/api/quizzes' && request.method === 'GET') {
-    const { results } = await env.DB.prepare(
-      'SELECT id, title, questions, created_at, updated_at FROM quizzes ORDER BY updated_at DESC'
-    ).all<{ id: string; title: string; questions: string; created_at: number; updated_at: number }>();
-    
-    const quizzes: SavedQuiz[] = results.map(row => ({
-      id: row.id,
-      title: row.title,
-      questions: JSON.parse(row.questions),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
-    
-    return Response.json(quizzes);
-  }
+  // POST /api/auth/register - Create a host account
+  if (url.pathname === '/api/auth/register' && request.method === 'POST') {
+    const body = (await request.json().catch(() => ({}))) as { email?: unknown; password?: unknown };
+    if (typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return Response.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+    const email = normalizeEmail(body.email);
+    const password = body.password;
 
-  // POST /api/quizzes - Save a new quiz
-  if (url.pathname === '/api/quizzes' && request.method === 'POST') {
-    const quiz = (await request.json()) as Quiz;
-    const now = Date.now();
-    const quizId = quiz.id || crypto.randomUUID();
-    
-    const savedQuiz: SavedQuiz = {
-      ...quiz,
-      id: quizId,
-      createdAt: now,
-      updatedAt: now,
-    };
-    
-    await env.DB.prepare(
-      'INSERT INTO quizzes (id, title, questions, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
-    )
-      .bind(quizId, quiz.title, JSON.stringify(quiz.questions), now, now)
+    if (!isValidEmail(email)) {
+      return Response.json({ error: 'Please enter a valid email address' }, { status: 400 });
+    }
+    if (password.length < 8) {
+      return Response.json({ error: 'Password must be at least 8 characters' }, { status: 400 });
+    }
+
+    const existing = await env.DB.prepare('SELECT id FROM users WHERE email = ?')
+      .bind(email)
+      .first();
+    if (existing) {
+      return Response.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    const user: User = { id: crypto.randomUUID(), email, createdAt: Date.now() };
+    await env.DB.prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)')
+      .bind(user.id, user.email, await hashPassword(password), user.createdAt)
       .run();
-    
-    return Response.json(savedQuiz, { status: 201 });
+
+    const response: AuthResponse = { token: await createSession(env, user.id), user };
+    return Response.json(response, { status: 201 });
   }
 
-  // GET /api/quizzes/:id - Get a saved quiz
-  if (url.pathname.match(/^\/api\/quizzes\/[^/]+$/) && request.method === 'GET') {
-    const quizId = url.pathname.split('/')[3];
-    const result = await env.DB.prepare(
-      'SELECT id, title, questions, created_at, updated_at FROM quizzes WHERE id = ?'
-    )
-      .bind(quizId)
-      .first<{ id: string; title: string; questions: string; created_at: number; updated_at: number }>();
-    
-    if (!result) {
-      return Response.json({ error: 'Quiz not found' }, { status: 404 });
+  // POST /api/auth/login - Sign in with email and password
+  if (url.pathname === '/api/auth/login' && request.method === 'POST') {
+    const body = (await request.json().catch(() => ({}))) as { email?: unknown; password?: unknown };
+    if (typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return Response.json({ error: 'Email and password are required' }, { status: 400 });
     }
-    
-    const quiz: SavedQuiz = {
-      id: result.id,
-      title: result.title,
-      questions: JSON.parse(result.questions),
-      createdAt: result.created_at,
-      updatedAt: result.updated_at,
-    };
-    
-    return Response.json(quiz);
-  }
+    const email = normalizeEmail(body.email);
 
-  // PUT /api/quizzes/:id - Update a saved quiz
-  if (url.pathname.match(/^\/api\/quizzes\/[^/]+$/) && request.method === 'PUT') {
-    const quizId = url.pathname.split('/')[3];
-    
-    // Check if quiz exists
-    const existing = await env.DB.prepare('SELECT created_at FROM quizzes WHERE id = ?')
-      .bind(quizId)
-      .first<{ created_at: number }>();
-    
-    if (!existing) {
-      return Response.json({ error: 'Quiz not found' }, { status: 404 });
+    const row = await env.DB.prepare('SELECT id, email, password_hash, created_at FROM users WHERE email = ?')
+      .bind(email)
+      .first<{ id: string; email: string; password_hash: string; created_at: number }>();
+
+    if (!row || !(await verifyPassword(body.password, row.password_hash))) {
+      return Response.json({ error: 'Invalid email or password' }, { status: 401 });
     }
-    
-    const updates = (await request.json()) as Partial<Quiz>;
-    const updatedAt = Date.now();
-    
-    await env.DB.prepare(
-      'UPDATE quizzes SET title = ?, questions = ?, updated_at = ? WHERE id = ?'
-    )
-      .bind(updates.title || '', JSON.stringify(updates.questions || []), updatedAt, quizId)
-      .run();
-    
-    // Fetch updated quiz
-    const result = await env.DB.prepare(
-      'SELECT id, title, questions, created_at, updated_at FROM quizzes WHERE id = ?'
-    )
-      .bind(quizId)
-      .first<{ id: string; title: string; questions: string; created_at: number; updated_at: number }>();
-    
-    const savedQuiz: SavedQuiz = {
-      id: result!.id,
-      title: result!.title,
-      questions: JSON.parse(result!.questions),
-      createdAt: result!.created_at,
-      updatedAt: result!.updated_at,
+
+    const response: AuthResponse = {
+      token: await createSession(env, row.id),
+      user: { id: row.id, email: row.email, createdAt: row.created_at },
     };
-    
-    return Response.json(savedQuiz);
+    return Response.json(response);
   }
 
-  // DELETE /api/quizzes/:id - Delete a saved quiz
-  if (url.pathname.match(/^\/api\/quizzes\/[^/]+$/) && request.method === 'DELETE') {
-    const quizId = url.pathname.split('/')[3];
-    await env.DB.prepare('DELETE FROM quizzes WHERE id = ?')
-      .bind(quizId)
-      .run();
+  // POST /api/auth/logout - End the current session
+  if (url.pathname === '/api/auth/logout' && request.method === 'POST') {
+    await deleteSession(request, env);
     return Response.json({ success: true });
   }
 
+  // GET /api/auth/me - Get the signed-in user
+  if (url.pathname === '/api/auth/me' && request.method === 'GET') {
+    const user = await getSessionUser(request, env);
+    if (!user) {
+      return Response.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    return Response.json(user);
+  }
+
+  // Saved quiz, share link and team routes are scoped to the signed-in host
+  if (url.pathname.startsWith('/api/quizzes') || url.pathname.startsWith('/api/shared/') || url.pathname.startsWith('/api/teams')) {
+    const user = await getSessionUser(request, env);
+    if (!user) {
+      return Response.json({ error: 'Sign in required' }, { status: 401 });
+    }
+
+    // GET /api/shared/:token - Open a read-only share link
+    const shared = url.pathname.match(/^\/api\/shared\/([^/]+)$/);
+    if (shared && request.method === 'GET') {
+      return handleSharedQuizRoute(shared[1], env, user);
+    }
+    if (url.pathname.startsWith('/api/teams')) {
+      return handleTeamRoute(url, request, env, user);
+    }
+    return handleQuizRoute(url, request, env, user);
+  }
+
   // POST /api/images - Upload an image to R2
   if (url.pathname === '/api/images' && request.method === 'POST') {
     const contentType = request.headers.get('Content-Type') || 'image/jpeg';
@@ -249,16 +331,7 @@ async function handleApiRoute(url: URL, request: Request, env: Env): Promise<Res
       return Response.json({ error: 'Only images are allowed' }, { status: 400 });
     }
 
-    const imageId = crypto.randomUUID();
-    const extension = contentType.split('/')[1] || 'jpg';
-    const key = `${imageId}.${extension}`;
-
-    const body = await request.arrayBuffer();
-    await env.IMAGES.put(key, body, {
-      httpMetadata: { contentType },
-    });
-
-    const imageUrl = `/api/images/${key}`;
+    const { imageUrl, key } = await storeImage(env, await request.arrayBuffer(), contentType);
     return Response.json({ imageUrl, key }, { status: 201 });
   }
 
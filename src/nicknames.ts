@@ -0,0 +1,132 @@
+// Nickname moderation: clean up what players type, refuse offensive names, or hand out
+// friendly generated ones instead
+
+export const NICKNAME_MODES = ['filter', 'generated', 'off'] as const;
+export const MAX_BLOCKED_WORDS = 100; // Extra words a host can add to a game's blocklist
+
+// Zero-width and other invisible characters, used to sneak words past filters or
+// to make two names look the same
+const INVISIBLE_CHARACTERS = /[\p{Cf}\u0000-\u0008\u000E-\u001F\u007F-\u009F\u034F\u115F\u1160\u17B4\u17B5\u180B-\u180D\u3164\uFE00-\uFE0F]/gu;
+
+// Matched anywhere in a word, so "xXfuckXx" is caught
+const BLOCKED_SUBSTRINGS = [
+  'fuck', 'shit', 'nigger', 'nigga', 'faggot', 'bitch', 'whore', 'slut', 'asshole', 'bastard',
+  'blowjob', 'handjob', 'dildo', 'jizz', 'porn', 'vagina', 'molest', 'hitler',
+];
+
+// Matched as whole words only: these turn up inside harmless names (class, therapist, torpedo,
+// Scunthorpe, Penistone, fire retardant)
+const BLOCKED_WORDS = [
+  'ass', 'arse', 'cum', 'fag', 'tit', 'tits', 'dick', 'cock', 'sex', 'rape', 'rapist', 'spic', 'kike',
+  'coon', 'homo', 'wank', 'twat', 'pussy', 'pedo', 'piss', 'boob', 'boobs', 'anal', 'nazi',
+  'cunt', 'cunts', 'penis', 'retard', 'retards', 'retarded',
+];
+
+// Letters from other scripts that look like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't',
+  'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w', 'һ': 'h', 'ӏ': 'l',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ω': 'w', 'ı': 'i', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ħ': 'h', 'ɡ': 'g',
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe',
+};
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '2': 'z', '3': 'e', '4': 'a', '5': 's', '6': 'g', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '+': 't', '€': 'e',
+};
+
+// 1, ! and | stand in for both i and l, so words are checked with each reading
+const I_OR_L = /[1!|]/g;
+
+const ADJECTIVES = [
+  'Brave', 'Clever', 'Cosmic', 'Curious', 'Dazzling', 'Fuzzy', 'Gentle', 'Happy', 'Jolly', 'Lucky',
+  'Mighty', 'Nimble', 'Plucky', 'Quick', 'Quiet', 'Sunny', 'Swift', 'Witty', 'Zany', 'Bouncy',
+  'Cheerful', 'Daring', 'Eager', 'Fearless', 'Glowing', 'Mellow', 'Radiant', 'Snappy', 'Spirited', 'Zesty',
+];
+
+const ANIMALS = [
+  'Otter', 'Panda', 'Falcon', 'Koala', 'Dolphin', 'Fox', 'Hedgehog', 'Penguin', 'Tiger', 'Turtle',
+  'Owl', 'Lynx', 'Badger', 'Beaver', 'Giraffe', 'Lemur', 'Llama', 'Moose', 'Narwhal', 'Octopus',
+  'Puffin', 'Quokka', 'Raccoon', 'Seal', 'Sloth', 'Squirrel', 'Walrus', 'Wombat', 'Yak', 'Zebra',
+];
+
+// What a nickname is stored and shown as: no invisible characters, single spaces
+export function cleanNickname(nickname: string): string {
+  return nickname.normalize('NFC').replace(INVISIBLE_CHARACTERS, '').replace(/\s+/g, ' ').trim();
+}
+
+// Lowercase Latin words with accents, look-alike letters and leetspeak folded away.
+// Runs of single letters ("f u c k", "f.u.c.k") are joined into one word.
+function moderationWords(nickname: string, iOrL: string): string[] {
+  const folded = cleanNickname(nickname)
+    .normalize('NFKC') // Full-width and mathematical letters to plain ones
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(I_OR_L, iOrL);
+  const latin = [...folded].map((char) => CONFUSABLES[char] ?? LEETSPEAK[char] ?? char).join('');
+
+  const words: string[] = [];
+  let letters = '';
+  for (const word of latin.split(/[^a-z]+/).filter(Boolean)) {
+    if (word.length === 1) {
+      letters += word;
+      continue;
+    }
+    if (letters) words.push(letters);
+    letters = '';
+    words.push(word);
+  }
+  if (letters) words.push(letters);
+  return words;
+}
+
+// "fuck" matches "fuuuck": any letter can be repeated in the nickname, but a doubled letter
+// in the blocked word has to stay doubled, so "nigger" doesn't also block "Niger"
+function blockedPattern(word: string, wholeWord: boolean): RegExp {
+  const runs = word.match(/(.)\1*/g) ?? [];
+  const letters = runs.map((run) => (run.length > 1 ? `${run[0]}{${run.length},}` : `${run}+`)).join('');
+  return new RegExp(wholeWord ? `^${letters}$` : letters);
+}
+
+const BLOCKED_SUBSTRING_PATTERNS = BLOCKED_SUBSTRINGS.map((word) => blockedPattern(word, false));
+const BLOCKED_WORD_PATTERNS = BLOCKED_WORDS.map((word) => blockedPattern(word, true));
+
+// extraWords: the game's own blocklist, matched anywhere like the built-in substrings
+export function isNicknameAllowed(nickname: string, extraWords: string[] = []): boolean {
+  const patterns = [
+    ...BLOCKED_WORD_PATTERNS,
+    ...BLOCKED_SUBSTRING_PATTERNS,
+    ...extraWords.flatMap((word) => moderationWords(word, 'i')).map((word) => blockedPattern(word, false)),
+  ];
+  for (const iOrL of ['i', 'l']) {
+    for (const word of moderationWords(nickname, iOrL)) {
+      if (patterns.some((pattern) => pattern.test(word))) return false;
+    }
+  }
+  return true;
+}
+
+// A random "Adjective Animal" nobody in the game has yet, numbered once the pairs run out
+export function generateNickname(taken: string[]): string {
+  const takenNames = new Set(taken.map((name) => name.toLowerCase()));
+  const pick = (words: string[]) => words[Math.floor(Math.random() * words.length)];
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const name = `${pick(ADJECTIVES)} ${pick(ANIMALS)}`;
+    if (!takenNames.has(name.toLowerCase())) return name;
+  }
+  const base = `${pick(ADJECTIVES)} ${pick(ANIMALS)}`;
+  let number = 2;
+  while (takenNames.has(`${base} ${number}`.toLowerCase())) number++;
+  return `${base} ${number}`;
+}
+
+// The host's extra blocklist from the create-game request: up to MAX_BLOCKED_WORDS words of 1-50 characters
+export function parseBlockedWords(words: unknown): string[] | null {
+  if (words === undefined) return [];
+  if (!Array.isArray(words) || words.length > MAX_BLOCKED_WORDS) return null;
+  const cleaned = words.map((word) => (typeof word === 'string' ? cleanNickname(word) : ''));
+  return cleaned.every((word) => word.length > 0 && word.length <= 50) ? cleaned : null;
+}
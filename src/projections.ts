@@ -0,0 +1,55 @@
+import type { ConnectionRole, GameState, GameStateView, Player, PlayerAnswer, PublicPlayer } from './types';
+
+// What each kind of connection is sent of the game. Fields are copied one by one so nothing
+// new on GameState reaches clients until it is added here on purpose.
+
+export function toPublicPlayer(player: Player): PublicPlayer {
+  return {
+    id: player.id,
+    nickname: player.nickname,
+    score: player.score,
+    connected: player.connected,
+    teamId: player.teamId,
+  };
+}
+
+// Orderings are stored in the quiz's item indices, and itemOrders is one shuffle shared by
+// every player, so sending those back would give away the correct order. Map them back to the
+// positions the player submitted.
+function toSubmittedAnswers(state: GameState, answers: Record<string, PlayerAnswer>): Record<string, PlayerAnswer> {
+  return Object.fromEntries(
+    Object.entries(answers).map(([questionId, answer]) => {
+      const itemOrder = state.itemOrders[questionId];
+      return answer.kind === 'order' && itemOrder
+        ? [questionId, { ...answer, order: answer.order.map((item) => itemOrder.indexOf(item)) }]
+        : [questionId, answer];
+    }),
+  );
+}
+
+// The quiz is reduced to a summary: its questions hold the answer key, and itemOrders give
+// away the correct order of ordering questions. playerId is the player the view is for.
+export function projectState(state: GameState, role: ConnectionRole, playerId: string | null): GameStateView {
+  const { quiz, teamMode } = state;
+  const player = role === 'player' && playerId ? state.players[playerId] : undefined;
+  return {
+    phase: state.phase,
+    gamePin: state.gamePin,
+    quiz: quiz ? { id: quiz.id, title: quiz.title, questionCount: quiz.questions.length } : null,
+    players: Object.fromEntries(Object.values(state.players).map((each) => [each.id, toPublicPlayer(each)])),
+    currentQuestionIndex: state.currentQuestionIndex,
+    questionStartTime: state.questionStartTime,
+    questionEndsAt: state.questionEndsAt,
+    hostConnected: state.hostConnected,
+    timerPaused: state.timerPaused,
+    pausedAtSecondsLeft: state.pausedAtSecondsLeft,
+    mode: state.mode,
+    deadline: state.deadline,
+    teamMode: teamMode
+      ? { scoring: teamMode.scoring, teams: teamMode.teams.map((team) => ({ id: team.id, name: team.name, score: team.score })) }
+      : null,
+    skippedQuestionIds: state.skippedQuestionIds,
+    settings: state.settings,
+    myAnswers: player ? toSubmittedAnswers(state, player.answers) : null,
+  };
+}
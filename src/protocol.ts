@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import type {
+  AnswerReveal,
+  AnswerValue,
+  GameSettings,
+  GameStateView,
+  LeaderboardEntry,
+  PlayerAnswer,
+  PlayerProgress,
+  PublicPlayer,
+  QuestionForPlayer,
+  TeamLeaderboardEntry,
+} from './types';
+
+// The WebSocket protocol, defined once: the Durable Object checks every message a client sends
+// against these schemas and the client checks every message the server sends. ClientMessage and
+// ServerMessage are inferred from them; the shapes they carry are pinned to the types in types.ts.
+
+// Bump when a change would break clients still running an older build. Clients send it
+// when connecting and are turned away with WS_CLOSE_OUTDATED if it doesn't match.
+export const PROTOCOL_VERSION = 2;
+
+const id = z.string().min(1);
+const count = z.number().int().min(0);
+const position = z.union([z.literal(1), z.literal(2), z.literal(3)]);
+
+export const answerValueSchema: z.ZodType<AnswerValue> = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('choice'), answerIndices: z.array(z.number().int()) }),
+  z.object({ kind: z.literal('text'), text: z.string() }),
+  z.object({ kind: z.literal('number'), value: z.number().finite() }),
+  z.object({ kind: z.literal('order'), order: z.array(z.number().int()) }),
+]);
+
+// ============== Client -> Server ==============
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('host_start_game') }),
+  z.object({ type: z.literal('host_next_question') }),
+  z.object({ type: z.literal('host_show_leaderboard') }),
+  z.object({ type: z.literal('host_show_podium') }),
+  z.object({ type: z.literal('host_pause') }),
+  z.object({ type: z.literal('host_resume') }),
+  z.object({ type: z.literal('host_skip_question') }),
+  z.object({ type: z.literal('host_add_time'), seconds: z.number() }),
+  z.object({ type: z.literal('host_end_game') }),
+  z.object({ type: z.literal('host_kick_player'), playerId: id }),
+  // Kick, and refuse the nickname and device from then on
+  z.object({ type: z.literal('host_ban_player'), playerId: id }),
+  z.object({ type: z.literal('host_rename_player'), playerId: id, nickname: z.string() }),
+  z.object({ type: z.literal('host_lock_lobby'), locked: z.boolean() }),
+  // Team mode: no teamId joins the smallest team; generated names: nickname is ignored
+  z.object({ type: z.literal('player_join'), nickname: z.string(), teamId: z.string().optional(), deviceId: z.string().optional() }),
+  // Team mode, lobby only
+  z.object({ type: z.literal('player_switch_team'), teamId: z.string() }),
+  z.object({ type: z.literal('player_rejoin'), playerId: id, nickname: z.string(), rejoinToken: z.string(), deviceId: z.string().optional() }),
+  // responseMs: how long the question had been on screen, by the player's own clock
+  z.object({ type: z.literal('player_answer'), questionId: id, answer: answerValueSchema, responseMs: z.number().min(0).optional() }),
+  // Assignment mode: start the player's next question
+  z.object({ type: z.literal('player_next_question') }),
+  // Any role: the server answers with its own time, for the client to work out the offset between clocks
+  z.object({ type: z.literal('clock_sync'), clientTime: z.number() }),
+  // Echo of the server's latency_probe, sent back as soon as it arrives
+  z.object({ type: z.literal('latency_probe'), nonce: z.string() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// ============== Server -> Client ==============
+
+const playerAnswerSchema: z.ZodType<PlayerAnswer> = answerValueSchema.and(
+  z.object({ timestamp: z.number(), points: z.number().optional(), responseMs: z.number().optional() })
+);
+
+const gameSettingsSchema: z.ZodType<GameSettings> = z.object({
+  nicknameMode: z.enum(['filter', 'generated', 'off']),
+  maxPlayers: z.number().int(),
+  lateJoin: z.enum(['off', 'zero', 'median']),
+  lobbyLocked: z.boolean(),
+});
+
+const publicPlayerSchema: z.ZodType<PublicPlayer> = z.object({
+  id,
+  nickname: z.string(),
+  score: z.number(),
+  connected: z.boolean(),
+  teamId: z.string().nullable(),
+});
+
+const gameStateViewSchema: z.ZodType<GameStateView> = z.object({
+  phase: z.enum(['lobby', 'question', 'leaderboard', 'podium', 'finished', 'assignment']),
+  gamePin: z.string(),
+  quiz: z.object({ id: z.string(), title: z.string(), questionCount: count }).nullable(),
+  players: z.record(publicPlayerSchema),
+  currentQuestionIndex: z.number().int(),
+  questionStartTime: z.number().nullable(),
+  questionEndsAt: z.number().nullable(),
+  hostConnected: z.boolean(),
+  timerPaused: z.boolean(),
+  pausedAtSecondsLeft: z.number().nullable(),
+  mode: z.enum(['live', 'assignment']),
+  deadline: z.number().nullable(),
+  teamMode: z
+    .object({
+      scoring: z.enum(['sum', 'average', 'consensus']),
+      teams: z.array(z.object({ id, name: z.string(), score: z.number() })),
+    })
+    .nullable(),
+  skippedQuestionIds: z.array(z.string()),
+  settings: gameSettingsSchema,
+  myAnswers: z.record(playerAnswerSchema).nullable(),
+});
+
+const questionBase = {
+  id,
+  text: z.string(),
+  imageUrl: z.string().optional(),
+  timerSeconds: z.number(),
+  doublePoints: z.boolean(),
+};
+
+const questionForPlayerSchema: z.ZodType<QuestionForPlayer> = z.union([
+  z.object({ ...questionBase, type: z.enum(['multiple_choice', 'true_false', 'poll']), answers: z.array(z.string()), multipleChoice: z.boolean() }),
+  z.object({ ...questionBase, type: z.literal('type_answer') }),
+  z.object({ ...questionBase, type: z.literal('slider'), min: z.number(), max: z.number(), step: z.number() }),
+  z.object({ ...questionBase, type: z.literal('ordering'), items: z.array(z.string()) }),
+]);
+
+const answerRevealSchema: z.ZodType<AnswerReveal> = z.union([
+  z.object({
+    type: z.enum(['multiple_choice', 'true_false', 'poll']),
+    answers: z.array(z.string()),
+    correctIndices: z.array(z.number().int()),
+    distribution: z.array(count),
+  }),
+  z.object({
+    type: z.literal('type_answer'),
+    acceptedAnswers: z.array(z.string()),
+    responses: z.array(z.object({ text: z.string(), count, correct: z.boolean() })),
+  }),
+  z.object({
+    type: z.literal('slider'),
+    min: z.number(),
+    max: z.number(),
+    correctValue: z.number(),
+    tolerance: z.number(),
+    responses: z.array(z.object({ value: z.number(), count })),
+  }),
+  z.object({
+    type: z.literal('ordering'),
+    items: z.array(z.string()),
+    correctPlacements: z.array(count),
+    exactCount: count,
+    responseCount: count,
+  }),
+]);
+
+const leaderboardEntrySchema: z.ZodType<LeaderboardEntry> = z.object({
+  playerId: id,
+  nickname: z.string(),
+  score: z.number(),
+  rank: z.number().int(),
+  lastAnswerCorrect: z.boolean().optional(),
+  pointsGained: z.number().optional(),
+  teamId: z.string().optional(),
+});
+
+const teamLeaderboardEntrySchema: z.ZodType<TeamLeaderboardEntry> = z.object({
+  teamId: id,
+  name: z.string(),
+  score: z.number(),
+  rank: z.number().int(),
+  memberCount: count,
+  pointsGained: z.number(),
+});
+
+const playerProgressSchema: z.ZodType<PlayerProgress> = z.object({
+  questionIndex: z.number().int(),
+  questionStartTime: z.number().nullable(),
+  finished: z.boolean(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('error'), message: z.string() }),
+  z.object({ type: z.literal('game_state'), state: gameStateViewSchema }),
+  // Sent only to the joining player
+  z.object({ type: z.literal('player_session'), playerId: id, rejoinToken: z.string() }),
+  z.object({ type: z.literal('player_joined'), player: publicPlayerSchema, playerCount: count }),
+  z.object({ type: z.literal('player_rejoined'), player: publicPlayerSchema, playerCount: count }),
+  z.object({ type: z.literal('player_left'), playerId: id, playerCount: count }),
+  // Kicked or banned by the host
+  z.object({ type: z.literal('player_removed'), playerId: id, playerCount: count }),
+  z.object({ type: z.literal('player_renamed'), playerId: id, nickname: z.string() }),
+  z.object({ type: z.literal('settings_changed'), settings: gameSettingsSchema }),
+  z.object({ type: z.literal('game_starting') }),
+  // endsAt is in server time, null while the timer is paused; clients count down to it on their synced clock
+  z.object({
+    type: z.literal('question_start'),
+    question: questionForPlayerSchema,
+    questionIndex: z.number().int(),
+    totalQuestions: count,
+    endsAt: z.number().nullable(),
+  }),
+  z.object({ type: z.literal('timer_tick'), secondsLeft: z.number(), endsAt: z.number().nullable() }),
+  z.object({ type: z.literal('answer_received'), playerId: id }),
+  z.object({
+    type: z.literal('question_end'),
+    scores: z.array(leaderboardEntrySchema),
+    teamScores: z.array(teamLeaderboardEntrySchema).optional(),
+    questionText: z.string(),
+    reveal: answerRevealSchema,
+    skipped: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('leaderboard_update'), leaderboard: z.array(leaderboardEntrySchema), teamLeaderboard: z.array(teamLeaderboardEntrySchema).optional() }),
+  z.object({ type: z.literal('podium_reveal'), position, player: leaderboardEntrySchema.nullable() }),
+  z.object({ type: z.literal('team_podium_reveal'), position, team: teamLeaderboardEntrySchema.nullable() }),
+  z.object({
+    type: z.literal('game_finished'),
+    finalLeaderboard: z.array(leaderboardEntrySchema),
+    finalTeamLeaderboard: z.array(teamLeaderboardEntrySchema).optional(),
+  }),
+  z.object({ type: z.literal('player_team_changed'), playerId: id, teamId: z.string() }),
+  z.object({ type: z.literal('game_paused'), reason: z.string() }),
+  z.object({ type: z.literal('game_resumed') }),
+  // Sent only to that player
+  z.object({ type: z.literal('assignment_progress'), progress: playerProgressSchema }),
+  // Reply to the sender's clock_sync
+  z.object({ type: z.literal('clock_sync'), clientTime: z.number(), serverTime: z.number() }),
+  // Sent only to that player, to time the round trip; echo it straight back
+  z.object({ type: z.literal('latency_probe'), nonce: z.string() }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+
+// What goes over the wire. Messages sent to more than one socket carry the game's next sequence
+// number, and game_state the number it is up to date with; reconnect with ?since=<seq> to resume.
+export const serverFrameSchema = serverMessageSchema.and(z.object({ seq: z.number().int().optional() }));
+
+export type ServerFrame = z.infer<typeof serverFrameSchema>;
+
+export type ParseResult<T> = { success: true; message: T } | { success: false; error: string };
+
+function parseMessage<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: string): ParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return { success: false, error: 'Invalid JSON' };
+  }
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+  const issue = result.error.issues[0];
+  if (issue.code === z.ZodIssueCode.invalid_union_discriminator) {
+    return { success: false, error: 'Unknown message type' };
+  }
+  const path = issue.path.join('.');
+  return { success: false, error: `Invalid message${path ? ` (${path})` : ''}: ${issue.message}` };
+}
+
+export function parseClientMessage(data: string): ParseResult<ClientMessage> {
+  return parseMessage(clientMessageSchema, data);
+}
+
+export function parseServerFrame(data: string): ParseResult<ServerFrame> {
+  return parseMessage(serverFrameSchema, data);
+}
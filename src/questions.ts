@@ -0,0 +1,284 @@
+import type { AnswerReveal, AnswerValue, Question, QuestionForPlayer } from './types';
+
+// Per-type rules for playing a question: what players see, what they may
+// submit, whether it is right, and how the answers are summarised afterwards.
+
+export const TRUE_FALSE_ANSWERS = ['True', 'False'];
+const MAX_TEXT_ANSWER_LENGTH = 200;
+const MAX_REVEALED_RESPONSES = 8;
+
+// Quizzes saved before question types existed are all multiple choice
+export function upgradeQuestion(question: Question): Question {
+  return question.type ? question : { ...(question as object), type: 'multiple_choice' } as Question;
+}
+
+// Options shown for questions answered by picking, or null for free-form questions
+export function choiceOptions(question: Question): string[] | null {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'poll':
+      return question.answers;
+    case 'true_false':
+      return TRUE_FALSE_ANSWERS;
+    default:
+      return null;
+  }
+}
+
+export function correctChoiceIndices(question: Question): number[] {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.correctIndices;
+    case 'true_false':
+      return [question.correctAnswer ? 0 : 1];
+    default:
+      return [];
+  }
+}
+
+// Polls have no right answer, so they never score
+export function isScored(question: Question): boolean {
+  return question.type !== 'poll';
+}
+
+// A random order to show ordering items in, never the correct one
+export function createItemOrder(itemCount: number): number[] {
+  const order = Array.from({ length: itemCount }, (_, i) => i);
+  if (itemCount < 2) return order;
+
+  do {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((item, position) => item === position));
+  return order;
+}
+
+// itemOrder is the shuffled order ordering items are shown in (see createItemOrder)
+export function toQuestionForPlayer(question: Question, includeImage: boolean, itemOrder?: number[]): QuestionForPlayer {
+  const base = {
+    id: question.id,
+    text: question.text,
+    imageUrl: includeImage ? question.imageUrl : undefined,
+    timerSeconds: question.timerSeconds,
+    doublePoints: question.doublePoints,
+  };
+
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'poll':
+      return {
+        ...base,
+        type: question.type,
+        answers: choiceOptions(question)!,
+        multipleChoice: question.type === 'multiple_choice' && question.correctIndices.length > 1,
+      };
+    case 'type_answer':
+      return { ...base, type: 'type_answer' };
+    case 'slider':
+      return { ...base, type: 'slider', min: question.min, max: question.max, step: question.step };
+    case 'ordering': {
+      const order = itemOrder ?? question.items.map((_, i) => i);
+      return { ...base, type: 'ordering', items: order.map((i) => question.items[i]) };
+    }
+  }
+}
+
+// Whether a submission has the right shape for the question; doesn't judge correctness
+export function isValidAnswer(question: Question, answer: AnswerValue): boolean {
+  if (!answer || typeof answer !== 'object') return false;
+
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'poll': {
+      if (answer.kind !== 'choice' || !Array.isArray(answer.answerIndices)) return false;
+      const optionCount = choiceOptions(question)!.length;
+      const indices = answer.answerIndices;
+      // Only multiple choice allows picking several options
+      const maxPicks = question.type === 'multiple_choice' ? optionCount : 1;
+      return (
+        indices.length > 0 &&
+        indices.length <= maxPicks &&
+        new Set(indices).size === indices.length &&
+        indices.every((i) => Number.isInteger(i) && i >= 0 && i < optionCount)
+      );
+    }
+    case 'type_answer':
+      return answer.kind === 'text' && typeof answer.text === 'string' &&
+        answer.text.trim().length > 0 && answer.text.length <= MAX_TEXT_ANSWER_LENGTH;
+    case 'slider':
+      return answer.kind === 'number' && Number.isFinite(answer.value) &&
+        answer.value >= question.min && answer.value <= question.max;
+    case 'ordering': {
+      if (answer.kind !== 'order' || !Array.isArray(answer.order)) return false;
+      // Must be a permutation of every item
+      const order = answer.order;
+      return (
+        order.length === question.items.length &&
+        new Set(order).size === order.length &&
+        order.every((i) => Number.isInteger(i) && i >= 0 && i < question.items.length)
+      );
+    }
+  }
+}
+
+// Lowercase, strip accents and punctuation, collapse whitespace
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short answers must be exact; longer ones may have one or two typos
+function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+export function matchesAcceptedAnswer(question: { acceptedAnswers: string[]; fuzzy: boolean }, text: string): boolean {
+  const given = normalizeText(text);
+  if (!given) return false;
+
+  return question.acceptedAnswers.some((accepted) => {
+    const expected = normalizeText(accepted);
+    if (given === expected) return true;
+    return question.fuzzy && editDistance(given, expected) <= allowedTypos(expected.length);
+  });
+}
+
+export function isAnswerCorrect(question: Question, answer: AnswerValue | undefined): boolean {
+  if (!answer || !isScored(question)) return false;
+
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false': {
+      if (answer.kind !== 'choice') return false;
+      const picked = new Set(answer.answerIndices);
+      const correct = correctChoiceIndices(question);
+      return picked.size === correct.length && correct.every((i) => picked.has(i));
+    }
+    case 'type_answer':
+      return answer.kind === 'text' && matchesAcceptedAnswer(question, answer.text);
+    case 'slider':
+      return answer.kind === 'number' && Math.abs(answer.value - question.correctValue) <= question.tolerance;
+    case 'ordering':
+      return answerCredit(question, answer) === 1;
+    default:
+      return false;
+  }
+}
+
+// Share of full points an answer earns: ordering questions give credit for each
+// item in the right place, every other type is all or nothing
+export function answerCredit(question: Question, answer: AnswerValue | undefined): number {
+  if (question.type !== 'ordering') {
+    return isAnswerCorrect(question, answer) ? 1 : 0;
+  }
+  if (answer?.kind !== 'order') return 0;
+  const inPlace = answer.order.filter((item, position) => item === position).length;
+  return inPlace / question.items.length;
+}
+
+// An answer as a person would read it, e.g. in a results spreadsheet
+export function describeAnswer(question: Question, answer: AnswerValue): string {
+  switch (answer.kind) {
+    case 'choice': {
+      const options = choiceOptions(question) ?? [];
+      return answer.answerIndices.map((i) => options[i] ?? `#${i + 1}`).join(', ');
+    }
+    case 'text':
+      return answer.text;
+    case 'number':
+      return String(answer.value);
+    case 'order':
+      return question.type === 'ordering' ? answer.order.map((i) => question.items[i]).join(' > ') : '';
+  }
+}
+
+// Summarise every player's answer for the reveal screen
+export function buildAnswerReveal(question: Question, answers: AnswerValue[]): AnswerReveal {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false':
+    case 'poll': {
+      const options = choiceOptions(question)!;
+      const distribution = options.map(() => 0);
+      for (const answer of answers) {
+        if (answer.kind !== 'choice') continue;
+        for (const index of answer.answerIndices) {
+          if (index >= 0 && index < options.length) distribution[index]++;
+        }
+      }
+      return { type: question.type, answers: options, correctIndices: correctChoiceIndices(question), distribution };
+    }
+
+    case 'type_answer': {
+      // Group spellings that normalise the same, showing the first one typed
+      const groups = new Map<string, { text: string; count: number; correct: boolean }>();
+      for (const answer of answers) {
+        if (answer.kind !== 'text') continue;
+        const key = normalizeText(answer.text);
+        const group = groups.get(key);
+        if (group) {
+          group.count++;
+        } else {
+          groups.set(key, { text: answer.text.trim(), count: 1, correct: matchesAcceptedAnswer(question, answer.text) });
+        }
+      }
+      const responses = [...groups.values()].sort((a, b) => b.count - a.count).slice(0, MAX_REVEALED_RESPONSES);
+      return { type: 'type_answer', acceptedAnswers: question.acceptedAnswers, responses };
+    }
+
+    case 'ordering': {
+      const correctPlacements = question.items.map(() => 0);
+      let exactCount = 0;
+      let responseCount = 0;
+      for (const answer of answers) {
+        if (answer.kind !== 'order') continue;
+        responseCount++;
+        answer.order.forEach((item, position) => {
+          if (item === position) correctPlacements[item]++;
+        });
+        if (answerCredit(question, answer) === 1) exactCount++;
+      }
+      return { type: 'ordering', items: question.items, correctPlacements, exactCount, responseCount };
+    }
+
+    case 'slider': {
+      const counts = new Map<number, number>();
+      for (const answer of answers) {
+        if (answer.kind !== 'number') continue;
+        counts.set(answer.value, (counts.get(answer.value) ?? 0) + 1);
+      }
+      const responses = [...counts.entries()].map(([value, count]) => ({ value, count })).sort((a, b) => a.value - b.value);
+      return {
+        type: 'slider',
+        min: question.min,
+        max: question.max,
+        correctValue: question.correctValue,
+        tolerance: question.tolerance,
+        responses,
+      };
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import type { Question, QuestionType, Quiz, QuizImportError, ScoringMode } from './types';
+import { embedImage, importImage } from './images';
+import { isXlsxCellTooLong, parseCsv, readXlsx, toCsv, writeXlsx, type Rows } from './spreadsheet';
+import { SCORING_MODES, describeFieldError, validateQuestion } from './validation';
+import { TRUE_FALSE_ANSWERS } from './questions';
+
+export type QuizFileFormat = 'json' | 'csv' | 'xlsx';
+
+const DEFAULT_TIMER_SECONDS = 20;
+
+// Header row written on export. Import matches headers by prefix, so Kahoot's
+// template ("Question - max 120 characters", "Time limit (sec) – 5, 10, ...") works too.
+// Rows without a type are multiple choice. Type-the-answer questions list their
+// accepted answers in "Correct answer(s)" separated by "|"; sliders put the correct value there.
+// Ordering questions list their items in the answer columns in the correct order.
+const HEADERS = [
+  'Question', 'Answer 1', 'Answer 2', 'Answer 3', 'Answer 4', 'Time limit (sec)', 'Correct answer(s)', 'Double points', 'Image',
+  'Type', 'Min', 'Max', 'Step', 'Tolerance', 'Allow typos',
+];
+
+type Column =
+  | 'text' | 'answer1' | 'answer2' | 'answer3' | 'answer4' | 'timer' | 'correct' | 'double' | 'image'
+  | 'type' | 'min' | 'max' | 'step' | 'tolerance' | 'typos';
+
+const HEADER_PREFIXES: [string, Column][] = [
+  ['question', 'text'],
+  ['answer 1', 'answer1'],
+  ['answer 2', 'answer2'],
+  ['answer 3', 'answer3'],
+  ['answer 4', 'answer4'],
+  ['time limit', 'timer'],
+  ['correct answer', 'correct'],
+  ['double points', 'double'],
+  ['image', 'image'],
+  ['type', 'type'],
+  ['min', 'min'],
+  ['max', 'max'],
+  ['step', 'step'],
+  ['tolerance', 'tolerance'],
+  ['allow typos', 'typos'],
+];
+
+// Spellings accepted in the Type column, besides the type ids themselves
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  'quiz': 'multiple_choice',
+  'multiple choice': 'multiple_choice',
+  'true/false': 'true_false',
+  'true or false': 'true_false',
+  'type answer': 'type_answer',
+  'type the answer': 'type_answer',
+  'open ended': 'type_answer',
+  'puzzle': 'ordering',
+};
+
+export const CONTENT_TYPES: Record<QuizFileFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function isQuizFileFormat(value: string | null): value is QuizFileFormat {
+  return value === 'json' || value === 'csv' || value === 'xlsx';
+}
+
+// Prefer an explicit ?format=, otherwise infer it from the upload's Content-Type
+export function detectImportFormat(url: URL, request: Request): QuizFileFormat | null {
+  const format = url.searchParams.get('format');
+  if (isQuizFileFormat(format)) return format;
+
+  const contentType = request.headers.get('Content-Type') || '';
+  if (contentType.includes('json')) return 'json';
+  if (contentType.includes('csv')) return 'csv';
+  if (contentType.includes('spreadsheetml')) return 'xlsx';
+  return null;
+}
+
+export function fileName(title: string, format: QuizFileFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz';
+  return `${slug}.${format}`;
+}
+
+// ============== Export ==============
+
+// The type-specific cells of an exported row: four answers, the correct answer(s),
+// then Min, Max, Step, Tolerance and Allow typos
+function typeColumns(question: Question): { answers: string[]; correct: string; extra: string[] } {
+  const noExtra = ['', '', '', '', ''];
+  const pad = (answers: string[]) => [...answers, '', '', '', ''].slice(0, 4);
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return { answers: question.answers, correct: question.correctIndices.map((index) => index + 1).join(','), extra: noExtra };
+    case 'true_false':
+      return { answers: pad(TRUE_FALSE_ANSWERS), correct: question.correctAnswer ? '1' : '2', extra: noExtra };
+    case 'poll':
+      return { answers: pad(question.answers), correct: '', extra: noExtra };
+    case 'ordering':
+      return { answers: pad(question.items), correct: '', extra: noExtra };
+    case 'type_answer':
+      return { answers: pad([]), correct: question.acceptedAnswers.join(' | '), extra: ['', '', '', '', question.fuzzy ? 'yes' : 'no'] };
+    case 'slider':
+      return {
+        answers: pad([]),
+        correct: String(question.correctValue),
+        extra: [String(question.min), String(question.max), String(question.step), String(question.tolerance), ''],
+      };
+  }
+}
+
+export async function exportQuiz(env: Env, quiz: Quiz, format: QuizFileFormat): Promise<Response> {
+  const embeddedImages = await Promise.all(quiz.questions.map((q) => (q.imageUrl ? embedImage(env, q.imageUrl) : '')));
+  const questions = quiz.questions.map((q, i) => ({ ...q, imageUrl: embeddedImages[i] || undefined }));
+
+  let body: string | Uint8Array;
+  if (format === 'json') {
+    body = JSON.stringify({ title: quiz.title, scoring: quiz.scoring, questions }, null, 2);
+  } else {
+    const rows: Rows = [
+      HEADERS,
+      ...questions.map((q, i) => {
+        const { answers, correct, extra } = typeColumns(q);
+        return [
+          q.text,
+          ...answers,
+          String(q.timerSeconds),
+          correct,
+          q.doublePoints ? 'yes' : 'no',
+          // Excel rejects cells this long, so very large images stay as links there
+          format === 'xlsx' && isXlsxCellTooLong(q.imageUrl ?? '') ? quiz.questions[i].imageUrl ?? '' : q.imageUrl ?? '',
+          q.type,
+          ...extra,
+        ];
+      }),
+    ];
+    body = format === 'csv' ? toCsv(rows) : writeXlsx(rows, quiz.title);
+  }
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName(quiz.title, format)}"`,
+    },
+  });
+}
+
+// ============== Import ==============
+
+export interface ParsedImport {
+  quiz: Quiz;
+  errors: QuizImportError[];
+}
+
+// A question read from the file, with where it came from and its raw image reference
+type ImportedRow = { row: number; question: Question; image: string };
+
+function mapHeaderRow(row: string[]): Map<Column, number> | null {
+  const columns = new Map<Column, number>();
+  row.forEach((cell, index) => {
+    const header = cell.trim().toLowerCase();
+    const match = HEADER_PREFIXES.find(([prefix]) => header.startsWith(prefix));
+    if (match && !columns.has(match[1])) {
+      columns.set(match[1], index);
+    }
+  });
+  return columns.has('text') && columns.has('answer1') ? columns : null;
+}
+
+function parseType(value: string): string {
+  const type = value.trim().toLowerCase();
+  return type ? TYPE_ALIASES[type] ?? type.replace(/[\s-]+/g, '_') : 'multiple_choice';
+}
+
+// Empty cells stay undefined so validation reports them as missing
+function parseNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function isYes(value: string): boolean {
+  return /^(y|yes|true|1|x)$/i.test(value);
+}
+
+// Build the question a row describes; validation reports anything missing or wrong
+function rowToQuestion(cell: (column: Column) => string): Question {
+  const timer = cell('timer');
+  const base = {
+    id: crypto.randomUUID(),
+    text: cell('text'),
+    timerSeconds: (timer ? Number(timer) : DEFAULT_TIMER_SECONDS) as Question['timerSeconds'],
+    doublePoints: isYes(cell('double')),
+  };
+  const answers = [cell('answer1'), cell('answer2'), cell('answer3'), cell('answer4')];
+  const type = parseType(cell('type'));
+
+  switch (type) {
+    case 'true_false': {
+      // "1"/"True" is the first option and "2"/"False" the second; anything else is left for validation to reject
+      const correct = cell('correct').toLowerCase();
+      const correctAnswer = correct === '1' || correct === 'true' ? true : correct === '2' || correct === 'false' ? false : undefined;
+      return { ...base, type, correctAnswer } as Question;
+    }
+    case 'poll':
+      return { ...base, type, answers: answers.filter(Boolean) };
+    case 'ordering':
+      return { ...base, type, items: answers.filter(Boolean) };
+    case 'type_answer':
+      return {
+        ...base,
+        type,
+        acceptedAnswers: cell('correct').split('|').map((answer) => answer.trim()).filter(Boolean),
+        fuzzy: cell('typos') ? isYes(cell('typos')) : true,
+      };
+    case 'slider':
+      return {
+        ...base,
+        type,
+        min: parseNumber(cell('min'))!,
+        max: parseNumber(cell('max'))!,
+        step: parseNumber(cell('step')) ?? 1,
+        correctValue: parseNumber(cell('correct'))!,
+        tolerance: parseNumber(cell('tolerance')) ?? 0,
+      };
+    default:
+      // Unknown types fall through to validation, which names the problem
+      return {
+        ...base,
+        type: type as 'multiple_choice',
+        answers: answers as [string, string, string, string],
+        correctIndices: parseCorrectAnswers(cell('correct')),
+      };
+  }
+}
+
+function parseCorrectAnswers(value: string): number[] {
+  // Spreadsheets number answers 1-4; anything unparsable becomes -1 so validation rejects it
+  return value
+    .split(/[,;\s]+/)
+    .filter(Boolean)
+    .map((token) => (/^\d+$/.test(token) ? Number(token) - 1 : -1));
+}
+
+function parseRows(rows: Rows, title: string): { questions: ImportedRow[]; errors: QuizImportError[] } {
+  // Kahoot's template has instructions above the header, so look for it
+  const headerIndex = rows.findIndex((row) => mapHeaderRow(row) !== null);
+  if (headerIndex === -1) {
+    return { questions: [], errors: [{ row: null, message: 'Could not find a header row with "Question" and "Answer 1" columns' }] };
+  }
+
+  const columns = mapHeaderRow(rows[headerIndex])!;
+  const cell = (row: string[], column: Column) => {
+    const index = columns.get(column);
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const questions: ImportedRow[] = [];
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    if (row.every((value) => !value?.trim())) return;
+
+    questions.push({
+      row: headerIndex + offset + 2, // 1-based spreadsheet row number
+      image: cell(row, 'image'),
+      question: rowToQuestion((column) => cell(row, column)),
+    });
+  });
+
+  if (questions.length === 0) {
+    return { questions, errors: [{ row: null, message: `"${title}" has no questions` }] };
+  }
+  return { questions, errors: [] };
+}
+
+type ParsedFile = { title: string | null; scoring?: ScoringMode; questions: ImportedRow[]; errors: QuizImportError[] };
+
+function parseJson(text: string): ParsedFile {
+  let data: Partial<Quiz>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { title: null, questions: [], errors: [{ row: null, message: 'Invalid JSON' }] };
+  }
+  if (!data || !Array.isArray(data.questions)) {
+    return { title: null, questions: [], errors: [{ row: null, message: 'JSON must contain a "questions" array' }] };
+  }
+
+  const scoring = data.scoring ?? 'classic';
+  if (!(SCORING_MODES as readonly string[]).includes(scoring)) {
+    return { title: null, questions: [], errors: [{ row: null, message: `Unknown scoring mode "${scoring}"` }] };
+  }
+
+  return {
+    title: typeof data.title === 'string' ? data.title : null,
+    scoring,
+    errors: [],
+    questions: data.questions.map((q, index) => ({
+      row: index + 1, // Question number for JSON files
+      image: q?.imageUrl ?? '',
+      question: { ...q, id: q?.id || crypto.randomUUID(), imageUrl: undefined },
+    })),
+  };
+}
+
+// Parse an uploaded quiz file, validate every question with the same rules
+// the game uses, and upload embedded images to R2 once the file is valid
+export async function importQuiz(env: Env, body: ArrayBuffer, format: QuizFileFormat, fallbackTitle: string): Promise<ParsedImport> {
+  let parsed: ParsedFile;
+
+  if (format === 'json') {
+    parsed = parseJson(new TextDecoder().decode(body));
+  } else {
+    let rows: Rows;
+    try {
+      rows = format === 'csv' ? parseCsv(new TextDecoder().decode(body)) : readXlsx(new Uint8Array(body));
+    } catch (e) {
+      return { quiz: { id: '', title: fallbackTitle, questions: [], scoring: 'classic' }, errors: [{ row: null, message: (e as Error).message }] };
+    }
+    parsed = { title: null, ...parseRows(rows, fallbackTitle) };
+  }
+
+  const title = (parsed.title || fallbackTitle).trim();
+  const errors = [...parsed.errors];
+  if (!title) {
+    errors.push({ row: null, message: 'Quiz title is required' });
+  }
+
+  for (const imported of parsed.questions) {
+    // Validate with the raw image reference so image-only questions pass; it is swapped for an R2 URL below
+    const validation = validateQuestion({ ...imported.question, imageUrl: imported.image || undefined });
+    if (validation.success) {
+      imported.question = { ...validation.data, imageUrl: undefined };
+    } else {
+      errors.push(...validation.errors.map((error) => ({ row: imported.row, message: describeFieldError(error) })));
+    }
+  }
+
+  // Only upload images once the whole file is valid, so a failed import leaves nothing behind in R2
+  const questions = parsed.questions.map(({ question }) => question);
+  if (errors.length === 0) {
+    for (const { row, question, image } of parsed.questions) {
+      if (!image) continue;
+      try {
+        question.imageUrl = await importImage(env, image);
+      } catch (e) {
+        errors.push({ row, message: `Image: ${(e as Error).message}` });
+      }
+    }
+  }
+
+  return { quiz: { id: crypto.randomUUID(), title, questions, scoring: parsed.scoring ?? 'classic' }, errors };
+}
@@ -0,0 +1,330 @@
+import type { Question, Quiz, QuizAccess, QuizFieldError, QuizImportResponse, QuizValidationErrorResponse, SavedQuiz, ScoringMode, User } from './types';
+import { generateToken } from './crypto';
+import { isTeamMember } from './teams';
+import { detectImportFormat, exportQuiz, importQuiz, isQuizFileFormat } from './quizTransfer';
+import { validateQuiz } from './validation';
+import { upgradeQuestion } from './questions';
+import { handleQuizReportRoute } from './results';
+
+type QuizRow = {
+  id: string;
+  title: string;
+  questions: string;
+  scoring: ScoringMode;
+  owner_id: string | null;
+  team_id: string | null;
+  share_token: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+const QUIZ_COLUMNS = 'quizzes.id, quizzes.title, quizzes.questions, quizzes.scoring, quizzes.owner_id, quizzes.team_id, quizzes.share_token, quizzes.created_at, quizzes.updated_at';
+
+function toSavedQuiz(row: QuizRow, access: QuizAccess): SavedQuiz {
+  return {
+    id: row.id,
+    title: row.title,
+    questions: (JSON.parse(row.questions) as Question[]).map(upgradeQuestion),
+    scoring: row.scoring,
+    ownerId: row.owner_id,
+    teamId: row.team_id,
+    access,
+    // Only the owner manages the share link
+    shareToken: access === 'owner' ? row.share_token : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Owners have full control, team members can edit, link recipients can only view and clone
+async function getQuizAccess(env: Env, row: QuizRow, userId: string): Promise<QuizAccess | null> {
+  if (row.owner_id === userId) return 'owner';
+  if (row.team_id && (await isTeamMember(env, row.team_id, userId))) return 'editor';
+
+  const share = await env.DB.prepare('SELECT 1 FROM quiz_shares WHERE quiz_id = ? AND user_id = ?')
+    .bind(row.id, userId)
+    .first();
+  return share ? 'viewer' : null;
+}
+
+function forbidden(message: string): Response {
+  return Response.json({ error: message }, { status: 403 });
+}
+
+function invalidQuiz(fieldErrors: QuizFieldError[]): Response {
+  const response: QuizValidationErrorResponse = { error: 'Please fix the highlighted fields', fieldErrors };
+  return Response.json(response, { status: 400 });
+}
+
+// Load a quiz the user may see, or null if it doesn't exist or they have no access
+export async function loadQuizForUser(env: Env, quizId: string, user: User): Promise<SavedQuiz | null> {
+  const row = await env.DB.prepare(`SELECT ${QUIZ_COLUMNS} FROM quizzes WHERE id = ?`)
+    .bind(quizId)
+    .first<QuizRow>();
+  if (!row) return null;
+
+  const access = await getQuizAccess(env, row, user.id);
+  return access ? toSavedQuiz(row, access) : null;
+}
+
+async function listQuizzes(url: URL, env: Env, user: User): Promise<Response> {
+  const scope = url.searchParams.get('scope') ?? 'mine';
+
+  if (scope === 'mine') {
+    const { results } = await env.DB.prepare(
+      `SELECT ${QUIZ_COLUMNS} FROM quizzes WHERE owner_id = ? ORDER BY updated_at DESC`
+    )
+      .bind(user.id)
+      .all<QuizRow>();
+    return Response.json(results.map((row) => toSavedQuiz(row, 'owner')));
+  }
+
+  if (scope === 'shared') {
+    const { results } = await env.DB.prepare(
+      `SELECT ${QUIZ_COLUMNS} FROM quizzes
+       JOIN quiz_shares ON quiz_shares.quiz_id = quizzes.id
+       WHERE quiz_shares.user_id = ? AND (quizzes.owner_id IS NULL OR quizzes.owner_id != ?)
+       ORDER BY quizzes.updated_at DESC`
+    )
+      .bind(user.id, user.id)
+      .all<QuizRow>();
+    return Response.json(results.map((row) => toSavedQuiz(row, 'viewer')));
+  }
+
+  if (scope === 'team') {
+    const teamId = url.searchParams.get('teamId');
+    if (teamId && !(await isTeamMember(env, teamId, user.id))) {
+      return forbidden('You are not a member of this team');
+    }
+
+    const { results } = await env.DB.prepare(
+      `SELECT ${QUIZ_COLUMNS} FROM quizzes
+       JOIN team_members ON team_members.team_id = quizzes.team_id
+       WHERE team_members.user_id = ? AND (? IS NULL OR quizzes.team_id = ?)
+       ORDER BY quizzes.updated_at DESC`
+    )
+      .bind(user.id, teamId, teamId)
+      .all<QuizRow>();
+    return Response.json(results.map((row) => toSavedQuiz(row, row.owner_id === user.id ? 'owner' : 'editor')));
+  }
+
+  return Response.json({ error: `Unknown scope: ${scope}` }, { status: 400 });
+}
+
+async function insertQuiz(env: Env, quiz: Quiz, ownerId: string, teamId: string | null): Promise<SavedQuiz> {
+  const now = Date.now();
+  await env.DB.prepare(
+    'INSERT INTO quizzes (id, title, questions, scoring, owner_id, team_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+  )
+    .bind(quiz.id, quiz.title, JSON.stringify(quiz.questions), quiz.scoring, ownerId, teamId, now, now)
+    .run();
+
+  return { ...quiz, ownerId, teamId, access: 'owner', shareToken: null, createdAt: now, updatedAt: now };
+}
+
+export async function handleQuizRoute(url: URL, request: Request, env: Env, user: User): Promise<Response> {
+  // GET /api/quizzes?scope=mine|shared|team[&teamId=] - List quizzes visible to the signed-in user
+  if (url.pathname === '/api/quizzes' && request.method === 'GET') {
+    return listQuizzes(url, env, user);
+  }
+
+  // POST /api/quizzes - Save a new quiz, optionally into a team folder
+  if (url.pathname === '/api/quizzes' && request.method === 'POST') {
+    const body = (await request.json().catch(() => ({}))) as Partial<Quiz> & { teamId?: string | null };
+    const validation = validateQuiz(body);
+    if (!validation.success) {
+      return invalidQuiz(validation.errors);
+    }
+
+    const quizId = body.id || crypto.randomUUID();
+    const teamId = body.teamId ?? null;
+
+    if (teamId && !(await isTeamMember(env, teamId, user.id))) {
+      return forbidden('You are not a member of this team');
+    }
+
+    const existing = await env.DB.prepare('SELECT id FROM quizzes WHERE id = ?')
+      .bind(quizId)
+      .first();
+    if (existing) {
+      return Response.json({ error: 'A quiz with this id already exists' }, { status: 409 });
+    }
+
+    const savedQuiz = await insertQuiz(env, { id: quizId, ...validation.data }, user.id, teamId);
+    return Response.json(savedQuiz, { status: 201 });
+  }
+
+  // POST /api/quizzes/import?format=json|csv|xlsx&title= - Create a quiz from an uploaded file
+  if (url.pathname === '/api/quizzes/import' && request.method === 'POST') {
+    const format = detectImportFormat(url, request);
+    if (!format) {
+      return Response.json({ error: 'Unsupported file format. Use JSON, CSV or XLSX.' }, { status: 415 });
+    }
+
+    const { quiz, errors } = await importQuiz(env, await request.arrayBuffer(), format, url.searchParams.get('title') || 'Imported quiz');
+    if (errors.length > 0) {
+      const response: QuizImportResponse = { error: 'Import failed', errors };
+      return Response.json(response, { status: 422 });
+    }
+
+    const savedQuiz = await insertQuiz(env, quiz, user.id, null);
+    return Response.json(savedQuiz, { status: 201 });
+  }
+
+  const match = url.pathname.match(/^\/api\/quizzes\/([^/]+)(?:\/(share|clone|export|reports))?$/);
+  if (!match) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const [, quizId, action] = match;
+  const result = await env.DB.prepare(`SELECT ${QUIZ_COLUMNS} FROM quizzes WHERE id = ?`)
+    .bind(quizId)
+    .first<QuizRow>();
+
+  if (!result) {
+    return Response.json({ error: 'Quiz not found' }, { status: 404 });
+  }
+
+  const access = await getQuizAccess(env, result, user.id);
+  if (!access) {
+    return forbidden('You do not have access to this quiz');
+  }
+
+  // POST /api/quizzes/:id/share - Create (or return) the read-only share link
+  if (action === 'share' && request.method === 'POST') {
+    if (access !== 'owner') {
+      return forbidden('Only the owner can share this quiz');
+    }
+    const shareToken = result.share_token ?? generateToken(16);
+    if (!result.share_token) {
+      await env.DB.prepare('UPDATE quizzes SET share_token = ? WHERE id = ?')
+        .bind(shareToken, quizId)
+        .run();
+    }
+    return Response.json({ shareToken });
+  }
+
+  // DELETE /api/quizzes/:id/share - Revoke the share link and everyone who used it
+  if (action === 'share' && request.method === 'DELETE') {
+    if (access !== 'owner') {
+      return forbidden('Only the owner can stop sharing this quiz');
+    }
+    await env.DB.batch([
+      env.DB.prepare('UPDATE quizzes SET share_token = NULL WHERE id = ?').bind(quizId),
+      env.DB.prepare('DELETE FROM quiz_shares WHERE quiz_id = ?').bind(quizId),
+    ]);
+    return Response.json({ success: true });
+  }
+
+  // POST /api/quizzes/:id/clone - Copy any quiz the user can see into their own library
+  if (action === 'clone' && request.method === 'POST') {
+    const source = toSavedQuiz(result, access);
+    const clone = await insertQuiz(
+      env,
+      { id: crypto.randomUUID(), title: `Copy of ${source.title}`, questions: source.questions, scoring: source.scoring },
+      user.id,
+      null
+    );
+    return Response.json(clone, { status: 201 });
+  }
+
+  // GET /api/quizzes/:id/export?format=json|csv|xlsx - Download a quiz with its images embedded
+  if (action === 'export' && request.method === 'GET') {
+    const format = url.searchParams.get('format') ?? 'json';
+    if (!isQuizFileFormat(format)) {
+      return Response.json({ error: 'Format must be json, csv or xlsx' }, { status: 400 });
+    }
+    return exportQuiz(env, toSavedQuiz(result, access), format);
+  }
+
+  // GET /api/quizzes/:id/reports - Results across every game played from this quiz
+  if (action === 'reports' && request.method === 'GET') {
+    if (access === 'viewer') {
+      return forbidden('Only the owner and team members can see reports');
+    }
+    return handleQuizReportRoute(toSavedQuiz(result, access), env);
+  }
+
+  if (action) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  // GET /api/quizzes/:id - Get a saved quiz
+  if (request.method === 'GET') {
+    return Response.json(toSavedQuiz(result, access));
+  }
+
+  // PUT /api/quizzes/:id - Update a saved quiz (owner or team editor)
+  if (request.method === 'PUT') {
+    if (access === 'viewer') {
+      return forbidden('This quiz was shared with you read-only. Clone it to make changes.');
+    }
+
+    const updates = (await request.json().catch(() => ({}))) as Partial<Quiz> & { teamId?: string | null };
+    const validation = validateQuiz(updates);
+    if (!validation.success) {
+      return invalidQuiz(validation.errors);
+    }
+
+    // Moving a quiz between team folders is reserved for its owner
+    let teamId = result.team_id;
+    if (updates.teamId !== undefined && updates.teamId !== result.team_id) {
+      if (access !== 'owner') {
+        return forbidden('Only the owner can move this quiz to another team');
+      }
+      if (updates.teamId && !(await isTeamMember(env, updates.teamId, user.id))) {
+        return forbidden('You are not a member of this team');
+      }
+      teamId = updates.teamId;
+    }
+
+    const updatedAt = Date.now();
+
+    await env.DB.prepare(
+      'UPDATE quizzes SET title = ?, questions = ?, scoring = ?, team_id = ?, updated_at = ? WHERE id = ?'
+    )
+      .bind(validation.data.title, JSON.stringify(validation.data.questions), validation.data.scoring, teamId, updatedAt, quizId)
+      .run();
+
+    // Fetch updated quiz
+    const updated = await env.DB.prepare(`SELECT ${QUIZ_COLUMNS} FROM quizzes WHERE id = ?`)
+      .bind(quizId)
+      .first<QuizRow>();
+
+    return Response.json(toSavedQuiz(updated!, access));
+  }
+
+  // DELETE /api/quizzes/:id - Delete a saved quiz (owner only)
+  if (request.method === 'DELETE') {
+    if (access !== 'owner') {
+      return forbidden('Only the owner can delete this quiz');
+    }
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM quiz_shares WHERE quiz_id = ?').bind(quizId),
+      env.DB.prepare('DELETE FROM quizzes WHERE id = ?').bind(quizId),
+    ]);
+    return Response.json({ success: true });
+  }
+
+  return new Response('Not found', { status: 404 });
+}
+
+// GET /api/shared/:token - Open a share link; the quiz then appears under "Shared with me"
+export async function handleSharedQuizRoute(shareToken: string, env: Env, user: User): Promise<Response> {
+  const result = await env.DB.prepare(`SELECT ${QUIZ_COLUMNS} FROM quizzes WHERE share_token = ?`)
+    .bind(shareToken)
+    .first<QuizRow>();
+
+  if (!result) {
+    return Response.json({ error: 'This share link is invalid or has been revoked' }, { status: 404 });
+  }
+
+  if (result.owner_id !== user.id) {
+    await env.DB.prepare('INSERT OR IGNORE INTO quiz_shares (quiz_id, user_id, created_at) VALUES (?, ?, ?)')
+      .bind(result.id, user.id, Date.now())
+      .run();
+  }
+
+  const access = (await getQuizAccess(env, result, user.id))!;
+  return Response.json(toSavedQuiz(result, access));
+}
@@ -0,0 +1,224 @@
+import type { GameResultAnswer, GameResults, LeaderboardEntry, Player, Question, QuestionStats, Quiz, QuizReport, SavedQuiz, User } from './types';
+import { describeAnswer, isAnswerCorrect, isScored } from './questions';
+import { CONTENT_TYPES, fileName } from './quizTransfer';
+import { toCsv, writeXlsx, type Rows } from './spreadsheet';
+
+// ============== Game Results ==============
+
+const HARDEST_QUESTION_COUNT = 5;
+
+export interface FinishedGame {
+  gameId: string;
+  hostId: string;
+  quiz: Quiz;
+  players: Player[];
+  leaderboard: LeaderboardEntry[];
+  finishedAt: number;
+}
+
+type GameRow = { id: string; quiz_id: string; host_id: string; quiz_title: string; questions: string; finished_at: number };
+type StatsRow = { question_id: string; answer_count: number; accuracy: number | null; average_response_ms: number | null };
+
+// Write a finished game, its leaderboard and every answer to D1.
+// Rows are passed as one JSON parameter per table so a large game is still three statements.
+export async function saveGameResults(env: Env, game: FinishedGame): Promise<void> {
+  const answers: GameResultAnswer[] = [];
+  for (const player of game.players) {
+    for (const question of game.quiz.questions) {
+      const answer = player.answers[question.id];
+      if (!answer) continue;
+      const { timestamp, points, responseMs, ...value } = answer;
+      answers.push({
+        playerId: player.id,
+        questionId: question.id,
+        answer: value,
+        correct: isScored(question) ? isAnswerCorrect(question, answer) : null,
+        points: points ?? 0,
+        responseMs: responseMs ?? 0,
+      });
+    }
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      'INSERT OR REPLACE INTO games (id, quiz_id, host_id, quiz_title, questions, finished_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(game.gameId, game.quiz.id, game.hostId, game.quiz.title, JSON.stringify(game.quiz.questions), game.finishedAt),
+    env.DB.prepare(
+      `INSERT OR REPLACE INTO game_players (game_id, player_id, nickname, score, rank)
+       SELECT ?, json_extract(value, '$.playerId'), json_extract(value, '$.nickname'),
+              json_extract(value, '$.score'), json_extract(value, '$.rank')
+       FROM json_each(?)`
+    ).bind(game.gameId, JSON.stringify(game.leaderboard)),
+    env.DB.prepare(
+      `INSERT OR REPLACE INTO game_answers (game_id, player_id, question_id, answer, correct, points, response_ms)
+       SELECT ?, json_extract(value, '$.playerId'), json_extract(value, '$.questionId'), json_extract(value, '$.answer'),
+              json_extract(value, '$.correct'), json_extract(value, '$.points'), json_extract(value, '$.responseMs')
+       FROM json_each(?)`
+    ).bind(game.gameId, JSON.stringify(answers)),
+  ]);
+}
+
+function toQuestionStats(questions: Question[], rows: StatsRow[]): QuestionStats[] {
+  const byQuestion = new Map(rows.map((row) => [row.question_id, row]));
+  return questions.map((question, index) => {
+    const row = byQuestion.get(question.id);
+    return {
+      questionId: question.id,
+      questionIndex: index,
+      text: question.text,
+      type: question.type,
+      answerCount: row?.answer_count ?? 0,
+      accuracy: row?.accuracy ?? null,
+      averageResponseMs: row?.average_response_ms ?? null,
+    };
+  });
+}
+
+// Only the host who ran the game can see its results
+async function loadGameResults(gameId: string, env: Env, user: User): Promise<GameResults | null> {
+  const game = await env.DB.prepare('SELECT id, quiz_id, host_id, quiz_title, questions, finished_at FROM games WHERE id = ?')
+    .bind(gameId)
+    .first<GameRow>();
+  if (!game || game.host_id !== user.id) {
+    return null;
+  }
+
+  const [players, answers, stats] = await env.DB.batch<Record<string, unknown>>([
+    env.DB.prepare('SELECT player_id, nickname, score, rank FROM game_players WHERE game_id = ? ORDER BY rank').bind(gameId),
+    env.DB.prepare('SELECT player_id, question_id, answer, correct, points, response_ms FROM game_answers WHERE game_id = ?').bind(gameId),
+    env.DB.prepare(
+      `SELECT question_id, COUNT(*) AS answer_count, AVG(correct) AS accuracy, AVG(response_ms) AS average_response_ms
+       FROM game_answers WHERE game_id = ? GROUP BY question_id`
+    ).bind(gameId),
+  ]);
+
+  const questions = JSON.parse(game.questions) as Question[];
+  return {
+    gameId: game.id,
+    quizId: game.quiz_id,
+    quizTitle: game.quiz_title,
+    questions,
+    finishedAt: game.finished_at,
+    leaderboard: players.results.map((row) => ({
+      playerId: row.player_id as string,
+      nickname: row.nickname as string,
+      score: row.score as number,
+      rank: row.rank as number,
+    })),
+    answers: answers.results.map((row) => ({
+      playerId: row.player_id as string,
+      questionId: row.question_id as string,
+      answer: JSON.parse(row.answer as string),
+      correct: row.correct === null ? null : row.correct === 1,
+      points: row.points as number,
+      responseMs: row.response_ms as number,
+    })),
+    questionStats: toQuestionStats(questions, stats.results as StatsRow[]),
+  };
+}
+
+// GET /api/games/:id/results
+export async function handleGameResultsRoute(gameId: string, env: Env, user: User): Promise<Response> {
+  const results = await loadGameResults(gameId, env, user);
+  if (!results) {
+    return Response.json({ error: 'Results not found' }, { status: 404 });
+  }
+  return Response.json(results);
+}
+
+// One row per player: rank, nickname and score, then answer, correct, points and
+// response time for each question
+function resultRows(results: GameResults): Rows {
+  const answers = new Map(results.answers.map((answer) => [`${answer.playerId}:${answer.questionId}`, answer]));
+  const header = ['Rank', 'Player', 'Score'];
+  results.questions.forEach((question, index) => {
+    const label = `Q${index + 1}`;
+    header.push(`${label} ${question.text}`.trim(), `${label} correct`, `${label} points`, `${label} time (s)`);
+  });
+
+  const rows = results.leaderboard.map((entry) => {
+    const row = [String(entry.rank), entry.nickname, String(entry.score)];
+    for (const question of results.questions) {
+      const answer = answers.get(`${entry.playerId}:${question.id}`);
+      if (!answer) {
+        row.push('', '', '0', '');
+        continue;
+      }
+      row.push(
+        describeAnswer(question, answer.answer),
+        answer.correct === null ? '' : answer.correct ? 'yes' : 'no',
+        String(answer.points),
+        (answer.responseMs / 1000).toFixed(1),
+      );
+    }
+    return row;
+  });
+
+  return [header, ...rows];
+}
+
+// GET /api/games/:id/export?format=csv|xlsx - Download the results as a spreadsheet
+export async function handleGameExportRoute(gameId: string, url: URL, env: Env, user: User): Promise<Response> {
+  const format = url.searchParams.get('format') ?? 'csv';
+  if (format !== 'csv' && format !== 'xlsx') {
+    return Response.json({ error: 'Format must be csv or xlsx' }, { status: 400 });
+  }
+
+  const results = await loadGameResults(gameId, env, user);
+  if (!results) {
+    return Response.json({ error: 'Results not found' }, { status: 404 });
+  }
+
+  const rows = resultRows(results);
+  const title = `${results.quizTitle} results`;
+  return new Response(format === 'csv' ? toCsv(rows) : writeXlsx(rows, 'Results'), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName(title, format)}"`,
+    },
+  });
+}
+
+// GET /api/quizzes/:id/reports - Accuracy and timing across every finished run of the quiz
+export async function handleQuizReportRoute(quiz: SavedQuiz, env: Env): Promise<Response> {
+  const [games, stats, overall] = await env.DB.batch<Record<string, unknown>>([
+    env.DB.prepare(
+      `SELECT games.id, games.finished_at, COUNT(game_players.player_id) AS player_count, AVG(game_players.score) AS average_score
+       FROM games LEFT JOIN game_players ON game_players.game_id = games.id
+       WHERE games.quiz_id = ? GROUP BY games.id ORDER BY games.finished_at DESC`
+    ).bind(quiz.id),
+    env.DB.prepare(
+      `SELECT question_id, COUNT(*) AS answer_count, AVG(correct) AS accuracy, AVG(response_ms) AS average_response_ms
+       FROM game_answers JOIN games ON games.id = game_answers.game_id
+       WHERE games.quiz_id = ? GROUP BY question_id`
+    ).bind(quiz.id),
+    env.DB.prepare(
+      `SELECT AVG(correct) AS accuracy, AVG(response_ms) AS average_response_ms
+       FROM game_answers JOIN games ON games.id = game_answers.game_id
+       WHERE games.quiz_id = ?`
+    ).bind(quiz.id),
+  ]);
+
+  // Report on the quiz as it is now; stats for questions since deleted are dropped
+  const questions = toQuestionStats(quiz.questions, stats.results as StatsRow[]);
+  const totals = overall.results[0] ?? {};
+  const report: QuizReport = {
+    quizId: quiz.id,
+    gameCount: games.results.length,
+    playerCount: games.results.reduce((sum, row) => sum + (row.player_count as number), 0),
+    accuracy: (totals.accuracy as number | null) ?? null,
+    averageResponseMs: (totals.average_response_ms as number | null) ?? null,
+    questions,
+    hardestQuestions: questions
+      .filter((question) => question.accuracy !== null)
+      .sort((a, b) => a.accuracy! - b.accuracy!)
+      .slice(0, HARDEST_QUESTION_COUNT),
+    games: games.results.map((row) => ({
+      gameId: row.id as string,
+      finishedAt: row.finished_at as number,
+      playerCount: row.player_count as number,
+      averageScore: (row.average_score as number | null) ?? 0,
+    })),
+  };
+  return Response.json(report);
+}
@@ -0,0 +1,77 @@
+import type { PlayerAnswer, Question, ScoringMode } from './types';
+import { answerCredit } from './questions';
+
+// How many points an answer earns. Each quiz picks one strategy by its scoring mode.
+
+export interface ScoringContext {
+  question: Question;
+  answer: PlayerAnswer | undefined;
+  questionStartTime: number;
+  streak: number; // Scored questions answered correctly in a row before this one
+}
+
+export interface ScoringStrategy {
+  score(context: ScoringContext): number;
+}
+
+const MAX_STREAK_BONUS = 0.5;
+const STREAK_BONUS_STEP = 0.1;
+
+function maxPoints(question: Question): number {
+  return question.doublePoints ? 2000 : 1000;
+}
+
+// 1 for an answer at the start of the question, falling to 0 when time runs out
+function speedFactor({ question, answer, questionStartTime }: ScoringContext): number {
+  if (!answer) return 0;
+  const responseTime = answer.timestamp - questionStartTime;
+  return Math.max(0, 1 - responseTime / (question.timerSeconds * 1000));
+}
+
+// Half the points for being right, the other half for being fast
+function speedPoints(context: ScoringContext, credit: number): number {
+  return Math.round(maxPoints(context.question) * credit * (0.5 + 0.5 * speedFactor(context)));
+}
+
+// Multi-select answers earn a share for each correct pick, minus one for each wrong pick
+export function multiSelectCredit(question: Question, answer: PlayerAnswer | undefined): number {
+  if (question.type !== 'multiple_choice' || answer?.kind !== 'choice') {
+    return answerCredit(question, answer);
+  }
+  const correct = new Set(question.correctIndices);
+  const hits = answer.answerIndices.filter((i) => correct.has(i)).length;
+  const misses = answer.answerIndices.length - hits;
+  return Math.max(0, (hits - misses) / correct.size);
+}
+
+const classic: ScoringStrategy = {
+  score: (context) => speedPoints(context, answerCredit(context.question, context.answer)),
+};
+
+// Exams: every correct answer is worth the same, however long it took
+const accuracy: ScoringStrategy = {
+  score: ({ question, answer }) => Math.round(maxPoints(question) * answerCredit(question, answer)),
+};
+
+// Classic points, plus 10% for each earlier correct answer in a row (up to 50%)
+const streak: ScoringStrategy = {
+  score: (context) => {
+    const multiplier = 1 + Math.min(MAX_STREAK_BONUS, context.streak * STREAK_BONUS_STEP);
+    return Math.round(classic.score(context) * multiplier);
+  },
+};
+
+const partialCredit: ScoringStrategy = {
+  score: (context) => speedPoints(context, multiSelectCredit(context.question, context.answer)),
+};
+
+const strategies: Record<ScoringMode, ScoringStrategy> = {
+  classic,
+  accuracy,
+  streak,
+  partial_credit: partialCredit,
+};
+
+export function getScoringStrategy(mode: ScoringMode | undefined): ScoringStrategy {
+  return strategies[mode ?? 'classic'] ?? classic;
+}
@@ -0,0 +1,115 @@
+import type { Team, User } from './types';
+import { normalizeEmail } from './auth';
+
+export async function isTeamMember(env: Env, teamId: string, userId: string): Promise<boolean> {
+  const row = await env.DB.prepare('SELECT 1 FROM team_members WHERE team_id = ? AND user_id = ?')
+    .bind(teamId, userId)
+    .first();
+  return row !== null;
+}
+
+async function getTeamRole(env: Env, teamId: string, userId: string): Promise<'owner' | 'member' | null> {
+  const row = await env.DB.prepare('SELECT role FROM team_members WHERE team_id = ? AND user_id = ?')
+    .bind(teamId, userId)
+    .first<{ role: 'owner' | 'member' }>();
+  return row?.role ?? null;
+}
+
+async function loadTeams(env: Env, userId: string): Promise<Team[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT teams.id AS team_id, teams.name, members.user_id, members.role, users.email
+     FROM teams
+     JOIN team_members AS mine ON mine.team_id = teams.id AND mine.user_id = ?
+     JOIN team_members AS members ON members.team_id = teams.id
+     JOIN users ON users.id = members.user_id
+     ORDER BY teams.name, users.email`
+  )
+    .bind(userId)
+    .all<{ team_id: string; name: string; user_id: string; role: 'owner' | 'member'; email: string }>();
+
+  const teams = new Map<string, Team>();
+  for (const row of results) {
+    const team = teams.get(row.team_id) ?? { id: row.team_id, name: row.name, members: [] };
+    team.members.push({ userId: row.user_id, email: row.email, role: row.role });
+    teams.set(row.team_id, team);
+  }
+  return [...teams.values()];
+}
+
+export async function handleTeamRoute(url: URL, request: Request, env: Env, user: User): Promise<Response> {
+  // GET /api/teams - List the teams the signed-in user belongs to
+  if (url.pathname === '/api/teams' && request.method === 'GET') {
+    return Response.json(await loadTeams(env, user.id));
+  }
+
+  // POST /api/teams - Create a team with the signed-in user as owner
+  if (url.pathname === '/api/teams' && request.method === 'POST') {
+    const { name } = (await request.json().catch(() => ({}))) as { name?: unknown };
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      return Response.json({ error: 'Team name must be 1-100 characters' }, { status: 400 });
+    }
+
+    const teamId = crypto.randomUUID();
+    const now = Date.now();
+    await env.DB.batch([
+      env.DB.prepare('INSERT INTO teams (id, name, created_by, created_at) VALUES (?, ?, ?, ?)')
+        .bind(teamId, name.trim(), user.id, now),
+      env.DB.prepare('INSERT INTO team_members (team_id, user_id, role, added_at) VALUES (?, ?, ?, ?)')
+        .bind(teamId, user.id, 'owner', now),
+    ]);
+
+    const team: Team = { id: teamId, name: name.trim(), members: [{ userId: user.id, email: user.email, role: 'owner' }] };
+    return Response.json(team, { status: 201 });
+  }
+
+  const match = url.pathname.match(/^\/api\/teams\/([^/]+)\/members(?:\/([^/]+))?$/);
+  if (!match) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const [, teamId, memberId] = match;
+  const role = await getTeamRole(env, teamId, user.id);
+  if (!role) {
+    return Response.json({ error: 'You are not a member of this team' }, { status: 403 });
+  }
+
+  // POST /api/teams/:id/members - Add an existing account to the team by email (owner only)
+  if (!memberId && request.method === 'POST') {
+    if (role !== 'owner') {
+      return Response.json({ error: 'Only the team owner can add members' }, { status: 403 });
+    }
+
+    const { email } = (await request.json().catch(() => ({}))) as { email?: unknown };
+    if (typeof email !== 'string') {
+      return Response.json({ error: 'Email is required' }, { status: 400 });
+    }
+    const member = await env.DB.prepare('SELECT id, email FROM users WHERE email = ?')
+      .bind(normalizeEmail(email))
+      .first<{ id: string; email: string }>();
+    if (!member) {
+      return Response.json({ error: 'No account exists with this email' }, { status: 404 });
+    }
+
+    await env.DB.prepare('INSERT OR IGNORE INTO team_members (team_id, user_id, role, added_at) VALUES (?, ?, ?, ?)')
+      .bind(teamId, member.id, 'member', Date.now())
+      .run();
+    return Response.json({ userId: member.id, email: member.email, role: 'member' }, { status: 201 });
+  }
+
+  // DELETE /api/teams/:id/members/:userId - Remove a member (owner), or leave the team (self)
+  if (memberId && request.method === 'DELETE') {
+    if (role !== 'owner' && memberId !== user.id) {
+      return Response.json({ error: 'Only the team owner can remove members' }, { status: 403 });
+    }
+    if (role === 'owner' && memberId === user.id) {
+      return Response.json({ error: 'The team owner cannot leave the team' }, { status: 400 });
+    }
+
+    await env.DB.prepare('DELETE FROM team_members WHERE team_id = ? AND user_id = ?')
+      .bind(teamId, memberId)
+      .run();
+    return Response.json({ success: true });
+  }
+
+  return new Response('Not found', { status: 404 });
+}
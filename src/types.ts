@@ -1,22 +1,87 @@
 // ============== Quiz & Game Types ==============
 
-export interface Question {
+export type QuestionType = 'multiple_choice' | 'true_false' | 'type_answer' | 'slider' | 'ordering' | 'poll';
+
+interface QuestionBase {
   id: string;
   text: string;
   imageUrl?: string; // R2 image URL for picture questions
-  answers: [string, string, string, string];
-  correctIndices: number[]; // Support multiple correct answers
   timerSeconds: 5 | 10 | 20 | 30 | 60;
   doublePoints: boolean;
 }
 
+export interface MultipleChoiceQuestion extends QuestionBase {
+  type: 'multiple_choice';
+  answers: [string, string, string, string];
+  correctIndices: number[]; // Support multiple correct answers
+}
+
+export interface TrueFalseQuestion extends QuestionBase {
+  type: 'true_false';
+  correctAnswer: boolean;
+}
+
+export interface TypeAnswerQuestion extends QuestionBase {
+  type: 'type_answer';
+  acceptedAnswers: string[]; // Compared ignoring case, accents and punctuation
+  fuzzy: boolean; // Also accept small typos
+}
+
+export interface SliderQuestion extends QuestionBase {
+  type: 'slider';
+  min: number;
+  max: number;
+  step: number;
+  correctValue: number;
+  tolerance: number; // Answers within correctValue ± tolerance count as correct
+}
+
+export interface OrderingQuestion extends QuestionBase {
+  type: 'ordering';
+  items: string[]; // 2-4 items, stored in the correct order; players see them shuffled
+}
+
+export interface PollQuestion extends QuestionBase {
+  type: 'poll'; // Unscored - collects opinions
+  answers: string[]; // 2-4 options
+}
+
+export type Question = MultipleChoiceQuestion | TrueFalseQuestion | TypeAnswerQuestion | SliderQuestion | OrderingQuestion | PollQuestion;
+
+// Question types players answer by picking from a list of options
+export type ChoiceQuestionType = 'multiple_choice' | 'true_false' | 'poll';
+
+// What a player submits; the kind depends on the question type
+export type AnswerValue =
+  | { kind: 'choice'; answerIndices: number[] } // multiple_choice, true_false, poll
+  | { kind: 'text'; text: string } // type_answer
+  | { kind: 'number'; value: number } // slider
+  | { kind: 'order'; order: number[] }; // ordering: item indices top to bottom; players send positions in their shuffled list
+
+export type PlayerAnswer = AnswerValue & {
+  timestamp: number;
+  points?: number; // Set when the question ends
+  responseMs?: number; // Time from question start to answer, set when the question ends
+};
+
+// classic: speed-based; accuracy: flat points; streak: bonus for correct answers in a row;
+// partial_credit: multi-select answers score for each correct pick
+export type ScoringMode = 'classic' | 'accuracy' | 'streak' | 'partial_credit';
+
 export interface Quiz {
   id: string;
   title: string;
   questions: Question[];
+  scoring: ScoringMode;
 }
 
+export type QuizAccess = 'owner' | 'editor' | 'viewer';
+
 export interface SavedQuiz extends Quiz {
+  ownerId: string | null; // null for quizzes saved before accounts existed
+  teamId: string | null; // Team folder the quiz lives in, editable by every member
+  access: QuizAccess; // What the requesting user may do with this quiz
+  shareToken: string | null; // Read-only share link token, only returned to the owner
   createdAt: number;
   updatedAt: number;
 }
@@ -25,11 +90,54 @@ export interface Player {
   id: string;
   nickname: string;
   score: number;
-  answers: Record<string, { answerIndices: number[]; timestamp: number }>;
+  answers: Record<string, PlayerAnswer>;
   connected: boolean;
+  progress: PlayerProgress | null; // Assignment mode only
+  teamId: string | null; // Team mode only
+}
+
+// Where a player is in a self-paced assignment
+export interface PlayerProgress {
+  questionIndex: number; // The question being answered, or the next one to start
+  questionStartTime: number | null; // Set while the player is answering questionIndex
+  finished: boolean; // Answered (or ran out of time on) every question
+}
+
+// live: the host runs the questions for everyone; assignment: players go at their own pace until a deadline
+export type GameMode = 'live' | 'assignment';
+
+// How a team's score is worked out: the sum or average of its members' scores, or
+// consensus - the team's most common answer to each question is scored once for the team
+export type TeamScoring = 'sum' | 'average' | 'consensus';
+
+export interface GameTeam {
+  id: string;
+  name: string;
+  score: number; // Consensus scoring only; sum and average come from the members
+  answers: Record<string, PlayerAnswer>; // Consensus scoring only: the team's answer to each question
+}
+
+export interface TeamMode {
+  scoring: TeamScoring;
+  teams: GameTeam[];
+}
+
+// filter: refuse offensive nicknames; generated: players get a random friendly name; off: any nickname
+export type NicknameMode = 'filter' | 'generated' | 'off';
+
+// Players joining a live game after it started: refused, starting at 0, or at the median score
+export type LateJoin = 'off' | 'zero' | 'median';
+
+// Chosen by the host when the game is created
+export interface GameSettings {
+  nicknameMode: NicknameMode;
+  maxPlayers: number; // 1-200
+  lateJoin: LateJoin;
+  lobbyLocked: boolean; // The host can toggle this at any time; locked games take no new players, rejoins still work
 }
 
-export type GamePhase = 'lobby' | 'question' | 'leaderboard' | 'podium' | 'finished';
+// An assignment stays in 'assignment' from creation until its deadline, then goes to 'finished'
+export type GamePhase = 'lobby' | 'question' | 'leaderboard' | 'podium' | 'finished' | 'assignment';
 
 export interface GameState {
   phase: GamePhase;
@@ -38,70 +146,220 @@ export interface GameState {
   players: Record<string, Player>;
   currentQuestionIndex: number;
   questionStartTime: number | null;
+  questionEndsAt: number | null; // When the running question's timer runs out; null while paused or between questions
   hostConnected: boolean;
   timerPaused: boolean;
   pausedAtSecondsLeft: number | null;
+  itemOrders: Record<string, number[]>; // Per ordering question, the shuffled order its items are shown in
+  mode: GameMode;
+  deadline: number | null; // Assignment mode: when the assignment closes (ms since epoch)
+  teamMode: TeamMode | null; // null when players play for themselves
+  skippedQuestionIds: string[]; // Skipped by the host: no points, no streak, not in the results
+  settings: GameSettings;
+}
+
+// ============== Per-role Views ==============
+
+// Who is on the other end of a socket
+export type ConnectionRole = 'host' | 'player' | 'spectator';
+
+// A player as everyone may see them: no answers, no assignment progress
+export type PublicPlayer = Omit<Player, 'answers' | 'progress'>;
+
+export interface QuizSummary {
+  id: string;
+  title: string;
+  questionCount: number;
+}
+
+// The game state a connection is sent. Nobody gets the answer key or anyone else's answers;
+// those only go out in question_end reveals once the question is over.
+export interface GameStateView {
+  phase: GamePhase;
+  gamePin: string;
+  quiz: QuizSummary | null;
+  players: Record<string, PublicPlayer>;
+  currentQuestionIndex: number;
+  questionStartTime: number | null;
+  questionEndsAt: number | null;
+  hostConnected: boolean;
+  timerPaused: boolean;
+  pausedAtSecondsLeft: number | null;
+  mode: GameMode;
+  deadline: number | null;
+  teamMode: { scoring: TeamScoring; teams: Omit<GameTeam, 'answers'>[] } | null;
+  skippedQuestionIds: string[];
+  settings: GameSettings;
+  myAnswers: Record<string, PlayerAnswer> | null; // Players only: their own answers, to pick up a question they already answered
 }
 
 // ============== WebSocket Message Types ==============
 
-// Client -> Server Messages
-export type ClientMessage =
-  | { type: 'host_create_quiz'; quiz: Quiz }
-  | { type: 'host_start_game' }
-  | { type: 'host_next_question' }
-  | { type: 'host_show_leaderboard' }
-  | { type: 'host_show_podium' }
-  | { type: 'player_join'; nickname: string }
-  | { type: 'player_rejoin'; playerId: string; nickname: string }
-  | { type: 'player_answer'; questionId: string; answerIndices: number[] };
-
-// Server -> Client Messages
-export type ServerMessage =
-  | { type: 'error'; message: string }
-  | { type: 'game_state'; state: GameState }
-  | { type: 'player_joined'; player: Player; playerCount: number }
-  | { type: 'player_rejoined'; player: Player; playerCount: number }
-  | { type: 'player_left'; playerId: string; playerCount: number }
-  | { type: 'game_starting' }
-  | { type: 'question_start'; question: QuestionForPlayer; questionIndex: number; totalQuestions: number }
-  | { type: 'timer_tick'; secondsLeft: number }
-  | { type: 'answer_received'; playerId: string }
-  | { type: 'question_end'; correctIndices: number[]; scores: LeaderboardEntry[]; answerDistribution: number[]; questionText: string; answers: [string, string, string, string] }
-  | { type: 'leaderboard_update'; leaderboard: LeaderboardEntry[] }
-  | { type: 'podium_reveal'; position: 1 | 2 | 3; player: LeaderboardEntry | null }
-  | { type: 'game_finished'; finalLeaderboard: LeaderboardEntry[] }
-  | { type: 'game_paused'; reason: string }
-  | { type: 'game_resumed' };
+// ClientMessage, ServerMessage and ServerFrame are inferred from the protocol schemas
+export type { ClientMessage, ServerMessage, ServerFrame } from './protocol';
+
+// Application close codes (4000-4999 are reserved for applications)
+export const WS_CLOSE_UNAUTHORIZED = 4001; // Host upgrade with a missing or wrong host token
+export const WS_CLOSE_REMOVED = 4002; // Player kicked or banned by the host
+export const WS_CLOSE_OUTDATED = 4003; // Client built for a different PROTOCOL_VERSION; reloading fixes it
 
 // Question without correct answer (sent to players and host)
-export interface QuestionForPlayer {
+interface QuestionForPlayerBase {
   id: string;
   text: string;
-  imageUrl?: string; // Only sent to host, not to players
-  answers: [string, string, string, string];
+  imageUrl?: string; // Only sent to host, and to players in assignment mode
   timerSeconds: number;
   doublePoints: boolean;
-  multipleChoice: boolean; // Tell player if they can select multiple
 }
 
+export type QuestionForPlayer = QuestionForPlayerBase &
+  (
+    | { type: ChoiceQuestionType; answers: string[]; multipleChoice: boolean } // multipleChoice: player can select several
+    | { type: 'type_answer' }
+    | { type: 'slider'; min: number; max: number; step: number }
+    | { type: 'ordering'; items: string[] } // Shuffled
+  );
+
+// The answer key and how players answered, shown once a question ends
+export type AnswerReveal =
+  | { type: ChoiceQuestionType; answers: string[]; correctIndices: number[]; distribution: number[] } // No correctIndices for polls
+  | { type: 'type_answer'; acceptedAnswers: string[]; responses: { text: string; count: number; correct: boolean }[] }
+  | { type: 'slider'; min: number; max: number; correctValue: number; tolerance: number; responses: { value: number; count: number }[] }
+  | { type: 'ordering'; items: string[]; correctPlacements: number[]; exactCount: number; responseCount: number }; // items in the correct order; correctPlacements[i]: players who put item i in place
+
 export interface LeaderboardEntry {
   playerId: string;
   nickname: string;
   score: number;
   rank: number;
-  lastAnswerCorrect?: boolean;
-  pointsGained?: number;
+  lastAnswerCorrect?: boolean; // Undefined after a poll
+  pointsGained?: number; // Points earned on the question that just ended
+  teamId?: string; // Team mode only
+}
+
+// Team standings, sent alongside the player leaderboard in team mode
+export interface TeamLeaderboardEntry {
+  teamId: string;
+  name: string;
+  score: number;
+  rank: number;
+  memberCount: number;
+  pointsGained: number;
 }
 
 // ============== API Types ==============
 
+export interface CreateGameRequest {
+  quizId: string; // Saved quiz to play; the Worker loads it and sets up the game before returning
+  mode?: GameMode; // Defaults to live
+  deadline?: number; // Required for assignments: when they close (ms since epoch)
+  teams?: { count: number; scoring: TeamScoring }; // Team mode: 2-8 teams
+  settings?: Partial<GameSettings>;
+  blockedWords?: string[]; // Refused in nicknames on top of the built-in list; never sent to players
+}
+
 export interface CreateGameResponse {
   gameId: string;
   gamePin: string;
+  hostToken: string; // Secret the presenter must send to connect as host
 }
 
 export interface JoinGameResponse {
   gameId: string;
   success: boolean;
 }
+
+// GET /joinable on the game's Durable Object: whether a new player could join right now
+export interface JoinableResponse {
+  joinable: boolean;
+  reason?: string; // Why not, worded for the player
+}
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: number;
+}
+
+// A validation problem with one field of a quiz, e.g. path "questions.2.answers.1"
+export interface QuizFieldError {
+  path: string;
+  message: string;
+}
+
+export interface QuizValidationErrorResponse {
+  error: string;
+  fieldErrors: QuizFieldError[];
+}
+
+export interface QuizImportError {
+  row: number | null; // Spreadsheet row (or question number for JSON); null for file-level problems
+  message: string;
+}
+
+export interface QuizImportResponse {
+  error: string;
+  errors: QuizImportError[];
+}
+
+export interface TeamMember {
+  userId: string;
+  email: string;
+  role: 'owner' | 'member';
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+}
+
+export interface AuthResponse {
+  token: string; // Bearer token for the Authorization header
+  user: User;
+}
+
+// ============== Results & Reports ==============
+
+export interface GameResultAnswer {
+  playerId: string;
+  questionId: string;
+  answer: AnswerValue;
+  correct: boolean | null; // null for polls
+  points: number;
+  responseMs: number;
+}
+
+export interface QuestionStats {
+  questionId: string;
+  questionIndex: number;
+  text: string;
+  type: QuestionType;
+  answerCount: number;
+  accuracy: number | null; // Share of answers that were correct, 0-1; null for polls or when nobody answered
+  averageResponseMs: number | null;
+}
+
+// GET /api/games/:id/results
+export interface GameResults {
+  gameId: string;
+  quizId: string;
+  quizTitle: string;
+  questions: Question[]; // As played
+  finishedAt: number;
+  leaderboard: LeaderboardEntry[];
+  answers: GameResultAnswer[];
+  questionStats: QuestionStats[];
+}
+
+// GET /api/quizzes/:id/reports - every finished run of a quiz
+export interface QuizReport {
+  quizId: string;
+  gameCount: number;
+  playerCount: number;
+  accuracy: number | null;
+  averageResponseMs: number | null;
+  questions: QuestionStats[];
+  hardestQuestions: QuestionStats[]; // Lowest accuracy first
+  games: { gameId: string; finishedAt: number; playerCount: number; averageScore: number }[];
+}
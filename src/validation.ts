@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import type { MultipleChoiceQuestion, Question, Quiz, QuizFieldError } from './types';
+
+// Shared by the API, the Durable Object and the editor so a quiz that saves is a quiz that plays
+
+export const TIMER_OPTIONS = [5, 10, 20, 30, 60] as const;
+
+const answerText = z.string({ message: 'Answer must be text' }).trim().min(1, 'Answer cannot be empty');
+const finiteNumber = (message: string) => z.number({ message }).finite(message);
+
+const questionBase = {
+  id: z.string({ message: 'Question is missing an id' }).min(1, 'Question is missing an id'),
+  text: z.string({ message: 'Question text must be text' }).trim(),
+  // Older saved quizzes stored null for "no image"
+  imageUrl: z.string().nullish().transform((value) => value || undefined),
+  timerSeconds: z.custom<Question['timerSeconds']>(
+    (value) => (TIMER_OPTIONS as readonly unknown[]).includes(value),
+    'Timer must be 5, 10, 20, 30 or 60 seconds'
+  ),
+  doublePoints: z.boolean().optional().default(false),
+};
+
+const multipleChoiceSchema = z.object({
+  ...questionBase,
+  type: z.literal('multiple_choice'),
+  answers: z
+    .array(answerText, { message: 'Question must have 4 answers' })
+    .length(4, 'Question must have 4 answers')
+    .transform((answers) => answers as MultipleChoiceQuestion['answers']),
+  correctIndices: z
+    .array(z.number(), { message: 'Pick at least one correct answer' })
+    .min(1, 'Pick at least one correct answer')
+    .refine((indices) => indices.every((i) => Number.isInteger(i) && i >= 0 && i <= 3), 'Correct answers must be answers 1-4')
+    .transform((indices) => [...new Set(indices)].sort((a, b) => a - b)),
+});
+
+const trueFalseSchema = z.object({
+  ...questionBase,
+  type: z.literal('true_false'),
+  correctAnswer: z.boolean({ message: 'Pick True or False' }),
+});
+
+const typeAnswerSchema = z.object({
+  ...questionBase,
+  type: z.literal('type_answer'),
+  acceptedAnswers: z
+    .array(answerText, { message: 'Add at least one accepted answer' })
+    .min(1, 'Add at least one accepted answer')
+    .max(10, 'Add at most 10 accepted answers'),
+  fuzzy: z.boolean().optional().default(true),
+});
+
+// The range checks run on the whole question, once every type's fields have parsed
+const sliderSchema = z.object({
+  ...questionBase,
+  type: z.literal('slider'),
+  min: finiteNumber('Minimum must be a number'),
+  max: finiteNumber('Maximum must be a number'),
+  step: finiteNumber('Step must be a number').positive('Step must be greater than 0'),
+  correctValue: finiteNumber('Correct value must be a number'),
+  tolerance: finiteNumber('Tolerance must be a number').min(0, 'Tolerance cannot be negative'),
+});
+
+const orderingSchema = z.object({
+  ...questionBase,
+  type: z.literal('ordering'),
+  items: z
+    .array(answerText, { message: 'Add 2 to 4 items to put in order' })
+    .min(2, 'Add 2 to 4 items to put in order')
+    .max(4, 'Add 2 to 4 items to put in order'),
+});
+
+const pollSchema = z.object({
+  ...questionBase,
+  type: z.literal('poll'),
+  answers: z
+    .array(answerText, { message: 'Poll needs 2 to 4 options' })
+    .min(2, 'Poll needs 2 to 4 options')
+    .max(4, 'Poll needs 2 to 4 options'),
+});
+
+const questionSchema = z
+  .preprocess(
+    // Questions saved before question types existed are all multiple choice
+    (value) => (value && typeof value === 'object' && !('type' in value) ? { ...value, type: 'multiple_choice' } : value),
+    // Picks the schema by type, so errors point at the fields of that type rather than at the question
+    z.discriminatedUnion('type', [multipleChoiceSchema, trueFalseSchema, typeAnswerSchema, sliderSchema, orderingSchema, pollSchema], {
+      errorMap: (issue, ctx) =>
+        issue.code === z.ZodIssueCode.invalid_union_discriminator ? { message: 'Unknown question type' } : { message: ctx.defaultError },
+    })
+  )
+  .superRefine((question, ctx) => {
+    if (!question.text && !question.imageUrl) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['text'], message: 'Question needs text or an image' });
+    }
+    if (question.type === 'slider') {
+      if (question.max <= question.min) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max'], message: 'Maximum must be greater than minimum' });
+      } else if (question.correctValue < question.min || question.correctValue > question.max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctValue'], message: 'Correct value must be between minimum and maximum' });
+      }
+    }
+  });
+
+export const SCORING_MODES = ['classic', 'accuracy', 'streak', 'partial_credit'] as const;
+
+const quizSchema = z.object({
+  title: z.string({ message: 'Quiz title is required' }).trim().min(1, 'Quiz title is required'),
+  questions: z.array(questionSchema, { message: 'Add at least one question' }).min(1, 'Add at least one question'),
+  // Quizzes saved before scoring modes existed use classic scoring
+  scoring: z.enum(SCORING_MODES, { message: 'Unknown scoring mode' }).nullish().transform((mode) => mode ?? 'classic'),
+});
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; errors: QuizFieldError[] };
+
+function toFieldErrors(error: z.ZodError): QuizFieldError[] {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+export function validateQuestion(input: unknown): ValidationResult<Question> {
+  const result = questionSchema.safeParse(input);
+  return result.success ? { success: true, data: result.data } : { success: false, errors: toFieldErrors(result.error) };
+}
+
+// Validates and normalises title and questions. The id is the caller's business:
+// the API takes it from the URL or mints one, the Durable Object keeps the host's.
+export function validateQuiz(input: unknown): ValidationResult<Omit<Quiz, 'id'>> {
+  const result = quizSchema.safeParse(input);
+  return result.success ? { success: true, data: result.data } : { success: false, errors: toFieldErrors(result.error) };
+}
+
+// Field errors keyed by path ("questions.2.answers.1") for showing next to inputs
+export function groupFieldErrors(errors: QuizFieldError[]): Record<string, string> {
+  const byPath: Record<string, string> = {};
+  for (const { path, message } of errors) {
+    byPath[path] ??= message;
+  }
+  return byPath;
+}
+
+// One-line summary, e.g. "Question 3, answer 2: Answer cannot be empty".
+// Paths from validateQuestion start at the question, so they read "Answer 2: ...".
+export function describeFieldError({ path, message }: QuizFieldError): string {
+  let segments = path.split('.');
+  const location: string[] = [];
+
+  if (segments[0] === 'questions' && segments[1] !== undefined) {
+    location.push(`question ${Number(segments[1]) + 1}`);
+    segments = segments.slice(2);
+  }
+  if (segments[0] === 'answers' && segments[1] !== undefined) {
+    location.push(`answer ${Number(segments[1]) + 1}`);
+  } else if (segments[0] === 'items' && segments[1] !== undefined) {
+    location.push(`item ${Number(segments[1]) + 1}`);
+  }
+
+  if (location.length === 0) return message;
+  const prefix = location.join(', ');
+  return `${prefix[0].toUpperCase()}${prefix.slice(1)}: ${message}`;
+}
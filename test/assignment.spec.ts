@@ -0,0 +1,118 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import type { GameStub } from './helpers';
+import { advance, connect, connectHost, createGame, gameTime, HOST_TOKEN, joinPlayer, passTime } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Homework',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+		{ id: 'q2', type: 'multiple_choice', text: '3 + 3', timerSeconds: 10, doublePoints: false, answers: ['5', '6', '7', '8'], correctIndices: [1] },
+	],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createAssignment(name: string) {
+	return createGame(name, quiz, { mode: 'assignment', deadline: gameTime() + HOUR_MS });
+}
+
+// Player timers run on the game's alarm, so it has to come due for each tick
+function alarmAt(stub: GameStub) {
+	return runInDurableObject(stub, (_, state) => state.storage.getAlarm());
+}
+
+describe('assignment timers', () => {
+	it('counts down each player on their own clock and ends their question when time is up', async () => {
+		const stub = await createAssignment('assignment-timeout');
+		const early = await joinPlayer(stub, 'Early');
+		const late = await joinPlayer(stub, 'Late');
+
+		early.send({ type: 'player_next_question' });
+		const start = gameTime();
+		expect(await early.waitFor('question_start')).toMatchObject({ question: { id: 'q1' }, endsAt: start + 20_000 });
+		expect(await alarmAt(stub)).toBe(start + 1000);
+
+		await advance(stub, 5000);
+		late.send({ type: 'player_next_question' });
+		expect(await late.waitFor('question_start')).toMatchObject({ endsAt: start + 25_000 });
+
+		await advance(stub, 1000);
+		await early.waitFor('timer_tick', (frame) => frame.secondsLeft === 14);
+		await late.waitFor('timer_tick', (frame) => frame.secondsLeft === 19);
+
+		// The alarm comes due on Early's last second, then on the moment their time is up
+		await advance(stub, 13_000);
+		await early.waitFor('timer_tick', (frame) => frame.secondsLeft === 1);
+		await advance(stub, 1000);
+		await early.waitFor('question_end');
+		expect(await alarmAt(stub)).toBe(start + 21_000);
+		expect(await early.waitFor('assignment_progress', (frame) => frame.progress.questionIndex === 1)).toMatchObject({
+			progress: { questionIndex: 1, questionStartTime: null, finished: false },
+		});
+		expect(late.frames.some((frame) => frame.type === 'question_end')).toBe(false);
+
+		await advance(stub, 5000);
+		await late.waitFor('question_end');
+	});
+
+	it('scores an answer in time and refuses one after the player runs out', async () => {
+		const stub = await createAssignment('assignment-answers');
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Pupil');
+
+		player.send({ type: 'player_next_question' });
+		await player.waitFor('question_start');
+		await advance(stub, 2000);
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		const end = await player.waitFor('question_end');
+		expect(end.scores[0].score).toBeGreaterThan(0);
+		await host.waitFor('leaderboard_update');
+
+		player.send({ type: 'player_next_question' });
+		await player.waitFor('question_start', (frame) => frame.question.id === 'q2');
+		await advance(stub, 10_000);
+		await player.waitFor('assignment_progress', (frame) => frame.progress.finished);
+
+		player.send({ type: 'player_answer', questionId: 'q2', answer: { kind: 'choice', answerIndices: [1] } });
+		await player.waitFor('error', (frame) => frame.message === 'Invalid question');
+	});
+
+	it('closes at the deadline, leaving unfinished questions unanswered', async () => {
+		const stub = await createAssignment('assignment-deadline');
+		const player = await joinPlayer(stub, 'Tardy');
+
+		player.send({ type: 'player_next_question' });
+		await player.waitFor('question_start');
+		await advance(stub, HOUR_MS);
+		const finished = await player.waitFor('game_finished');
+		expect(finished.finalLeaderboard).toEqual([expect.objectContaining({ nickname: 'Tardy', score: 0 })]);
+
+		player.send({ type: 'player_next_question' });
+		await player.waitFor('error', (frame) => frame.message === 'This assignment has closed');
+	});
+});
+
+describe('assignment deadline', () => {
+	it('has to be in the future', async () => {
+		const stub = env.GAME.get(env.GAME.idFromName('assignment-past'));
+		const response = await stub.fetch('http://game/init', {
+			method: 'POST',
+			body: JSON.stringify({ hostToken: HOST_TOKEN, gameId: 'assignment-past', hostId: 'host-1', quiz, mode: 'assignment', deadline: Date.now() - 1000 }),
+		});
+		expect(response.status).toBe(400);
+	});
+
+	it('stops new players joining once it passes', async () => {
+		const stub = await createAssignment('assignment-closed');
+		await joinPlayer(stub, 'OnTime');
+		passTime(HOUR_MS);
+
+		const late = await connect(stub);
+		late.send({ type: 'player_join', nickname: 'Late' });
+		await late.waitFor('error', (frame) => frame.message === 'This assignment has closed');
+	});
+});
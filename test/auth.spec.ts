@@ -0,0 +1,16 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+
+function post(path: string, body: string) {
+	return SELF.fetch(`http://cfhoot${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+}
+
+describe('sign up and sign in', () => {
+	it.each(['/api/auth/register', '/api/auth/login'])('%s rejects a body that is not an email and password', async (path) => {
+		for (const body of ['not json', '{}', '{"email":["a@example.com"],"password":"long enough"}', '{"email":"a@example.com","password":12345678}']) {
+			const response = await post(path, body);
+			expect(response.status).toBe(400);
+			expect(await response.json()).toEqual({ error: 'Email and password are required' });
+		}
+	});
+});
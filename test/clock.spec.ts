@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { ClientMessage, Quiz } from '../src/types';
+import type { GameStub, TestPlayer, TestSocket } from './helpers';
+import { connect, connectHost, createGame, gameTime, joinPlayer, passTime, rejoin, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Fast fingers',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+// Echo the server's latency probes, each one taking this long on the network
+async function answerProbes(player: TestSocket, rttsMs: number[]) {
+	let from = 0;
+	for (const rttMs of rttsMs) {
+		const probe = await player.waitFor('latency_probe', undefined, from);
+		from = player.frames.indexOf(probe) + 1;
+		passTime(rttMs);
+		player.send({ type: 'latency_probe', nonce: probe.nonce });
+	}
+}
+
+const ANSWER: ClientMessage = { type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] }, responseMs: 0 };
+
+// When the server recorded the player's answer, as it tells them when they rejoin
+async function answeredAt(stub: GameStub, player: TestPlayer) {
+	const { socket, snapshot } = await rejoin(stub, player);
+	socket.ws.close();
+	return snapshot.state.myAnswers?.q1?.timestamp;
+}
+
+describe('clock sync', () => {
+	it('answers with the server time', async () => {
+		const stub = await createGame('clock-sync', quiz);
+		const player = await connect(stub);
+		player.send({ type: 'clock_sync', clientTime: 123 });
+		expect(await player.waitFor('clock_sync')).toEqual({ type: 'clock_sync', clientTime: 123, serverTime: gameTime() });
+	});
+
+	it('credits an answer with no more than the round trip it timed', async () => {
+		const stub = await createGame('latency', quiz);
+		const host = await connectHost(stub);
+		const slow = await joinPlayer(stub, 'Slow');
+		const unsynced = await joinPlayer(stub, 'Unsynced');
+		await answerProbes(slow, [300, 300, 300, 300, 300]);
+
+		await startGame(stub, host);
+		const start = gameTime();
+		expect(await slow.waitFor('question_start')).toMatchObject({ endsAt: start + 20_000 });
+
+		// Both claim to have answered instantly, 2.3s in
+		passTime(2300);
+		slow.send(ANSWER);
+		unsynced.send(ANSWER);
+		await host.waitFor('answer_received', (frame) => frame.playerId === slow.playerId);
+		await host.waitFor('answer_received', (frame) => frame.playerId === unsynced.playerId);
+
+		expect(await answeredAt(stub, slow)).toBe(start + 2000);
+		expect(await answeredAt(stub, unsynced)).toBe(start + 2300);
+	});
+
+	it('takes the player at their word within the allowance', async () => {
+		const stub = await createGame('honest', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Honest');
+		await answerProbes(player, [400, 400, 400, 400, 400]);
+
+		await startGame(stub, host);
+		const start = gameTime();
+		passTime(1400);
+		player.send({ ...ANSWER, responseMs: 1200 });
+		await host.waitFor('question_end');
+
+		expect(await answeredAt(stub, player)).toBe(start + 1200);
+	});
+
+	it('keeps the fastest round trip, so holding echoes back gains nothing', async () => {
+		const stub = await createGame('latency-held', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Sly');
+		await answerProbes(player, [100, 900, 900, 900, 900]);
+
+		await startGame(stub, host);
+		const start = gameTime();
+		passTime(2000);
+		player.send(ANSWER);
+		await host.waitFor('question_end');
+
+		expect(await answeredAt(stub, player)).toBe(start + 1900);
+	});
+
+	it('gives no allowance until several round trips are timed, and ignores echoes it never sent', async () => {
+		const stub = await createGame('latency-few', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Guesser');
+		await answerProbes(player, [900]);
+		player.send({ type: 'latency_probe', nonce: 'guessed' });
+		player.send({ type: 'latency_probe', nonce: 'guessed' });
+
+		await startGame(stub, host);
+		const start = gameTime();
+		passTime(2000);
+		player.send(ANSWER);
+		await host.waitFor('question_end');
+
+		expect(await answeredAt(stub, player)).toBe(start + 2000);
+	});
+});
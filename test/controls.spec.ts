@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { connectHost, createGame, joinPlayer, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Host controls',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+		{ id: 'q2', type: 'multiple_choice', text: '3 + 3', timerSeconds: 20, doublePoints: false, answers: ['5', '6', '7', '8'], correctIndices: [1] },
+	],
+};
+
+describe('host skip', () => {
+	it('ends the question without scoring anyone', async () => {
+		const stub = await createGame('skip-scores', quiz);
+		const host = await connectHost(stub);
+		const quick = await joinPlayer(stub, 'Quick');
+		await joinPlayer(stub, 'Slow'); // Still thinking, so the question stays open
+		await startGame(stub, host);
+
+		quick.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received');
+		host.send({ type: 'host_skip_question' });
+
+		const end = await quick.waitFor('question_end');
+		expect(end.skipped).toBe(true);
+		expect(end.scores.map((entry) => entry.score)).toEqual([0, 0]);
+	});
+
+	it('is refused once the question has ended', async () => {
+		const stub = await createGame('skip-late', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Only');
+		await startGame(stub, host);
+
+		// The only player answering ends the question
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		const end = await host.waitFor('question_end');
+		expect(end.skipped).toBe(false);
+
+		host.send({ type: 'host_skip_question' });
+		await host.waitFor('error', (frame) => frame.message === 'Question has already ended');
+		expect(host.frames.filter((frame) => frame.type === 'question_end')).toHaveLength(1);
+	});
+});
+
+describe('host pause', () => {
+	it('ends the question on resume when everyone answered while it was paused', async () => {
+		const stub = await createGame('pause-answered', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Patient');
+		await startGame(stub, host);
+
+		host.send({ type: 'host_pause' });
+		await host.waitFor('game_paused');
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received');
+		expect(host.frames.some((frame) => frame.type === 'question_end')).toBe(false);
+
+		host.send({ type: 'host_resume' });
+		await host.waitFor('game_resumed');
+		const end = await host.waitFor('question_end');
+		expect(end.skipped).toBe(false);
+	});
+});
@@ -0,0 +1,135 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { CreateGameResponse, SavedQuiz } from '../src/types';
+import type { GameStub, TestAccount } from './helpers';
+import { api, connect, errorOf, signUp } from './helpers';
+
+const quiz = {
+	title: 'Capitals',
+	scoring: 'accuracy',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: 'Capital of France', timerSeconds: 20, doublePoints: false, answers: ['Paris', 'Lyon', 'Nice', 'Lille'], correctIndices: [0] },
+	],
+};
+
+async function saveQuiz(owner: TestAccount, extra: { teamId?: string } = {}): Promise<SavedQuiz> {
+	const response = await api(owner, '/api/quizzes', { method: 'POST', body: { ...quiz, ...extra } });
+	expect(response.status).toBe(201);
+	return response.json();
+}
+
+// The game the Worker set up, seen from its presenter screen
+async function hostSnapshot({ gameId, hostToken }: CreateGameResponse) {
+	const stub: GameStub = env.GAME.get(env.GAME.idFromName(gameId));
+	const host = await connect(stub, `&host=true&token=${hostToken}`);
+	return (await host.waitFor('game_state')).state;
+}
+
+describe('creating a game from a saved quiz', () => {
+	it('loads the quiz and sets up the game with the requested mode, teams and settings', async () => {
+		const host = await signUp('Presenter');
+		const saved = await saveQuiz(host);
+
+		const response = await api(host, '/api/games', {
+			method: 'POST',
+			body: { quizId: saved.id, teams: { count: 3, scoring: 'average' }, settings: { maxPlayers: 30, lateJoin: 'zero' } },
+		});
+		expect(response.status).toBe(201);
+		const created = (await response.json()) as CreateGameResponse;
+		expect(created.gamePin).toMatch(/^\d+$/);
+
+		const state = await hostSnapshot(created);
+		expect(state).toMatchObject({
+			phase: 'lobby',
+			gamePin: created.gamePin,
+			mode: 'live',
+			quiz: { id: saved.id, title: 'Capitals', questionCount: 1 },
+			teamMode: { scoring: 'average' },
+			settings: { nicknameMode: 'filter', maxPlayers: 30, lateJoin: 'zero', lobbyLocked: false },
+		});
+		expect(state.teamMode?.teams).toHaveLength(3);
+
+		const pin = await env.DB.prepare('SELECT game_id FROM game_pins WHERE pin = ?').bind(created.gamePin).first<{ game_id: string }>();
+		expect(pin?.game_id).toBe(created.gameId);
+	});
+
+	it('keeps only the known settings', async () => {
+		const host = await signUp('Tinkerer');
+		const saved = await saveQuiz(host);
+
+		const response = await api(host, '/api/games', { method: 'POST', body: { quizId: saved.id, settings: { lateJoin: 'median', theme: '<script>' } } });
+		const { gameId, hostToken } = (await response.json()) as CreateGameResponse;
+		const presenter = await connect(env.GAME.get(env.GAME.idFromName(gameId)), `&host=true&token=${hostToken}`);
+		expect((await presenter.waitFor('game_state')).state.settings).toEqual({ nicknameMode: 'filter', maxPlayers: 200, lateJoin: 'median', lobbyLocked: false });
+		// Checked as sent: the frame schema would drop the unknown key when parsing
+		expect(presenter.raw.join('\n')).not.toContain('theme');
+	});
+
+	it('sets up an assignment with its deadline', async () => {
+		const host = await signUp('Teacher');
+		const saved = await saveQuiz(host);
+		const deadline = Date.now() + 60 * 60 * 1000;
+
+		const response = await api(host, '/api/games', { method: 'POST', body: { quizId: saved.id, mode: 'assignment', deadline } });
+		expect(response.status).toBe(201);
+		expect(await hostSnapshot(await response.json())).toMatchObject({ phase: 'assignment', mode: 'assignment', deadline });
+	});
+
+	it('lets team members play a quiz in their team folder', async () => {
+		const owner = await signUp('Lead');
+		const member = await signUp('Member');
+		const team = (await (await api(owner, '/api/teams', { method: 'POST', body: { name: 'Geography' } })).json()) as { id: string };
+		await api(owner, `/api/teams/${team.id}/members`, { method: 'POST', body: { email: member.email } });
+		const saved = await saveQuiz(owner, { teamId: team.id });
+
+		expect((await api(member, '/api/games', { method: 'POST', body: { quizId: saved.id } })).status).toBe(201);
+	});
+
+	it('needs a signed-in host and a quiz id', async () => {
+		expect(await errorOf(await api(null, '/api/games', { method: 'POST', body: { quizId: 'anything' } }))).toEqual({
+			status: 401,
+			error: 'Sign in required',
+		});
+		const host = await signUp('Forgetful');
+		expect(await errorOf(await api(host, '/api/games', { method: 'POST', body: {} }))).toEqual({ status: 400, error: 'quizId is required' });
+	});
+
+	it('does not find quizzes that are missing or belong to someone else', async () => {
+		const owner = await signUp('Owner');
+		const stranger = await signUp('Stranger');
+		const saved = await saveQuiz(owner);
+
+		const notFound = { status: 404, error: 'Quiz not found' };
+		expect(await errorOf(await api(owner, '/api/games', { method: 'POST', body: { quizId: 'no-such-quiz' } }))).toEqual(notFound);
+		expect(await errorOf(await api(stranger, '/api/games', { method: 'POST', body: { quizId: saved.id } }))).toEqual(notFound);
+	});
+
+	it('refuses a stored quiz that no longer validates', async () => {
+		const host = await signUp('Legacy');
+		await env.DB.prepare("INSERT INTO quizzes (id, title, questions, owner_id, created_at, updated_at) VALUES ('broken-quiz', 'Broken', '[]', ?, 1, 1)")
+			.bind(host.id)
+			.run();
+
+		expect(await errorOf(await api(host, '/api/games', { method: 'POST', body: { quizId: 'broken-quiz' } }))).toEqual({
+			status: 400,
+			error: 'Fix this quiz before starting a game',
+		});
+	});
+
+	it('refuses bad modes, deadlines, teams and settings', async () => {
+		const host = await signUp('Careless');
+		const { id: quizId } = await saveQuiz(host);
+		const refusals: [Record<string, unknown>, string][] = [
+			[{ mode: 'tournament' }, 'Mode must be live or assignment'],
+			[{ mode: 'assignment', deadline: Date.now() - 1000 }, 'Assignment deadline must be in the future'],
+			[{ teams: { count: 1, scoring: 'sum' } }, 'Team mode needs 2 to 8 teams'],
+			[{ teams: { count: 2, scoring: 'consensus' }, mode: 'assignment', deadline: Date.now() + 60_000 }, 'Consensus teams need a live game'],
+			[{ settings: { maxPlayers: 0 } }, 'Max players must be between 1 and 200'],
+			[{ settings: 'quiet' }, 'Settings must be an object'],
+			[{ settings: [{ maxPlayers: 10 }] }, 'Settings must be an object'],
+		];
+		for (const [extra, error] of refusals) {
+			expect(await errorOf(await api(host, '/api/games', { method: 'POST', body: { quizId, ...extra } }))).toEqual({ status: 400, error });
+		}
+	});
+});
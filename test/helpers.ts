@@ -0,0 +1,185 @@
+import { env, runDurableObjectAlarm, runInDurableObject, SELF } from 'cloudflare:test';
+import { expect } from 'vitest';
+import type { GameDurableObject } from '../src/game';
+import type { AuthResponse, ClientMessage, Quiz, ServerFrame } from '../src/types';
+import { parseServerFrame, PROTOCOL_VERSION } from '../src/protocol';
+import { QUESTION_DELAY_MS, REVEAL_DELAY_MS } from '../src/gameTimers';
+
+// Fixtures for tests that play a game against the Durable Object over WebSockets
+
+export const HOST_TOKEN = 'host-secret';
+const WAIT_TIMEOUT_MS = 2000;
+
+export type GameStub = DurableObjectStub<GameDurableObject>;
+export type FrameOf<T extends ServerFrame['type']> = Extract<ServerFrame, { type: T }>;
+
+// Every game's clock; tests move it on with advance(). It starts a day ahead of real time, so
+// the alarms it sets never come due by themselves, however slowly a test runs.
+let now = Date.now() + 24 * 60 * 60 * 1000;
+
+export function gameTime(): number {
+	return now;
+}
+
+// Games are named, and storage isn't reset between tests, so every test needs its own name
+export async function createGame(name: string, quiz: Quiz, options: Record<string, unknown> = {}): Promise<GameStub> {
+	const stub = env.GAME.get(env.GAME.idFromName(name));
+	const response = await stub.fetch('http://game/init', {
+		method: 'POST',
+		body: JSON.stringify({ hostToken: HOST_TOKEN, gameId: name, hostId: 'host-1', quiz, ...options }),
+	});
+	expect(response.status).toBe(200);
+	await runInDurableObject(stub, (instance: GameDurableObject) => {
+		instance.clock = () => now;
+	});
+	return stub;
+}
+
+export function passTime(ms: number): void {
+	now += ms;
+}
+
+// Move the clock on, then run the alarm if one is set
+export async function advance(stub: GameStub, ms: number): Promise<void> {
+	passTime(ms);
+	await runDurableObjectAlarm(stub);
+}
+
+export interface TestSocket {
+	ws: WebSocket;
+	raw: string[]; // Frames as sent, for checking what never goes over the wire
+	frames: ServerFrame[];
+	closed: Promise<CloseEvent>;
+	send(message: ClientMessage): void;
+	// The first frame of this type (and match) from frames[from] on, as soon as it arrives
+	waitFor<T extends ServerFrame['type']>(type: T, match?: (frame: FrameOf<T>) => boolean, from?: number): Promise<FrameOf<T>>;
+}
+
+export async function connect(stub: GameStub, query = ''): Promise<TestSocket> {
+	const response = await stub.fetch(`http://game/?protocol=${PROTOCOL_VERSION}${query}`, { headers: { Upgrade: 'websocket' } });
+	const ws = response.webSocket!;
+	const raw: string[] = [];
+	const frames: ServerFrame[] = [];
+	const waiters = new Set<() => void>();
+	const closed = new Promise<CloseEvent>((resolve) => ws.addEventListener('close', resolve));
+
+	ws.addEventListener('message', (event) => {
+		const data = event.data as string;
+		raw.push(data);
+		// Every frame the server sends has to match the protocol schema
+		const parsed = parseServerFrame(data);
+		if (!parsed.success) throw new Error(`${parsed.error}: ${data}`);
+		frames.push(parsed.message);
+		waiters.forEach((check) => check());
+	});
+	ws.accept();
+
+	return {
+		ws,
+		raw,
+		frames,
+		closed,
+		send: (message) => ws.send(JSON.stringify(message)),
+		waitFor<T extends ServerFrame['type']>(type: T, match?: (frame: FrameOf<T>) => boolean, from = 0) {
+			return new Promise<FrameOf<T>>((resolve, reject) => {
+				const timer = setTimeout(() => {
+					waiters.delete(check);
+					reject(new Error(`No ${type} frame within ${WAIT_TIMEOUT_MS}ms; got ${frames.map((frame) => frame.type).join(', ')}`));
+				}, WAIT_TIMEOUT_MS);
+				const check = () => {
+					const frame = frames
+						.slice(from)
+						.find((frame): frame is FrameOf<T> => frame.type === type && (!match || match(frame as FrameOf<T>)));
+					if (frame) {
+						clearTimeout(timer);
+						waiters.delete(check);
+						resolve(frame);
+					}
+				};
+				waiters.add(check);
+				check();
+			});
+		},
+	};
+}
+
+export async function connectHost(stub: GameStub): Promise<TestSocket> {
+	const host = await connect(stub, `&host=true&token=${HOST_TOKEN}`);
+	await host.waitFor('game_state');
+	return host;
+}
+
+export interface TestPlayer extends TestSocket {
+	playerId: string;
+	nickname: string;
+	rejoinToken: string;
+}
+
+export async function joinPlayer(stub: GameStub, nickname: string, extra: { teamId?: string; deviceId?: string } = {}): Promise<TestPlayer> {
+	const socket = await connect(stub);
+	socket.send({ type: 'player_join', nickname, ...extra });
+	const session = await socket.waitFor('player_session');
+	const joined = await socket.waitFor('player_joined', (frame) => frame.player.id === session.playerId);
+	return Object.assign(socket, { playerId: session.playerId, nickname: joined.player.nickname, rejoinToken: session.rejoinToken });
+}
+
+// The player again on a new socket, caught up with the state they get on rejoining
+export async function rejoin(stub: GameStub, player: TestPlayer): Promise<{ socket: TestSocket; snapshot: FrameOf<'game_state'> }> {
+	const socket = await connect(stub);
+	socket.send({ type: 'player_rejoin', playerId: player.playerId, nickname: player.nickname, rejoinToken: player.rejoinToken });
+	const snapshot = await socket.waitFor('game_state', (frame) => frame.state.myAnswers !== null);
+	return { socket, snapshot };
+}
+
+// Start the game and let the countdown run out, so the first question is live for everyone
+export async function startGame(stub: GameStub, host: TestSocket): Promise<FrameOf<'question_start'>> {
+	host.send({ type: 'host_start_game' });
+	await host.waitFor('game_starting');
+	await advance(stub, QUESTION_DELAY_MS);
+	return host.waitFor('question_start');
+}
+
+// After a question ends: let the reveal run out, then move everyone on from the leaderboard
+export async function nextQuestion(stub: GameStub, host: TestSocket): Promise<FrameOf<'question_start'>> {
+	const from = host.frames.length;
+	await advance(stub, REVEAL_DELAY_MS);
+	await host.waitFor('leaderboard_update', undefined, from);
+	host.send({ type: 'host_next_question' });
+	return host.waitFor('question_start', undefined, from);
+}
+
+// Fixtures for the Worker's HTTP API
+
+export interface TestAccount {
+	id: string;
+	email: string;
+	token: string;
+}
+
+// Emails are unique across the whole run, so tests can sign up as many hosts as they need
+let accounts = 0;
+
+export async function signUp(name: string): Promise<TestAccount> {
+	const email = `${name.toLowerCase()}-${++accounts}@example.com`;
+	const response = await SELF.fetch('http://cfhoot/api/auth/register', {
+		method: 'POST',
+		body: JSON.stringify({ email, password: 'correct horse' }),
+	});
+	expect(response.status).toBe(201);
+	const { token, user } = (await response.json()) as AuthResponse;
+	return { id: user.id, email, token };
+}
+
+// A request as the account, or signed out without one; bodies are sent as JSON
+export function api(account: TestAccount | null, path: string, init: { method?: string; body?: unknown } = {}): Promise<Response> {
+	return SELF.fetch(`http://cfhoot${path}`, {
+		method: init.method ?? 'GET',
+		headers: account ? { Authorization: `Bearer ${account.token}` } : {},
+		body: init.body === undefined ? undefined : JSON.stringify(init.body),
+	});
+}
+
+// An error response's status and message
+export async function errorOf(response: Response): Promise<{ status: number; error: string }> {
+	return { status: response.status, error: ((await response.json()) as { error: string }).error };
+}
@@ -0,0 +1,49 @@
+import { runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { connectHost, createGame, joinPlayer, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Evicted',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+describe('hibernation', () => {
+	it('saves an answer before acknowledging it', async () => {
+		const stub = await createGame('saved-answer', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Erin');
+		await joinPlayer(stub, 'Finn'); // Still thinking, so the question stays open
+		await startGame(stub, host);
+
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received');
+
+		// What a fresh instance would load after eviction
+		const saved = await runInDurableObject(stub, (_, state) =>
+			state.storage.sql.exec<{ answers: string }>('SELECT answers FROM players WHERE id = ?', player.playerId).one()
+		);
+		expect(JSON.parse(saved.answers)).toEqual({ q1: expect.objectContaining({ kind: 'choice', answerIndices: [1] }) });
+	});
+
+	it('only pauses when the last presenter tab closes', async () => {
+		const stub = await createGame('two-tabs', quiz);
+		const firstTab = await connectHost(stub);
+		const secondTab = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Gus');
+		await startGame(stub, firstTab);
+
+		firstTab.ws.close();
+		// A round trip, so the close has been handled by the time it comes back
+		secondTab.send({ type: 'clock_sync', clientTime: 1 });
+		await secondTab.waitFor('clock_sync');
+		expect(player.frames.some((frame) => frame.type === 'game_paused')).toBe(false);
+
+		secondTab.ws.close();
+		expect(await player.waitFor('game_paused')).toMatchObject({ reason: 'Host disconnected' });
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { WS_CLOSE_UNAUTHORIZED } from '../src/types';
+import { connect, connectHost, createGame, joinPlayer } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Presenter',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+describe('host token', () => {
+	it.each([
+		['without a token', '&host=true'],
+		['with the wrong token', '&host=true&token=guess'],
+	])('turns away a presenter %s', async (_, query) => {
+		const stub = await createGame(`host-token-${query.length}`, quiz);
+		const host = await connect(stub, query);
+		expect((await host.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+		expect(host.frames).toEqual([{ type: 'error', message: 'Invalid host token. Open the presenter from the device that created the game.' }]);
+	});
+
+	it('lets the presenter with the token in', async () => {
+		const stub = await createGame('host-token-valid', quiz);
+		await joinPlayer(stub, 'Pat');
+		const host = await connectHost(stub);
+		host.send({ type: 'host_start_game' });
+		await host.waitFor('game_starting');
+	});
+
+	it('is set once, when the game is created', async () => {
+		const stub = await createGame('host-token-reinit', quiz);
+		const response = await stub.fetch('http://game/init', {
+			method: 'POST',
+			body: JSON.stringify({ hostToken: 'stolen', gameId: 'host-token-reinit', hostId: 'host-2', quiz }),
+		});
+		expect(response.status).toBe(409);
+
+		const intruder = await connect(stub, '&host=true&token=stolen');
+		expect((await intruder.closed).code).toBe(WS_CLOSE_UNAUTHORIZED);
+		await connectHost(stub);
+	});
+});
@@ -0,0 +1,58 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { importImage } from '../src/images';
+
+const MB = 1024 * 1024;
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+describe('image import', () => {
+	it('stores a data: URL under the size limit', async () => {
+		const imageUrl = await importImage(env, `data:image/png;base64,${btoa('png')}`);
+		expect(imageUrl).toMatch(/^\/api\/images\/.+\.png$/);
+	});
+
+	it('refuses a data: URL over 5 MB', async () => {
+		const base64 = 'A'.repeat(Math.ceil((5 * MB + 1) / 3) * 4);
+		await expect(importImage(env, `data:image/png;base64,${base64}`)).rejects.toThrow('Image is larger than 5 MB');
+	});
+
+	it('refuses a link whose declared size is over 5 MB', async () => {
+		fetchMock
+			.get('https://images.example.com')
+			.intercept({ path: '/declared.png' })
+			.reply(200, 'png', { headers: { 'Content-Type': 'image/png', 'Content-Length': String(6 * MB) } });
+		await expect(importImage(env, 'https://images.example.com/declared.png')).rejects.toThrow('Image is larger than 5 MB');
+	});
+
+	it('stops reading a link once its body passes 5 MB', async () => {
+		fetchMock
+			.get('https://images.example.com')
+			.intercept({ path: '/streamed.png' })
+			.reply(200, new Uint8Array(5 * MB + 1), { headers: { 'Content-Type': 'image/png' } });
+		await expect(importImage(env, 'https://images.example.com/streamed.png')).rejects.toThrow('Image is larger than 5 MB');
+	});
+
+	it('stores a link to an image', async () => {
+		fetchMock
+			.get('https://images.example.com')
+			.intercept({ path: '/small.jpeg' })
+			.reply(200, 'jpeg', { headers: { 'Content-Type': 'image/jpeg' } });
+		expect(await importImage(env, 'https://images.example.com/small.jpeg')).toMatch(/\.jpeg$/);
+	});
+
+	it('refuses links to loopback and private addresses without fetching them', async () => {
+		for (const link of ['http://localhost/a.png', 'http://127.0.0.1/a.png', 'http://2130706433/a.png', 'http://10.0.0.5/a.png', 'http://169.254.169.254/latest', 'http://[::1]/a.png', 'http://metadata/a.png']) {
+			await expect(importImage(env, link)).rejects.toThrow('Image link must be a public address');
+		}
+	});
+
+	it('refuses other schemes', async () => {
+		await expect(importImage(env, 'file:///etc/passwd')).rejects.toThrow('Image must be a data: URL or an http(s) link');
+	});
+});
@@ -0,0 +1,83 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { QuizImportResponse, SavedQuiz } from '../src/types';
+import type { TestAccount } from './helpers';
+import { signUp } from './helpers';
+
+function importFile(host: TestAccount, format: 'csv' | 'json', body: string) {
+	return SELF.fetch(`http://cfhoot/api/quizzes/import?format=${format}&title=Geography`, {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${host.token}` },
+		body,
+	});
+}
+
+// Kahoot's template has a line of instructions above the header
+const HEADER = ['Kahoot quiz template', 'Question,Answer 1,Answer 2,Answer 3,Answer 4,Time limit (sec),Correct answer(s),Type'];
+
+describe('quiz import', () => {
+	it('saves a valid spreadsheet as a quiz', async () => {
+		const host = await signUp('Importer');
+		const csv = [...HEADER, 'Capital of France,Paris,Lyon,Nice,Lille,30,1,', 'The sky is blue,,,,,10,True,true/false'].join('\n');
+
+		const response = await importFile(host, 'csv', csv);
+		expect(response.status).toBe(201);
+		const quiz = (await response.json()) as SavedQuiz;
+		expect(quiz).toMatchObject({ title: 'Geography', ownerId: host.id });
+		expect(quiz.questions).toEqual([
+			expect.objectContaining({ type: 'multiple_choice', text: 'Capital of France', timerSeconds: 30, correctIndices: [0] }),
+			expect.objectContaining({ type: 'true_false', text: 'The sky is blue', timerSeconds: 10, correctAnswer: true }),
+		]);
+	});
+
+	it('reports every bad row by its spreadsheet row number, and saves nothing', async () => {
+		const host = await signUp('Importer');
+		const csv = [
+			...HEADER,
+			'Capital of France,Paris,Lyon,Nice,Lille,20,1,',
+			'Largest ocean,Pacific,Atlantic,,,20,1,',
+			'Pick one,A,B,C,D,20,7,',
+			'The sky is blue,,,,,20,maybe,true/false',
+			'Riddle,A,B,C,D,20,1,riddle',
+		].join('\n');
+
+		const response = await importFile(host, 'csv', csv);
+		expect(response.status).toBe(422);
+		expect(await response.json()).toEqual({
+			error: 'Import failed',
+			errors: [
+				{ row: 4, message: 'Answer 3: Answer cannot be empty' },
+				{ row: 4, message: 'Answer 4: Answer cannot be empty' },
+				{ row: 5, message: 'Correct answers must be answers 1-4' },
+				{ row: 6, message: 'Pick True or False' },
+				{ row: 7, message: 'Unknown question type' },
+			],
+		} satisfies QuizImportResponse);
+
+		const mine = await SELF.fetch('http://cfhoot/api/quizzes', { headers: { Authorization: `Bearer ${host.token}` } });
+		expect(await mine.json()).toEqual([]);
+	});
+
+	it('numbers JSON questions from 1', async () => {
+		const host = await signUp('Importer');
+		const json = JSON.stringify({
+			title: 'Numbers',
+			questions: [
+				{ type: 'slider', text: 'Pick 5', timerSeconds: 20, doublePoints: false, min: 0, max: 10, step: 1, correctValue: 5, tolerance: 0 },
+				{ type: 'slider', text: 'Pick 5', timerSeconds: 20, doublePoints: false, min: 10, max: 0, step: 1, correctValue: 5, tolerance: 0 },
+			],
+		});
+
+		const response = await importFile(host, 'json', json);
+		expect(await response.json()).toEqual({ error: 'Import failed', errors: [{ row: 2, message: 'Maximum must be greater than minimum' }] });
+	});
+
+	it('says when the header row is missing', async () => {
+		const host = await signUp('Importer');
+		const response = await importFile(host, 'csv', 'Capital of France,Paris,Lyon,Nice,Lille');
+		expect(await response.json()).toEqual({
+			error: 'Import failed',
+			errors: [{ row: null, message: 'Could not find a header row with "Question" and "Answer 1" columns' }],
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { connect, connectHost, createGame, gameTime, joinPlayer, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Latecomers',
+	scoring: 'accuracy',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+		{ id: 'q2', type: 'multiple_choice', text: '3 + 3', timerSeconds: 20, doublePoints: false, answers: ['5', '6', '7', '8'], correctIndices: [1] },
+	],
+};
+
+describe('joining', () => {
+	it('is refused while the host has the lobby locked', async () => {
+		const stub = await createGame('lobby-locked', quiz);
+		const host = await connectHost(stub);
+		host.send({ type: 'host_lock_lobby', locked: true });
+		await host.waitFor('settings_changed', (frame) => frame.settings.lobbyLocked);
+
+		const player = await connect(stub);
+		player.send({ type: 'player_join', nickname: 'Locked out' });
+		await player.waitFor('error', (frame) => frame.message === 'The host has locked this game');
+
+		host.send({ type: 'host_lock_lobby', locked: false });
+		await host.waitFor('settings_changed', (frame) => !frame.settings.lobbyLocked);
+		await joinPlayer(stub, 'Let in');
+	});
+
+	it('is refused once the game is full', async () => {
+		const stub = await createGame('lobby-full', quiz, { settings: { maxPlayers: 2 } });
+		await joinPlayer(stub, 'One');
+		await joinPlayer(stub, 'Two');
+
+		const third = await connect(stub);
+		third.send({ type: 'player_join', nickname: 'Three' });
+		await third.waitFor('error', (frame) => frame.message === 'Game is full (max 2 players)');
+	});
+
+	it('is refused after the start unless late joining is on', async () => {
+		const stub = await createGame('late-off', quiz);
+		const host = await connectHost(stub);
+		await joinPlayer(stub, 'Early');
+		await startGame(stub, host);
+
+		const late = await connect(stub);
+		late.send({ type: 'player_join', nickname: 'Late' });
+		await late.waitFor('error', (frame) => frame.message === 'Game already in progress');
+	});
+});
+
+describe('late join', () => {
+	it('gives a player joining mid-question the question and its deadline', async () => {
+		const stub = await createGame('late-question', quiz, { settings: { lateJoin: 'zero' } });
+		const host = await connectHost(stub);
+		await joinPlayer(stub, 'Early');
+		await startGame(stub, host);
+		const endsAt = gameTime() + 20_000;
+
+		const late = await joinPlayer(stub, 'Late');
+		// Not just the snapshot every socket gets on connecting, before it has a nickname
+		const joined = late.frames.findIndex((frame) => frame.type === 'player_session');
+		expect(await late.waitFor('question_start', undefined, joined)).toMatchObject({ question: { id: 'q1' }, endsAt });
+		expect(await late.waitFor('timer_tick', undefined, joined)).toMatchObject({ secondsLeft: 20, endsAt });
+
+		late.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received', (frame) => frame.playerId === late.playerId);
+	});
+});
+
+describe('late join scores', () => {
+	// One player right and one wrong on the first question, then a third arrives
+	async function lateScore(name: string, lateJoin: 'zero' | 'median') {
+		const stub = await createGame(name, quiz, { settings: { lateJoin } });
+		const host = await connectHost(stub);
+		const right = await joinPlayer(stub, 'Right');
+		const wrong = await joinPlayer(stub, 'Wrong');
+		await startGame(stub, host);
+		right.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		wrong.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [0] } });
+		await host.waitFor('question_end');
+
+		const late = await joinPlayer(stub, 'Late');
+		return (await host.waitFor('player_joined', (frame) => frame.player.id === late.playerId)).player.score;
+	}
+
+	it('start at zero', async () => {
+		expect(await lateScore('late-zero', 'zero')).toBe(0);
+	});
+
+	it('start at the median score with median', async () => {
+		expect(await lateScore('late-median', 'median')).toBe(500);
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { WS_CLOSE_REMOVED } from '../src/types';
+import { connect, connectHost, createGame, joinPlayer } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'House rules',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+describe('kick and ban', () => {
+	it('a kicked player can join again', async () => {
+		const stub = await createGame('kick', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Kit', { deviceId: 'device-kick' });
+
+		host.send({ type: 'host_kick_player', playerId: player.playerId });
+		const closed = await player.closed;
+		expect({ code: closed.code, reason: closed.reason }).toEqual({ code: WS_CLOSE_REMOVED, reason: 'You have been removed from the game' });
+		await host.waitFor('player_removed', (frame) => frame.playerId === player.playerId);
+
+		await joinPlayer(stub, 'Kit', { deviceId: 'device-kick' });
+	});
+
+	it('a banned player is kept out by nickname and by device', async () => {
+		const stub = await createGame('ban', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Troll', { deviceId: 'device-ban' });
+
+		host.send({ type: 'host_ban_player', playerId: player.playerId });
+		expect((await player.closed).reason).toBe('You have been banned from this game');
+
+		const attempts = [
+			{ type: 'player_rejoin', playerId: player.playerId, nickname: 'Troll', rejoinToken: player.rejoinToken, deviceId: 'device-ban' },
+			{ type: 'player_rejoin', playerId: player.playerId, nickname: 'Troll', rejoinToken: player.rejoinToken },
+			{ type: 'player_join', nickname: 'Innocent', deviceId: 'device-ban' },
+			{ type: 'player_join', nickname: ' TROLL ', deviceId: 'new-device' },
+		] as const;
+		const errors = [];
+		for (const attempt of attempts) {
+			const socket = await connect(stub);
+			socket.send(attempt);
+			errors.push((await socket.waitFor('error')).message);
+			expect(socket.frames.some((frame) => frame.type === 'player_session')).toBe(false);
+		}
+		expect(errors).toEqual([
+			'You have been banned from this game',
+			'That nickname is not allowed in this game',
+			'You have been banned from this game',
+			'That nickname is not allowed in this game',
+		]);
+	});
+
+	it('only the host can remove or rename players', async () => {
+		const stub = await createGame('moderation-auth', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Mallory');
+		const victim = await joinPlayer(stub, 'Victor');
+
+		player.send({ type: 'host_ban_player', playerId: victim.playerId });
+		await player.waitFor('error', (frame) => frame.message === 'Not authorized');
+
+		host.send({ type: 'host_rename_player', playerId: victim.playerId, nickname: 'Vic' });
+		expect(await victim.waitFor('player_renamed')).toMatchObject({ playerId: victim.playerId, nickname: 'Vic' });
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { cleanNickname, generateNickname, isNicknameAllowed } from '../src/nicknames';
+import { connect, createGame, joinPlayer } from './helpers';
+
+describe('nickname filter', () => {
+	it('lets ordinary names through, even with a blocked word inside', () => {
+		for (const name of ['Alice', 'Class Clown', 'The Therapist', 'Torpedo', 'Dickens fan', 'José', 'Scunthorpe', 'Penistone', 'Flame Retardant']) {
+			expect(isNicknameAllowed(name), name).toBe(true);
+		}
+	});
+
+	it('keeps doubled letters in blocked words, so shorter real words still pass', () => {
+		for (const name of ['Niger', 'Nigeria', 'Nigel']) {
+			expect(isNicknameAllowed(name), name).toBe(true);
+		}
+		for (const name of ['n1gger', 'niggger', 'asssssshole']) {
+			expect(isNicknameAllowed(name), name).toBe(false);
+		}
+	});
+
+	it('catches leetspeak', () => {
+		for (const name of ['SH1T', 'b!tch', '5lut', 'a$$', 'p0rn', 'sh|t']) {
+			expect(isNicknameAllowed(name), name).toBe(false);
+		}
+	});
+
+	it('catches look-alike letters from other scripts and full-width forms', () => {
+		// Cyrillic с and Greek ο, then full-width letters
+		for (const name of ['fuсk', 'pοrn', 'ｆｕｃｋ']) {
+			expect(isNicknameAllowed(name), name).toBe(false);
+		}
+	});
+
+	it('catches words split by invisible characters, spaces or dots', () => {
+		for (const name of ['fu\u200bck', 'sh\u00adit', 'f u c k', 'f.u.c.k', 'fuuuuck']) {
+			expect(isNicknameAllowed(name), name).toBe(false);
+		}
+	});
+
+	it('checks whole words against the short list', () => {
+		expect(isNicknameAllowed('Big Dick')).toBe(false);
+		expect(isNicknameAllowed('Sex Panther')).toBe(false);
+		expect(isNicknameAllowed('Sussex')).toBe(true);
+		expect(isNicknameAllowed('Cunt')).toBe(false);
+		expect(isNicknameAllowed('Asssss')).toBe(false);
+	});
+
+	it('adds the game blocklist', () => {
+		expect(isNicknameAllowed('Mr Bean', ['bean'])).toBe(false);
+		expect(isNicknameAllowed('Mr B3an', ['Bean'])).toBe(false);
+		expect(isNicknameAllowed('Mr Bean')).toBe(true);
+	});
+});
+
+describe('nickname cleanup', () => {
+	it('strips invisible characters and extra spaces', () => {
+		expect(cleanNickname('  Al\u200bice \u2060  Smith ')).toBe('Alice Smith');
+	});
+
+	it('generates a name nobody has', () => {
+		const taken = ['Brave Otter', 'Happy Panda'];
+		for (let i = 0; i < 20; i++) {
+			const name = generateNickname(taken);
+			expect(name).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+( \d+)?$/);
+			expect(taken).not.toContain(name);
+		}
+	});
+});
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Names',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+describe('joining with a nickname', () => {
+	it('is refused when the name is filtered', async () => {
+		const stub = await createGame('nickname-filter', quiz, { blockedWords: ['teacher'] });
+		for (const nickname of ['fu\u200bck', 'T3acher']) {
+			const player = await connect(stub);
+			player.send({ type: 'player_join', nickname });
+			await player.waitFor('error', (frame) => frame.message === 'That nickname is not allowed. Please choose another.');
+		}
+	});
+
+	it('gets a generated name in generated mode', async () => {
+		const stub = await createGame('nickname-generated', quiz, { settings: { nicknameMode: 'generated' } });
+		const player = await joinPlayer(stub, 'Whatever I like');
+		expect(player.nickname).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+$/);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { connect, connectHost, createGame, joinPlayer, nextQuestion, rejoin, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Answer key',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 10, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+		{ id: 'q2', type: 'ordering', text: 'Smallest first', timerSeconds: 10, doublePoints: false, items: ['one', 'two', 'three'] },
+		{ id: 'q3', type: 'type_answer', text: 'Capital of France', timerSeconds: 10, doublePoints: false, acceptedAnswers: ['Paris'], fuzzy: true },
+	],
+};
+
+// Fields that only exist in the answer key or in other players' records
+const LEAKS = ['correctIndices', 'correctAnswer', 'acceptedAnswers', 'correctValue', 'itemOrders', '"answers":{"q'];
+
+describe('per-role game state', () => {
+	it('never sends the answer key or other players answers to a player', async () => {
+		const stub = await createGame('redaction', quiz);
+		const host = await connectHost(stub);
+		const alice = await joinPlayer(stub, 'Alice');
+		const bob = await joinPlayer(stub, 'Bob');
+
+		await startGame(stub, host);
+		await bob.waitFor('question_start');
+
+		alice.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [2] } });
+		await bob.waitFor('answer_received');
+		for (const leak of LEAKS) {
+			expect(bob.raw.join('\n')).not.toContain(leak);
+		}
+
+		// A rejoining player gets their own answers back, and nobody else's
+		const { socket: rejoined, snapshot } = await rejoin(stub, alice);
+		expect(snapshot.state.myAnswers).toEqual({ q1: expect.objectContaining({ kind: 'choice', answerIndices: [2] }) });
+		expect(snapshot.state.quiz).toEqual({ id: 'quiz-1', title: 'Answer key', questionCount: 3 });
+		expect(rejoined.raw.join('\n')).not.toContain('correctIndices');
+	});
+
+	it('gives an ordering back in the positions the player submitted, not the correct order', async () => {
+		const stub = await createGame('redaction-order', quiz);
+		const host = await connectHost(stub);
+		const alice = await joinPlayer(stub, 'Alice');
+		const bob = await joinPlayer(stub, 'Bob');
+
+		await startGame(stub, host);
+		alice.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		bob.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('question_end');
+		await nextQuestion(stub, host);
+
+		// Bob hasn't answered, so the question is still live when Alice comes back
+		alice.send({ type: 'player_answer', questionId: 'q2', answer: { kind: 'order', order: [0, 1, 2] } });
+		await host.waitFor('answer_received', (frame) => frame.playerId === alice.playerId);
+		const { snapshot } = await rejoin(stub, alice);
+		expect(snapshot.state.myAnswers?.q2).toMatchObject({ kind: 'order', order: [0, 1, 2] });
+	});
+
+	it('sends hosts the players without their answers', async () => {
+		const stub = await createGame('host-view', quiz);
+		await joinPlayer(stub, 'Carol');
+
+		const host = await connectHost(stub);
+		const snapshot = await host.waitFor('game_state');
+		expect(Object.values(snapshot.state.players)).toEqual([expect.objectContaining({ nickname: 'Carol', connected: true })]);
+		expect(snapshot.state.myAnswers).toBeNull();
+		for (const leak of LEAKS) {
+			expect(host.raw.join('\n')).not.toContain(leak);
+		}
+	});
+});
+
+describe('spectators', () => {
+	it('see the presenter view without joining or controlling the game', async () => {
+		const stub = await createGame('spectators', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Dana');
+
+		const spectator = await connect(stub, '&spectator=true');
+		const snapshot = await spectator.waitFor('game_state');
+		expect(Object.values(snapshot.state.players)).toEqual([expect.objectContaining({ nickname: 'Dana' })]);
+		expect(snapshot.state.myAnswers).toBeNull();
+
+		spectator.send({ type: 'player_join', nickname: 'Lurker' });
+		await spectator.waitFor('error', (frame) => frame.message === 'Spectators cannot join as player');
+		spectator.send({ type: 'host_start_game' });
+		await spectator.waitFor('error', (frame) => frame.message === 'Not authorized');
+
+		await startGame(stub, host);
+		await spectator.waitFor('question_start');
+		for (const leak of LEAKS) {
+			expect(spectator.raw.join('\n')).not.toContain(leak);
+		}
+
+		// The only player answering ends the question; the spectator isn't waited for
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await spectator.waitFor('question_end');
+	});
+});
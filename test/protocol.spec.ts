@@ -0,0 +1,44 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseClientMessage, parseServerFrame, PROTOCOL_VERSION } from '../src/protocol';
+import { WS_CLOSE_OUTDATED } from '../src/types';
+
+describe('client messages', () => {
+	it('accepts a well-formed answer', () => {
+		const parsed = parseClientMessage(JSON.stringify({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [0, 2] } }));
+		expect(parsed).toEqual({ success: true, message: { type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [0, 2] } } });
+	});
+
+	it('names the field that is wrong', () => {
+		const parsed = parseClientMessage(JSON.stringify({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: 'all' } }));
+		expect(parsed.success).toBe(false);
+		expect(!parsed.success && parsed.error).toMatch(/^Invalid message \(answer\.answerIndices\)/);
+	});
+
+	it('rejects unknown message types and bad JSON', () => {
+		expect(parseClientMessage(JSON.stringify({ type: 'host_cheat' }))).toEqual({ success: false, error: 'Unknown message type' });
+		expect(parseClientMessage('{')).toEqual({ success: false, error: 'Invalid JSON' });
+	});
+});
+
+describe('server messages', () => {
+	it('keeps the sequence number on a frame', () => {
+		const parsed = parseServerFrame(JSON.stringify({ type: 'game_resumed', seq: 7 }));
+		expect(parsed).toEqual({ success: true, message: { type: 'game_resumed', seq: 7 } });
+	});
+
+	it('rejects a frame that does not match its type', () => {
+		expect(parseServerFrame(JSON.stringify({ type: 'timer_tick', secondsLeft: 'soon' })).success).toBe(false);
+	});
+});
+
+describe('protocol version', () => {
+	it('turns away clients built for another version', async () => {
+		const stub = env.GAME.get(env.GAME.idFromName('outdated'));
+		const response = await stub.fetch(`http://game/?protocol=${PROTOCOL_VERSION - 1}`, { headers: { Upgrade: 'websocket' } });
+		const ws = response.webSocket!;
+		const closed = new Promise<CloseEvent>((resolve) => ws.addEventListener('close', resolve));
+		ws.accept();
+		expect((await closed).code).toBe(WS_CLOSE_OUTDATED);
+	});
+});
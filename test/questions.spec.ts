@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { OrderingQuestion, PollQuestion, Quiz, SliderQuestion, TrueFalseQuestion, TypeAnswerQuestion } from '../src/types';
+import { answerCredit, createItemOrder, isAnswerCorrect, isValidAnswer } from '../src/questions';
+import { getScoringStrategy } from '../src/scoring';
+import { connectHost, createGame, joinPlayer, startGame } from './helpers';
+
+const base = { id: 'q1', text: 'Question', timerSeconds: 20 as const, doublePoints: false };
+
+describe('true or false', () => {
+	const question: TrueFalseQuestion = { ...base, type: 'true_false', correctAnswer: false };
+
+	it('is right only for the correct option', () => {
+		expect(isAnswerCorrect(question, { kind: 'choice', answerIndices: [1] })).toBe(true);
+		expect(isAnswerCorrect(question, { kind: 'choice', answerIndices: [0] })).toBe(false);
+		expect(isValidAnswer(question, { kind: 'choice', answerIndices: [0, 1] })).toBe(false);
+		expect(isValidAnswer(question, { kind: 'choice', answerIndices: [2] })).toBe(false);
+	});
+});
+
+describe('type the answer', () => {
+	const question: TypeAnswerQuestion = { ...base, type: 'type_answer', acceptedAnswers: ['Zürich', 'Rio'], fuzzy: true };
+
+	it('ignores case, accents and punctuation', () => {
+		expect(isAnswerCorrect(question, { kind: 'text', text: '  zurich! ' })).toBe(true);
+		expect(isAnswerCorrect(question, { kind: 'text', text: 'RIO' })).toBe(true);
+	});
+
+	it('allows a typo in longer answers when fuzzy, and none in short ones', () => {
+		expect(isAnswerCorrect(question, { kind: 'text', text: 'Zurrich' })).toBe(true);
+		expect(isAnswerCorrect(question, { kind: 'text', text: 'Rip' })).toBe(false);
+		expect(isAnswerCorrect({ ...question, fuzzy: false }, { kind: 'text', text: 'Zurrich' })).toBe(false);
+	});
+
+	it('is wrong when blank', () => {
+		expect(isAnswerCorrect(question, { kind: 'text', text: '?!' })).toBe(false);
+	});
+});
+
+describe('slider', () => {
+	const question: SliderQuestion = { ...base, type: 'slider', min: 0, max: 100, step: 5, correctValue: 50, tolerance: 5 };
+
+	it('is right within the tolerance', () => {
+		expect(isAnswerCorrect(question, { kind: 'number', value: 55 })).toBe(true);
+		expect(isAnswerCorrect(question, { kind: 'number', value: 45 })).toBe(true);
+		expect(isAnswerCorrect(question, { kind: 'number', value: 60 })).toBe(false);
+	});
+
+	it('only takes numbers on the scale', () => {
+		expect(isValidAnswer(question, { kind: 'number', value: 105 })).toBe(false);
+		expect(isValidAnswer(question, { kind: 'text', text: '50' })).toBe(false);
+	});
+});
+
+describe('poll', () => {
+	const question: PollQuestion = { ...base, type: 'poll', answers: ['Cats', 'Dogs'] };
+
+	it('never scores', () => {
+		const answer = { kind: 'choice' as const, answerIndices: [0], timestamp: 0 };
+		expect(isAnswerCorrect(question, answer)).toBe(false);
+		expect(getScoringStrategy('classic').score({ question, answer, questionStartTime: 0, streak: 0 })).toBe(0);
+	});
+});
+
+describe('ordering', () => {
+	const question: OrderingQuestion = { ...base, type: 'ordering', items: ['one', 'two', 'three', 'four'] };
+
+	it('gives credit for each item in its place', () => {
+		expect(answerCredit(question, { kind: 'order', order: [0, 1, 2, 3] })).toBe(1);
+		expect(answerCredit(question, { kind: 'order', order: [1, 0, 2, 3] })).toBe(0.5);
+		expect(answerCredit(question, { kind: 'order', order: [3, 2, 1, 0] })).toBe(0);
+		expect(isAnswerCorrect(question, { kind: 'order', order: [1, 0, 2, 3] })).toBe(false);
+	});
+
+	it('only takes every item once', () => {
+		expect(isValidAnswer(question, { kind: 'order', order: [0, 1, 2] })).toBe(false);
+		expect(isValidAnswer(question, { kind: 'order', order: [0, 0, 1, 2] })).toBe(false);
+	});
+
+	it('never shows the items in the right order', () => {
+		for (let i = 0; i < 20; i++) {
+			expect(createItemOrder(3)).not.toEqual([0, 1, 2]);
+		}
+	});
+
+	it('scores the order the player put the shuffled items in', async () => {
+		const quiz: Quiz = { id: 'quiz-1', title: 'Puzzles', scoring: 'accuracy', questions: [{ ...question, items: ['one', 'two', 'three'] }] };
+		const stub = await createGame('ordering-credit', quiz);
+		const host = await connectHost(stub);
+		const right = await joinPlayer(stub, 'Right');
+		const swapped = await joinPlayer(stub, 'Swapped');
+		const { question: shown } = await startGame(stub, host);
+		if (shown.type !== 'ordering') throw new Error('Expected an ordering question');
+
+		// Positions in the shuffled list, picked in the right order
+		const positions = ['one', 'two', 'three'].map((item) => shown.items.indexOf(item));
+		right.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'order', order: positions } });
+		swapped.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'order', order: [positions[1], positions[0], positions[2]] } });
+
+		const { scores } = await host.waitFor('question_end');
+		expect(scores.map(({ nickname, score }) => ({ nickname, score }))).toEqual([
+			{ nickname: 'Right', score: 1000 },
+			{ nickname: 'Swapped', score: 333 },
+		]);
+	});
+});
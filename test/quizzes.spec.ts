@@ -0,0 +1,151 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { SavedQuiz } from '../src/types';
+import type { TestAccount } from './helpers';
+import { api, errorOf, signUp } from './helpers';
+
+const quiz = {
+	title: 'Capitals',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: 'Capital of France', timerSeconds: 20, doublePoints: false, answers: ['Paris', 'Lyon', 'Nice', 'Lille'], correctIndices: [0] },
+	],
+};
+
+async function saveQuiz(owner: TestAccount, extra: { teamId?: string } = {}): Promise<SavedQuiz> {
+	const response = await api(owner, '/api/quizzes', { method: 'POST', body: { ...quiz, ...extra } });
+	expect(response.status).toBe(201);
+	return response.json();
+}
+
+describe('quiz ownership', () => {
+	it('needs a signed-in host', async () => {
+		expect(await errorOf(await api(null, '/api/quizzes'))).toEqual({ status: 401, error: 'Sign in required' });
+	});
+
+	it('keeps a quiz to its owner', async () => {
+		const owner = await signUp('Owner');
+		const stranger = await signUp('Stranger');
+		const saved = await saveQuiz(owner);
+		expect(saved).toMatchObject({ ownerId: owner.id, access: 'owner' });
+
+		const mine = (await (await api(owner, '/api/quizzes')).json()) as SavedQuiz[];
+		expect(mine.map((q) => q.id)).toEqual([saved.id]);
+		expect(await (await api(stranger, '/api/quizzes')).json()).toEqual([]);
+
+		const denied = { status: 403, error: 'You do not have access to this quiz' };
+		expect(await errorOf(await api(stranger, `/api/quizzes/${saved.id}`))).toEqual(denied);
+		expect(await errorOf(await api(stranger, `/api/quizzes/${saved.id}`, { method: 'PUT', body: quiz }))).toEqual(denied);
+		expect(await errorOf(await api(stranger, `/api/quizzes/${saved.id}`, { method: 'DELETE' }))).toEqual(denied);
+		expect(await errorOf(await api(stranger, `/api/quizzes/${saved.id}/clone`, { method: 'POST' }))).toEqual(denied);
+
+		expect((await api(owner, `/api/quizzes/${saved.id}`, { method: 'DELETE' })).status).toBe(200);
+		expect((await api(owner, `/api/quizzes/${saved.id}`)).status).toBe(404);
+	});
+
+	it('hides quizzes saved before accounts until someone claims them', async () => {
+		const host = await signUp('Legacy');
+		await env.DB.prepare("INSERT INTO quizzes (id, title, questions, created_at, updated_at) VALUES ('legacy-quiz', 'Old', '[]', 1, 1)").run();
+		expect((await api(host, '/api/quizzes/legacy-quiz')).status).toBe(403);
+
+		await env.DB.prepare("UPDATE quizzes SET owner_id = ? WHERE id = 'legacy-quiz'").bind(host.id).run();
+		expect(await (await api(host, '/api/quizzes/legacy-quiz')).json()).toMatchObject({ title: 'Old', access: 'owner' });
+	});
+});
+
+describe('share links', () => {
+	it('give read-only access until the owner revokes them', async () => {
+		const owner = await signUp('Sharer');
+		const friend = await signUp('Friend');
+		const saved = await saveQuiz(owner);
+
+		expect(await errorOf(await api(friend, `/api/quizzes/${saved.id}/share`, { method: 'POST' }))).toEqual({
+			status: 403,
+			error: 'You do not have access to this quiz',
+		});
+		const { shareToken } = (await (await api(owner, `/api/quizzes/${saved.id}/share`, { method: 'POST' })).json()) as { shareToken: string };
+
+		expect(await (await api(friend, `/api/shared/${shareToken}`)).json()).toMatchObject({ id: saved.id, access: 'viewer', shareToken: null });
+		const shared = (await (await api(friend, '/api/quizzes?scope=shared')).json()) as SavedQuiz[];
+		expect(shared.map((q) => q.id)).toEqual([saved.id]);
+
+		expect(await errorOf(await api(friend, `/api/quizzes/${saved.id}`, { method: 'PUT', body: quiz }))).toEqual({
+			status: 403,
+			error: 'This quiz was shared with you read-only. Clone it to make changes.',
+		});
+		expect(await errorOf(await api(friend, `/api/quizzes/${saved.id}`, { method: 'DELETE' }))).toEqual({
+			status: 403,
+			error: 'Only the owner can delete this quiz',
+		});
+		expect(await errorOf(await api(friend, `/api/quizzes/${saved.id}/share`, { method: 'POST' }))).toEqual({
+			status: 403,
+			error: 'Only the owner can share this quiz',
+		});
+		expect(await errorOf(await api(friend, `/api/quizzes/${saved.id}/reports`))).toEqual({
+			status: 403,
+			error: 'Only the owner and team members can see reports',
+		});
+
+		const clone = await api(friend, `/api/quizzes/${saved.id}/clone`, { method: 'POST' });
+		expect(clone.status).toBe(201);
+		expect(await clone.json()).toMatchObject({ title: 'Copy of Capitals', ownerId: friend.id, access: 'owner' });
+
+		expect((await api(owner, `/api/quizzes/${saved.id}/share`, { method: 'DELETE' })).status).toBe(200);
+		expect((await api(friend, `/api/quizzes/${saved.id}`)).status).toBe(403);
+		expect((await api(friend, `/api/shared/${shareToken}`)).status).toBe(404);
+	});
+});
+
+describe('team folders', () => {
+	it('let members edit, and leave moving and deleting to the owner', async () => {
+		const owner = await signUp('Lead');
+		const member = await signUp('Member');
+		const outsider = await signUp('Outsider');
+		const team = (await (await api(owner, '/api/teams', { method: 'POST', body: { name: 'Geography' } })).json()) as { id: string };
+		expect((await api(owner, `/api/teams/${team.id}/members`, { method: 'POST', body: { email: member.email } })).status).toBe(201);
+		expect(await errorOf(await api(member, `/api/teams/${team.id}/members`, { method: 'POST', body: { email: outsider.email } }))).toEqual({
+			status: 403,
+			error: 'Only the team owner can add members',
+		});
+
+		const saved = await saveQuiz(owner, { teamId: team.id });
+		const edited = await api(member, `/api/quizzes/${saved.id}`, { method: 'PUT', body: { ...quiz, title: 'European capitals' } });
+		expect(await edited.json()).toMatchObject({ title: 'European capitals', access: 'editor' });
+
+		expect(await errorOf(await api(member, `/api/quizzes/${saved.id}`, { method: 'PUT', body: { ...quiz, teamId: null } }))).toEqual({
+			status: 403,
+			error: 'Only the owner can move this quiz to another team',
+		});
+		expect((await api(member, `/api/quizzes/${saved.id}`, { method: 'DELETE' })).status).toBe(403);
+		expect((await api(outsider, `/api/quizzes/${saved.id}`)).status).toBe(403);
+		expect(await errorOf(await api(outsider, '/api/quizzes', { method: 'POST', body: { ...quiz, teamId: team.id } }))).toEqual({
+			status: 403,
+			error: 'You are not a member of this team',
+		});
+	});
+});
+
+describe('malformed bodies', () => {
+	// Sent as is, so it can be something that isn't JSON
+	function sendText(account: TestAccount, path: string, method: string, body: string) {
+		return SELF.fetch(`http://cfhoot${path}`, { method, headers: { Authorization: `Bearer ${account.token}` }, body });
+	}
+
+	it('are refused with a 400 instead of failing the request', async () => {
+		const owner = await signUp('Sloppy');
+		const saved = await saveQuiz(owner);
+		const team = (await (await api(owner, '/api/teams', { method: 'POST', body: { name: 'History' } })).json()) as { id: string };
+
+		const invalidQuiz = { status: 400, error: 'Please fix the highlighted fields' };
+		expect(await errorOf(await sendText(owner, '/api/quizzes', 'POST', '{"title":'))).toEqual(invalidQuiz);
+		expect(await errorOf(await sendText(owner, `/api/quizzes/${saved.id}`, 'PUT', 'not json'))).toEqual(invalidQuiz);
+		expect(await errorOf(await sendText(owner, '/api/teams', 'POST', 'not json'))).toEqual({
+			status: 400,
+			error: 'Team name must be 1-100 characters',
+		});
+		expect(await errorOf(await sendText(owner, `/api/teams/${team.id}/members`, 'POST', 'not json'))).toEqual({
+			status: 400,
+			error: 'Email is required',
+		});
+	});
+});
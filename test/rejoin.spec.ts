@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import { connect, connectHost, createGame, joinPlayer, rejoin, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Welcome back',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+describe('rejoin secret', () => {
+	it('lets the device that joined back in as the same player', async () => {
+		const stub = await createGame('rejoin-valid', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Robin');
+		await joinPlayer(stub, 'Sam'); // Still thinking, so the question stays open
+		await startGame(stub, host);
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received');
+		player.ws.close();
+		await host.waitFor('player_left');
+
+		const { socket, snapshot } = await rejoin(stub, player);
+		expect(await socket.waitFor('player_session')).toEqual({ type: 'player_session', playerId: player.playerId, rejoinToken: player.rejoinToken });
+		expect(snapshot.state.myAnswers).toEqual({ q1: expect.objectContaining({ answerIndices: [1] }) });
+		expect(Object.keys(snapshot.state.players)).toHaveLength(2);
+	});
+
+	it('turns away anyone who only knows the player id and nickname', async () => {
+		const stub = await createGame('rejoin-forged', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Robin');
+
+		for (const rejoinToken of ['guess', '']) {
+			const impostor = await connect(stub);
+			impostor.send({ type: 'player_rejoin', playerId: player.playerId, nickname: player.nickname, rejoinToken });
+			await impostor.waitFor('error', (frame) => frame.message === 'Invalid session. Please join again.');
+			expect(impostor.frames.some((frame) => frame.type === 'player_session')).toBe(false);
+		}
+
+		// The real player is still the one playing
+		expect(host.frames.some((frame) => frame.type === 'player_left')).toBe(false);
+		await startGame(stub, host);
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [1] } });
+		await host.waitFor('answer_received', (frame) => frame.playerId === player.playerId);
+	});
+
+	it('checks the nickname too', async () => {
+		const stub = await createGame('rejoin-nickname', quiz);
+		const player = await joinPlayer(stub, 'Robin');
+
+		const other = await connect(stub);
+		other.send({ type: 'player_rejoin', playerId: player.playerId, nickname: 'Someone', rejoinToken: player.rejoinToken });
+		await other.waitFor('error', (frame) => frame.message === 'Nickname does not match');
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz } from '../src/types';
+import type { GameStub, TestSocket } from './helpers';
+import { connect, connectHost, createGame, HOST_TOKEN, joinPlayer } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Catching up',
+	scoring: 'classic',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+function lastSeq(socket: TestSocket): number {
+	const seqs = socket.frames.map((frame) => frame.seq).filter((seq) => seq !== undefined);
+	return seqs[seqs.length - 1];
+}
+
+// Lock and unlock the lobby, each a logged settings_changed event
+async function toggleLock(stub: GameStub, host: TestSocket, times: number) {
+	for (let i = 0; i < times; i++) {
+		const from = host.frames.length;
+		host.send({ type: 'host_lock_lobby', locked: i % 2 === 0 });
+		await host.waitFor('settings_changed', undefined, from);
+	}
+}
+
+describe('resuming from a sequence number', () => {
+	it('sends only the events missed, in order', async () => {
+		const stub = await createGame('replay-resume', quiz);
+		const host = await connectHost(stub);
+		const since = lastSeq(host);
+		host.ws.close();
+
+		await joinPlayer(stub, 'Ann');
+		await joinPlayer(stub, 'Ben');
+
+		const resumed = await connect(stub, `&host=true&token=${HOST_TOKEN}&since=${since}`);
+		await resumed.waitFor('player_joined', (frame) => frame.player.nickname === 'Ben');
+		expect(resumed.frames.map((frame) => frame.type)).toEqual(['player_joined', 'player_joined']);
+		expect(resumed.frames.map((frame) => frame.seq)).toEqual([since + 1, since + 2]);
+	});
+
+	it('falls back to a snapshot once the missed events have left the log', async () => {
+		const stub = await createGame('replay-gap', quiz);
+		const host = await connectHost(stub);
+		const since = lastSeq(host);
+		await joinPlayer(stub, 'Cleo');
+		await toggleLock(stub, host, 200);
+
+		const resumed = await connect(stub, `&host=true&token=${HOST_TOKEN}&since=${since}`);
+		const snapshot = await resumed.waitFor('game_state');
+		expect(resumed.frames).toHaveLength(1);
+		expect(snapshot.seq).toBe(lastSeq(host));
+		expect(Object.values(snapshot.state.players)).toEqual([expect.objectContaining({ nickname: 'Cleo' })]);
+	});
+
+	it('falls back to a snapshot for a number the game never reached', async () => {
+		const stub = await createGame('replay-future', quiz);
+		const resumed = await connect(stub, '&since=9999');
+		await resumed.waitFor('game_state');
+	});
+});
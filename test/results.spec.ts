@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { GameResults, Quiz } from '../src/types';
+import { REVEAL_DELAY_MS } from '../src/gameTimers';
+import type { TestAccount } from './helpers';
+import { advance, api, connectHost, createGame, joinPlayer, passTime, signUp, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-results',
+	title: 'Results',
+	scoring: 'accuracy',
+	questions: [
+		{ id: 'q1', type: 'type_answer', text: 'Capital of Italy', timerSeconds: 20, doublePoints: false, acceptedAnswers: ['Rome'], fuzzy: true },
+	],
+};
+
+// A game run by the host to the podium, where its results are saved
+async function playGame(name: string, host: TestAccount) {
+	const stub = await createGame(name, quiz, { hostId: host.id });
+	const presenter = await connectHost(stub);
+	const ada = await joinPlayer(stub, 'Ada');
+	const bo = await joinPlayer(stub, 'Bo');
+	await startGame(stub, presenter);
+
+	passTime(2000);
+	ada.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'text', text: 'rome' } });
+	await presenter.waitFor('answer_received');
+	passTime(3500);
+	bo.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'text', text: 'Milan' } });
+	await presenter.waitFor('question_end');
+	await advance(stub, REVEAL_DELAY_MS);
+	return { ada, bo };
+}
+
+describe('game results', () => {
+	it('are saved for the host who ran the game, and nobody else', async () => {
+		const host = await signUp('Host');
+		const other = await signUp('Other');
+		const { ada, bo } = await playGame('results-access', host);
+
+		const response = await api(host, '/api/games/results-access/results');
+		expect(response.status).toBe(200);
+		const results = (await response.json()) as GameResults;
+		expect(results).toMatchObject({ gameId: 'results-access', quizId: 'quiz-results', quizTitle: 'Results' });
+		expect(results.leaderboard).toEqual([
+			{ playerId: ada.playerId, nickname: 'Ada', score: 1000, rank: 1 },
+			{ playerId: bo.playerId, nickname: 'Bo', score: 0, rank: 2 },
+		]);
+		expect(results.questionStats).toEqual([
+			{ questionId: 'q1', questionIndex: 0, text: 'Capital of Italy', type: 'type_answer', answerCount: 2, accuracy: 0.5, averageResponseMs: 3750 },
+		]);
+
+		expect(await api(other, '/api/games/results-access/results')).toMatchObject({ status: 404 });
+		expect(await api(other, '/api/games/results-access/export')).toMatchObject({ status: 404 });
+		expect(await api(null, '/api/games/results-access/results')).toMatchObject({ status: 401 });
+	});
+
+	it('export one row per player with each answer', async () => {
+		const host = await signUp('Exporter');
+		await playGame('results-export', host);
+
+		const response = await api(host, '/api/games/results-export/export?format=csv');
+		expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="results-results.csv"');
+		expect((await response.text()).split('\r\n')).toEqual([
+			'Rank,Player,Score,Q1 Capital of Italy,Q1 correct,Q1 points,Q1 time (s)',
+			'1,Ada,1000,rome,yes,1000,2.0',
+			'2,Bo,0,Milan,no,0,5.5',
+			'',
+		]);
+
+		expect(await api(host, '/api/games/results-export/export?format=pdf')).toMatchObject({ status: 400 });
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { MultipleChoiceQuestion, PlayerAnswer, Quiz } from '../src/types';
+import { getScoringStrategy } from '../src/scoring';
+import { connectHost, createGame, joinPlayer, nextQuestion, startGame } from './helpers';
+
+const question: MultipleChoiceQuestion = {
+	id: 'q1',
+	type: 'multiple_choice',
+	text: 'Pick the primes',
+	timerSeconds: 20,
+	doublePoints: false,
+	answers: ['2', '3', '4', '6'],
+	correctIndices: [0, 1],
+};
+
+// Answered after this many seconds
+function answer(answerIndices: number[], seconds = 0): PlayerAnswer {
+	return { kind: 'choice', answerIndices, timestamp: seconds * 1000 };
+}
+
+function score(mode: Parameters<typeof getScoringStrategy>[0], given: PlayerAnswer | undefined, streak = 0, q = question) {
+	return getScoringStrategy(mode).score({ question: q, answer: given, questionStartTime: 0, streak });
+}
+
+describe('classic scoring', () => {
+	it('gives half the points for being right and half for being fast', () => {
+		expect(score('classic', answer([0, 1]))).toBe(1000);
+		expect(score('classic', answer([0, 1], 10))).toBe(750);
+		expect(score('classic', answer([0, 1], 20))).toBe(500);
+		expect(score('classic', answer([0, 1]), 0, { ...question, doublePoints: true })).toBe(2000);
+	});
+
+	it('gives nothing for a wrong, partly right or missing answer', () => {
+		expect(score('classic', answer([2]))).toBe(0);
+		expect(score('classic', answer([0]))).toBe(0);
+		expect(score('classic', undefined)).toBe(0);
+	});
+
+	it('is the default', () => {
+		expect(score(undefined, answer([0, 1], 10))).toBe(750);
+	});
+});
+
+describe('accuracy scoring', () => {
+	it('ignores how long the answer took', () => {
+		expect(score('accuracy', answer([0, 1], 19))).toBe(1000);
+		expect(score('accuracy', answer([0]))).toBe(0);
+	});
+});
+
+describe('streak scoring', () => {
+	it('adds 10% for each earlier correct answer in a row, up to 50%', () => {
+		expect(score('streak', answer([0, 1], 10))).toBe(750);
+		expect(score('streak', answer([0, 1], 10), 2)).toBe(900);
+		expect(score('streak', answer([0, 1], 10), 9)).toBe(1125);
+		expect(score('streak', answer([2]), 9)).toBe(0);
+	});
+});
+
+describe('partial credit scoring', () => {
+	it('gives a share for each correct pick, less one for each wrong pick', () => {
+		expect(score('partial_credit', answer([0, 1]))).toBe(1000);
+		expect(score('partial_credit', answer([1]))).toBe(500);
+		expect(score('partial_credit', answer([0, 1, 2]))).toBe(500);
+		expect(score('partial_credit', answer([0, 2]))).toBe(0);
+		expect(score('partial_credit', answer([2, 3]))).toBe(0);
+	});
+});
+
+describe('streaks in a game', () => {
+	it('carry over polls and skipped questions', async () => {
+		const quiz: Quiz = {
+			id: 'quiz-1',
+			title: 'On a roll',
+			scoring: 'streak',
+			questions: [
+				{ ...question, id: 'q1', correctIndices: [0] },
+				{ id: 'q2', type: 'poll', text: 'Favourite?', timerSeconds: 20, doublePoints: false, answers: ['2', '3'] },
+				{ ...question, id: 'q3', correctIndices: [0] },
+				{ ...question, id: 'q4', correctIndices: [0] },
+			],
+		};
+		const stub = await createGame('streak-game', quiz);
+		const host = await connectHost(stub);
+		const player = await joinPlayer(stub, 'Streaky');
+		const pointsFor = async (questionId: string, answerIndices: number[]) => {
+			const from = host.frames.length;
+			player.send({ type: 'player_answer', questionId, answer: { kind: 'choice', answerIndices } });
+			const { scores } = await host.waitFor('question_end', undefined, from);
+			return scores[0].pointsGained;
+		};
+
+		await startGame(stub, host);
+		expect(await pointsFor('q1', [0])).toBe(1000);
+		await nextQuestion(stub, host);
+		expect(await pointsFor('q2', [1])).toBe(0);
+		await nextQuestion(stub, host);
+		host.send({ type: 'host_skip_question' });
+		await host.waitFor('question_end', (frame) => frame.skipped === true);
+		await nextQuestion(stub, host);
+		expect(await pointsFor('q4', [0])).toBe(1100);
+	});
+});
@@ -0,0 +1,8 @@
+import { env } from 'cloudflare:test';
+
+// D1 starts empty; create the tables from schema.sql (every statement is IF NOT EXISTS)
+const statements = env.SCHEMA.replace(/--.*$/gm, '')
+	.split(';')
+	.map((statement) => statement.trim())
+	.filter(Boolean);
+await env.DB.batch(statements.map((statement) => env.DB.prepare(statement)));
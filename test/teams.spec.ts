@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { Quiz, TeamScoring } from '../src/types';
+import { connectHost, createGame, joinPlayer, passTime, startGame } from './helpers';
+
+const quiz: Quiz = {
+	id: 'quiz-1',
+	title: 'Team quiz',
+	scoring: 'accuracy',
+	questions: [
+		{ id: 'q1', type: 'multiple_choice', text: '2 + 2', timerSeconds: 20, doublePoints: false, answers: ['3', '4', '5', '6'], correctIndices: [1] },
+	],
+};
+
+// Red: two of three right. Blue: one wrong, then one right a second later.
+async function playRound(scoring: TeamScoring) {
+	const stub = await createGame(`teams-${scoring}`, quiz, { teams: { count: 2, scoring } });
+	const host = await connectHost(stub);
+	const red = [await joinPlayer(stub, 'Red1', { teamId: 'team-1' }), await joinPlayer(stub, 'Red2', { teamId: 'team-1' }), await joinPlayer(stub, 'Red3', { teamId: 'team-1' })];
+	const blue = [await joinPlayer(stub, 'Blue1', { teamId: 'team-2' }), await joinPlayer(stub, 'Blue2', { teamId: 'team-2' })];
+	await startGame(stub, host);
+
+	const answer = (player: (typeof red)[number], index: number) =>
+		player.send({ type: 'player_answer', questionId: 'q1', answer: { kind: 'choice', answerIndices: [index] } });
+	answer(red[0], 1);
+	answer(red[1], 1);
+	answer(red[2], 0);
+	answer(blue[1], 0);
+	await host.waitFor('answer_received', (frame) => frame.playerId === blue[1].playerId);
+	passTime(1000);
+	answer(blue[0], 1);
+
+	const { teamScores } = await host.waitFor('question_end');
+	return teamScores?.map(({ name, score, rank, memberCount }) => ({ name, score, rank, memberCount }));
+}
+
+describe('team scoring', () => {
+	it('sum adds up the members points', async () => {
+		expect(await playRound('sum')).toEqual([
+			{ name: 'Team Red', score: 2000, rank: 1, memberCount: 3 },
+			{ name: 'Team Blue', score: 1000, rank: 2, memberCount: 2 },
+		]);
+	});
+
+	it('average divides them by the team size', async () => {
+		expect(await playRound('average')).toEqual([
+			{ name: 'Team Red', score: 667, rank: 1, memberCount: 3 },
+			{ name: 'Team Blue', score: 500, rank: 2, memberCount: 2 },
+		]);
+	});
+
+	it('consensus scores the answer most members gave, the first settled on a tie', async () => {
+		expect(await playRound('consensus')).toEqual([
+			{ name: 'Team Red', score: 1000, rank: 1, memberCount: 3 },
+			{ name: 'Team Blue', score: 0, rank: 2, memberCount: 2 },
+		]);
+	});
+});
+
+describe('team picking', () => {
+	it('puts a player who does not pick on the smallest team', async () => {
+		const stub = await createGame('teams-smallest', quiz, { teams: { count: 3, scoring: 'sum' } });
+		await joinPlayer(stub, 'Picker', { teamId: 'team-1' });
+		const first = await joinPlayer(stub, 'Undecided');
+		const second = await joinPlayer(stub, 'Also undecided');
+
+		const teamOf = async (player: typeof first) =>
+			(await player.waitFor('player_joined', (frame) => frame.player.id === player.playerId)).player.teamId;
+		expect(await teamOf(first)).toBe('team-2');
+		expect(await teamOf(second)).toBe('team-3');
+	});
+});
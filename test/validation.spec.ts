@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuestion, validateQuiz } from '../src/validation';
+
+const base = { id: 'q1', text: 'Question', timerSeconds: 20 };
+
+function errorsFor(question: Record<string, unknown>) {
+	const result = validateQuiz({ title: 'Quiz', questions: [question] });
+	return result.success ? [] : result.errors;
+}
+
+describe('question validation', () => {
+	it('points at the answer that is wrong on a multiple choice question', () => {
+		const answers = ['a', 'b', 'c', ' '];
+		expect(errorsFor({ ...base, type: 'multiple_choice', answers, correctIndices: [0] })).toEqual([
+			{ path: 'questions.0.answers.3', message: 'Answer cannot be empty' },
+		]);
+	});
+
+	it('wants four answers on a multiple choice question', () => {
+		expect(errorsFor({ ...base, type: 'multiple_choice', answers: ['a', 'b', 'c'], correctIndices: [0] })).toEqual([
+			{ path: 'questions.0.answers', message: 'Question must have 4 answers' },
+		]);
+	});
+
+	it('checks the timer of questions saved without a type', () => {
+		expect(errorsFor({ ...base, timerSeconds: 7, answers: ['a', 'b', 'c', 'd'], correctIndices: [0] })).toEqual([
+			{ path: 'questions.0.timerSeconds', message: 'Timer must be 5, 10, 20, 30 or 60 seconds' },
+		]);
+	});
+
+	it('wants an answer on a true/false question', () => {
+		expect(errorsFor({ ...base, type: 'true_false' })).toEqual([{ path: 'questions.0.correctAnswer', message: 'Pick True or False' }]);
+	});
+
+	it('wants an accepted answer on a type-the-answer question', () => {
+		expect(errorsFor({ ...base, type: 'type_answer', acceptedAnswers: [] })).toEqual([
+			{ path: 'questions.0.acceptedAnswers', message: 'Add at least one accepted answer' },
+		]);
+	});
+
+	it('wants a tolerance and a sensible range on a slider', () => {
+		const slider = { ...base, type: 'slider', min: 0, max: 10, step: 1, correctValue: 5 };
+		expect(errorsFor(slider)).toEqual([{ path: 'questions.0.tolerance', message: 'Tolerance must be a number' }]);
+		expect(errorsFor({ ...slider, tolerance: 0, correctValue: 11 })).toEqual([
+			{ path: 'questions.0.correctValue', message: 'Correct value must be between minimum and maximum' },
+		]);
+		expect(errorsFor({ ...slider, tolerance: 0, max: 0 })).toEqual([{ path: 'questions.0.max', message: 'Maximum must be greater than minimum' }]);
+	});
+
+	it('wants two to four items on an ordering question', () => {
+		expect(errorsFor({ ...base, type: 'ordering', items: ['only'] })).toEqual([
+			{ path: 'questions.0.items', message: 'Add 2 to 4 items to put in order' },
+		]);
+	});
+
+	it('wants two to four options on a poll', () => {
+		expect(errorsFor({ ...base, type: 'poll', answers: ['a', 'b', 'c', 'd', 'e'] })).toEqual([
+			{ path: 'questions.0.answers', message: 'Poll needs 2 to 4 options' },
+		]);
+	});
+
+	it('only reports an unknown type when the type is unknown', () => {
+		expect(errorsFor({ ...base, type: 'essay' })).toEqual([{ path: 'questions.0.type', message: 'Unknown question type' }]);
+	});
+
+	it('reports paths from the question itself', () => {
+		const result = validateQuestion({ ...base, type: 'true_false', correctAnswer: true, text: '' });
+		expect(result).toEqual({ success: false, errors: [{ path: 'text', message: 'Question needs text or an image' }] });
+	});
+});
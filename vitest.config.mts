@@ -1,10 +1,20 @@
+import { readFileSync } from 'node:fs';
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
 export default defineWorkersConfig({
 	test: {
+		setupFiles: ['./test/setup.ts'],
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Game tests hold WebSockets open, which per-test storage isolation doesn't support
+				isolatedStorage: false,
+				miniflare: {
+					// The game keeps its state in Durable Object SQL storage
+					durableObjects: { GAME: { className: 'GameDurableObject', useSQLite: true } },
+					// The D1 tables, created by test/setup.ts
+					bindings: { SCHEMA: readFileSync('./schema.sql', 'utf8') },
+				},
 			},
 		},
 	},